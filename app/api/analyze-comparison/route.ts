@@ -49,9 +49,19 @@ export async function POST(request: NextRequest) {
           totalCost: metrics.totalCost,
           discount: metrics.discount,
           discountPercent: metrics.discountPercent,
+          totalIncentives: metrics.totalIncentives,
           financedAmount: metrics.financedAmount,
+          cashDueAtSigning: metrics.cashDueAtSigning,
           dealerFinancingMarkupCost: metrics.dealerFinancingMarkupCost,
           totalAllFees: metrics.totalAllFees,
+          totalDealerFees: metrics.totalDealerFees,
+          totalGovernmentFees: metrics.totalGovernmentFees,
+          totalOtherFees: metrics.totalOtherFees,
+          refusedFees: metrics.refusedFees,
+          totalAddOns: metrics.totalAddOns,
+          financedAddOns: metrics.financedAddOns,
+          lease: metrics.lease,
+          leaseBuyout: metrics.leaseBuyout,
         },
       };
     });
@@ -119,22 +129,53 @@ export async function POST(request: NextRequest) {
         listedPrice: car.listedPrice,
         negotiatedPrice: car.negotiatedPrice,
         downPayment: car.downPayment,
+        cashDueAtSigning: car.metrics.cashDueAtSigning,
         apr: (car.apr * 100).toFixed(2) + '%',
         buyRateApr: car.buyRateApr !== undefined && car.buyRateApr > 0 ? (car.buyRateApr * 100).toFixed(2) + '%' : null,
         termLength: car.termLength,
+        balloonPayment: car.balloonPayment || 0,
+        firstPaymentDeferralDays: car.firstPaymentDeferralDays || 0,
         monthlyPayment: car.metrics.monthlyPaymentWithTax,
         totalInterest: car.metrics.totalInterest,
         totalCost: car.metrics.totalCost,
         discount: car.metrics.discount,
         discountPercent: car.metrics.discountPercent,
+        totalIncentives: car.metrics.totalIncentives,
+        incentives: car.incentives || [],
         creditScore: car.creditScore,
-        dealerFees: car.dealerFees || 0,
-        governmentFees: car.governmentFees || 0,
-        otherFees: car.otherFees || 0,
+        dealerFees: car.metrics.totalDealerFees,
+        governmentFees: car.metrics.totalGovernmentFees,
+        otherFees: car.metrics.totalOtherFees,
+        refusedFees: car.metrics.refusedFees,
+        feeItems: car.fees || [],
+        addOns: car.addOns || [],
+        totalAddOns: car.metrics.totalAddOns,
+        financedAddOns: car.metrics.financedAddOns,
         totalFees: car.metrics.totalAllFees,
         notes: car.notes,
         dealerFinancingMarkup: car.metrics.dealerFinancingMarkupCost || 0,
         warranty: warrantyInfo,
+        dealType: car.dealType === 'lease' ? 'Lease' : car.dealType === 'buyout' ? 'Lease Buyout' : car.dealType === 'cash' ? 'Cash' : 'Purchase',
+        ...(car.metrics.lease && {
+          moneyFactor: car.moneyFactor || 0,
+          equivalentApr: (car.metrics.lease.equivalentApr * 100).toFixed(2) + '%',
+          residualPercent: car.metrics.lease.residualPercent.toFixed(1) + '%',
+          residualValue: car.metrics.lease.residualValue,
+          acquisitionFee: car.acquisitionFee || 0,
+          dispositionFee: car.dispositionFee || 0,
+          dueAtSigning: car.metrics.lease.dueAtSigning,
+          annualMileageAllowance: car.annualMileageAllowance || null,
+        }),
+        ...(car.metrics.leaseBuyout && {
+          buyoutPrice: car.metrics.leaseBuyout.buyoutPrice,
+          marketValue: car.metrics.leaseBuyout.marketValue,
+          leaseEquity: car.metrics.leaseBuyout.equity,
+          leaseEndOptions: {
+            buyOut: car.metrics.leaseBuyout.buyOutNet,
+            turnIn: car.metrics.leaseBuyout.turnInNet,
+            sellToDealer: car.metrics.leaseBuyout.sellToDealerNet,
+          },
+        }),
         expectedResidualRange: residualRange ? {
           expected: residualRange.expected,
           min: residualRange.min,
@@ -306,6 +347,7 @@ ${JSON.stringify(comparisonData, null, 2)}`;
    - **Legitimate Fees** (usually non-negotiable): Registration fees ($50-$200), Title fees ($50-$400), Sales tax
    - **Total Fee Reasonableness**: Total fees (excluding sales tax) should typically be between $500-$1,200. Flag any vehicle with total fees significantly higher than this range.
    - **Recommendation**: For each vehicle, identify which fees are negotiable and recommend negotiating them down or asking the dealer to reduce the vehicle price by that amount instead.
+   - **Add-On Products**: The addOns list records GAP, service contracts, tire & wheel and paint protection sold with the car (price, coverage term, taxable, financed, cancellable). Financed add-ons also accrue interest; note which could be bought cheaper elsewhere (e.g., GAP from the insurer or credit union) or cancelled later for a prorated refund.
 
 4. **Dealer Financing Markup**: If buyRateApr is provided, check for dealer markup on financing. This represents hidden profit the dealer makes by marking up the interest rate above what the lender actually offers. Flag this as a negotiation opportunity - you can ask the dealer to match the buy rate or reduce the vehicle price by the markup amount.
 
@@ -0,0 +1,124 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { applyChanges, getChanges, SYNC_COLLECTIONS } from '@/lib/syncDatabase';
+import { SyncCollection, SyncRecord, SyncRequest } from '@/lib/types';
+
+// The file database needs the Node.js runtime
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ collection: string }>;
+}
+
+// Pushes larger than this are rejected before they're parsed
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+// The sync API reads and rewrites the whole database, so it's only meant for a trusted host and is off unless a
+// shared token is configured. Clients send it as "Authorization: Bearer <token>".
+function checkAuthorization(request: NextRequest): NextResponse | null {
+  const token = process.env.CPC_SYNC_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: 'Sync is not configured on this server' }, { status: 503 });
+  }
+  const provided = Buffer.from((request.headers.get('authorization') || '').replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(token);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return NextResponse.json({ error: 'Invalid sync token' }, { status: 401 });
+  }
+  return null;
+}
+
+function tooLargeResponse(): NextResponse {
+  return NextResponse.json({ error: `Request body is larger than ${MAX_BODY_BYTES} bytes` }, { status: 413 });
+}
+
+function parseCollection(collection: string): SyncCollection | null {
+  return SYNC_COLLECTIONS.includes(collection as SyncCollection) ? (collection as SyncCollection) : null;
+}
+
+function isSyncRecord(value: unknown): value is SyncRecord {
+  const record = value as SyncRecord;
+  return (
+    record !== null &&
+    typeof record === 'object' &&
+    typeof record.id === 'string' &&
+    record.id !== '' &&
+    typeof record.updatedAt === 'string' &&
+    !isNaN(new Date(record.updatedAt).getTime())
+  );
+}
+
+// Pull: records changed since the given revision
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = checkAuthorization(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const collection = parseCollection((await params).collection);
+    if (!collection) {
+      return NextResponse.json({ error: 'Unknown collection' }, { status: 404 });
+    }
+
+    const since = parseInt(request.nextUrl.searchParams.get('since') || '0') || 0;
+    return NextResponse.json(await getChanges(collection, since));
+  } catch (error) {
+    console.error('Error reading sync changes:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Push and pull in one round trip: applies the client's changes, then returns everything changed since `since`
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = checkAuthorization(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const collection = parseCollection((await params).collection);
+    if (!collection) {
+      return NextResponse.json({ error: 'Unknown collection' }, { status: 404 });
+    }
+
+    // Content-Length can be missing or wrong, so the body is measured again once read
+    if (Number(request.headers.get('content-length') || 0) > MAX_BODY_BYTES) {
+      return tooLargeResponse();
+    }
+    const text = await request.text();
+    if (Buffer.byteLength(text) > MAX_BODY_BYTES) {
+      return tooLargeResponse();
+    }
+
+    let body: Partial<SyncRequest>;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+    if (
+      body === null ||
+      typeof body !== 'object' ||
+      typeof body.since !== 'number' ||
+      !Array.isArray(body.changes) ||
+      !body.changes.every(isSyncRecord)
+    ) {
+      return NextResponse.json(
+        { error: 'Expected { since: number, changes: { id, updatedAt, deleted?, data? }[] }' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await applyChanges(collection, body.since, body.changes));
+  } catch (error) {
+    console.error('Error applying sync changes:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,12 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Car } from '@/lib/types';
+import { Car, SavedComparison } from '@/lib/types';
 import carStorage from '@/lib/carStorage';
+import profileStorage from '@/lib/profileStorage';
+import depreciationStorage from '@/lib/depreciationStorage';
+import comparisonStorage from '@/lib/comparisonStorage';
+import { subscribeToRemoteChanges } from '@/lib/syncClient';
 import { calculateCarMetrics } from '@/lib/carCalculations';
 import ComparisonTable from '../components/ComparisonTable';
 import Link from 'next/link';
@@ -21,9 +25,17 @@ export default function ComparePage() {
   const [customPrompt, setCustomPrompt] = useState<string>('');
   const [followUpPrompt, setFollowUpPrompt] = useState<string>('');
   const [isFollowUpAnalyzing, setIsFollowUpAnalyzing] = useState(false);
+  const [savedComparisons, setSavedComparisons] = useState<SavedComparison[]>([]);
+  const [comparisonName, setComparisonName] = useState<string>('');
 
   useEffect(() => {
     loadCars();
+    loadSavedComparisons();
+    // Pick up cars and comparisons changed on another device
+    return subscribeToRemoteChanges((collections) => {
+      if (collections.includes('cars')) loadCars();
+      if (collections.includes('comparisons')) loadSavedComparisons();
+    });
   }, []);
 
   // Load selected car IDs from localStorage on mount
@@ -50,11 +62,17 @@ export default function ComparePage() {
     }
   }, [selectedCarIds]);
 
-  const loadCars = () => {
-    const allCars = carStorage.getAllCars();
-    setCars(allCars);
-    // Load saved selection from localStorage, or auto-select all if none saved
+  const loadCars = async () => {
+    // Read the saved selection before awaiting; the effect above clears it while nothing is selected yet
     const savedIds = localStorage.getItem('compareSelectedCarIds');
+    // The comparison table reads the profile and depreciation curves while rendering, so load them with the cars
+    const [allCars] = await Promise.all([
+      carStorage.getAllCars(),
+      profileStorage.loadProfile(),
+      depreciationStorage.getAllCurves(),
+    ]);
+    setCars(allCars);
+    // Use the saved selection, or auto-select all if none saved
     if (savedIds) {
       try {
         const idsArray = JSON.parse(savedIds);
@@ -76,6 +94,43 @@ export default function ComparePage() {
     }
   };
 
+  const loadSavedComparisons = async () => {
+    setSavedComparisons(await comparisonStorage.getAllComparisons());
+  };
+
+  const handleSaveComparison = async () => {
+    if (!comparisonName.trim() || selectedCarIds.size === 0) {
+      alert('Please select at least one car and enter a name for the comparison');
+      return;
+    }
+    await comparisonStorage.saveComparison({
+      name: comparisonName,
+      carIds: Array.from(selectedCarIds),
+      downPaymentOverride,
+      termOverride,
+      aprOverride,
+    });
+    setComparisonName('');
+    await loadSavedComparisons();
+  };
+
+  const handleLoadComparison = (comparison: SavedComparison) => {
+    // Cars deleted since the comparison was saved are skipped
+    setSelectedCarIds(new Set(comparison.carIds.filter((id) => cars.some((c) => c.id === id))));
+    setDownPaymentOverride(comparison.downPaymentOverride);
+    setTermOverride(comparison.termOverride);
+    setAprOverride(comparison.aprOverride);
+    setAnalysis(null);
+    setAnalysisError(null);
+  };
+
+  const handleDeleteComparison = async (comparison: SavedComparison) => {
+    if (confirm(`Delete saved comparison "${comparison.name}"?`)) {
+      await comparisonStorage.deleteComparison(comparison.id);
+      await loadSavedComparisons();
+    }
+  };
+
   const handleToggleCar = (carId: string) => {
     setSelectedCarIds((prev) => {
       const newSet = new Set(prev);
@@ -163,7 +218,7 @@ export default function ComparePage() {
     setAnalysisError(null);
   };
 
-  const handleDeleteCar = (carId: string) => {
+  const handleDeleteCar = async (carId: string) => {
     const car = cars.find(c => c.id === carId);
     const carName = car ? `${car.year} ${car.make} ${car.model}` : 'this car';
     if (confirm(`Are you sure you want to delete ${carName}? This action cannot be undone.`)) {
@@ -174,9 +229,9 @@ export default function ComparePage() {
         return newSet;
       });
       // Delete from storage
-      carStorage.deleteCar(carId);
+      await carStorage.deleteCar(carId);
       // Reload cars
-      loadCars();
+      await loadCars();
       // Clear analysis when car is deleted
       setAnalysis(null);
       setAnalysisError(null);
@@ -451,6 +506,54 @@ export default function ComparePage() {
               })}
             </div>
 
+            <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4">
+              <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+                Saved Comparisons
+              </h3>
+              <div className="flex flex-col md:flex-row gap-2 mb-3">
+                <input
+                  type="text"
+                  value={comparisonName}
+                  onChange={(e) => setComparisonName(e.target.value)}
+                  placeholder="Name this comparison (e.g., Final three SUVs)"
+                  className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+                <button
+                  onClick={handleSaveComparison}
+                  className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors whitespace-nowrap"
+                >
+                  Save Selection & Overrides
+                </button>
+              </div>
+              {savedComparisons.length === 0 ? (
+                <p className="text-xs text-gray-500 dark:text-gray-400">No saved comparisons yet.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {savedComparisons.map((comparison) => (
+                    <div
+                      key={comparison.id}
+                      className="flex items-center gap-1 pl-3 pr-1 py-1 bg-gray-100 dark:bg-gray-700 rounded-lg text-sm"
+                    >
+                      <button
+                        onClick={() => handleLoadComparison(comparison)}
+                        className="text-blue-600 dark:text-blue-400 hover:underline"
+                        title={`Saved ${new Date(comparison.savedAt).toLocaleString()}`}
+                      >
+                        {comparison.name} ({comparison.carIds.length})
+                      </button>
+                      <button
+                        onClick={() => handleDeleteComparison(comparison)}
+                        className="px-1.5 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                        title="Delete saved comparison"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
             <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4">
               <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
                 Comparison Overrides (Preview Only)
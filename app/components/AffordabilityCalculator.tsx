@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import { calculateMaxAffordablePrice } from '@/lib/carCalculations';
+import profileStorage from '@/lib/profileStorage';
+
+interface AffordabilityCalculatorProps {
+  onClose: () => void;
+}
+
+// Inputs are kept as strings so partially typed values (e.g., "4.") aren't reformatted while typing
+const getInitialValues = (): Record<string, string> => {
+  const profile = profileStorage.getProfile();
+  return {
+    targetMonthlyPayment: profile.targetMonthlyPayment ? profile.targetMonthlyPayment.toString() : '',
+    apr: ((profile.defaultApr || 0.045) * 100).toFixed(2),
+    termLength: (profile.defaultTermLength || 60).toString(),
+    downPayment: (profile.defaultDownPayment || 0).toString(),
+    taxRate: (profile.taxRate || 0).toString(),
+    flatTaxFee: (profile.flatTaxFee || 0).toString(),
+    dealerFees: (profile.typicalDealerFees || 0).toString(),
+    governmentFees: (profile.typicalGovernmentFees || 0).toString(),
+    otherFees: (profile.typicalOtherFees || 0).toString(),
+  };
+};
+
+const FIELDS: { key: string; label: string; step: string }[] = [
+  { key: 'targetMonthlyPayment', label: 'Target Monthly Payment ($)', step: '1' },
+  { key: 'apr', label: 'APR (%)', step: '0.01' },
+  { key: 'termLength', label: 'Term (months)', step: '1' },
+  { key: 'downPayment', label: 'Down Payment ($)', step: '100' },
+  { key: 'taxRate', label: 'Tax Rate (%)', step: '0.01' },
+  { key: 'flatTaxFee', label: 'Flat Tax Fee ($)', step: '1' },
+  { key: 'dealerFees', label: 'Dealer Fees ($)', step: '1' },
+  { key: 'governmentFees', label: 'Government Fees ($)', step: '1' },
+  { key: 'otherFees', label: 'Other Fees ($)', step: '1' },
+];
+
+export default function AffordabilityCalculator({ onClose }: AffordabilityCalculatorProps) {
+  const [values, setValues] = useState<Record<string, string>>(getInitialValues);
+  const [budgetSaved, setBudgetSaved] = useState(false);
+
+  const parse = (key: string) => parseFloat(values[key]) || 0;
+  const result = calculateMaxAffordablePrice({
+    targetMonthlyPayment: parse('targetMonthlyPayment'),
+    apr: parse('apr') / 100,
+    termLength: parse('termLength'),
+    downPayment: parse('downPayment'),
+    taxRate: parse('taxRate'),
+    flatTaxFee: parse('flatTaxFee'),
+    taxState: profileStorage.getProfile().state,
+    dealerFees: parse('dealerFees'),
+    governmentFees: parse('governmentFees'),
+    otherFees: parse('otherFees'),
+  });
+
+  const handleSaveBudget = async () => {
+    await profileStorage.saveProfile({ targetMonthlyPayment: parse('targetMonthlyPayment') });
+    setBudgetSaved(true);
+  };
+
+  const formatCurrency = (value: number) =>
+    `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">What Can I Afford?</h2>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+        >
+          Close
+        </button>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3 mb-4">
+        {FIELDS.map(({ key, label, step }) => (
+          <div key={key}>
+            <label className="block text-xs font-medium mb-1 text-gray-700 dark:text-gray-300">{label}</label>
+            <input
+              type="number"
+              step={step}
+              min="0"
+              value={values[key]}
+              onChange={(e) => {
+                setValues((prev) => ({ ...prev, [key]: e.target.value }));
+                setBudgetSaved(false);
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white text-sm"
+            />
+          </div>
+        ))}
+      </div>
+      {result.maxFinancedAmount > 0 ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 p-3 rounded-lg">
+            <div className="text-xs text-gray-600 dark:text-gray-400">Max Negotiated Price</div>
+            <div className="text-lg font-bold text-green-700 dark:text-green-400">{formatCurrency(result.maxNegotiatedPrice)}</div>
+          </div>
+          <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 p-3 rounded-lg">
+            <div className="text-xs text-gray-600 dark:text-gray-400">Out-the-Door Price</div>
+            <div className="text-lg font-bold text-blue-700 dark:text-blue-400">{formatCurrency(result.outTheDoorPrice)}</div>
+            <div className="text-[10px] text-gray-600 dark:text-gray-400">
+              incl. {formatCurrency(result.tax)} tax + {formatCurrency(result.totalFees)} fees
+            </div>
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-lg">
+            <div className="text-xs text-gray-600 dark:text-gray-400">Max Amount Financed</div>
+            <div className="text-lg font-bold text-gray-900 dark:text-white">{formatCurrency(result.maxFinancedAmount)}</div>
+          </div>
+          <div className="flex items-center">
+            <button
+              onClick={handleSaveBudget}
+              disabled={budgetSaved}
+              className="w-full px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 font-medium transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed text-sm"
+            >
+              {budgetSaved ? 'Saved as Budget' : 'Use as My Budget'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Enter a target monthly payment and term to see the max price.</p>
+      )}
+      {result.maxFinancedAmount > 0 && result.maxNegotiatedPrice === 0 && (
+        <p className="text-xs text-red-600 dark:text-red-400 mt-2">
+          Fees and tax alone (less the down payment) exceed what this payment can finance.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,18 @@
 'use client';
 
 import { Car } from '@/lib/types';
-import { calculateCarMetrics } from '@/lib/carCalculations';
+import { calculateCarMetrics, calculateTaxableAmount, calculateTco, calculateValueProjection, calculateNegativeEquity, calculateCashVsFinance, calculateAddOnImpacts, isIncentiveTaxable, PAYMENT_PACKING_THRESHOLD, SENSITIVITY_TERMS } from '@/lib/carCalculations';
+import profileStorage from '@/lib/profileStorage';
+import depreciationStorage from '@/lib/depreciationStorage';
+import DownPaymentOptimizer from './DownPaymentOptimizer';
+import SensitivityGrid from './SensitivityGrid';
+import { getTaxRule, applyTaxRate, describeTaxableAmount } from '@/lib/taxRules';
 import {
   LineChart,
   Line,
+  ReferenceLine,
+  BarChart,
+  Bar,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -60,10 +68,58 @@ export default function CarChart({
   const hasOverrides = downPaymentOverride !== undefined || aprOverride !== undefined || termOverride !== undefined;
 
   const metrics = calculateCarMetrics(carWithOverride);
+  const isCash = carWithOverride.dealType === 'cash';
+  const profile = profileStorage.getProfile();
+  const taxableAmount = calculateTaxableAmount(carWithOverride);
+  const taxRule = getTaxRule(carWithOverride.taxState);
+  const depreciationCurve = depreciationStorage.getCurve(carWithOverride.make, carWithOverride.model);
+  const tco = calculateTco(carWithOverride, profile.tcoDefaults, depreciationCurve);
+  // Cash deals have no loan term, so project value over the ownership period instead
+  const valueProjection = calculateValueProjection(
+    carWithOverride,
+    depreciationCurve,
+    tco.inputs.annualMiles,
+    isCash ? tco.inputs.ownershipYears * 12 : carWithOverride.termLength
+  );
+  const valueAtTermEnd = valueProjection[valueProjection.length - 1];
+  // Leases typically include GAP coverage, so the upside-down analysis only applies to loans
+  // (a GAP add-on's price stands in when no separate GAP quote was entered)
+  const gapAddOn = (carWithOverride.addOns || []).find((addOn) => addOn.type === 'gap' && addOn.price > 0);
+  const negativeEquity = metrics.lease || isCash
+    ? null
+    : calculateNegativeEquity(valueProjection, carWithOverride.gapPrice || gapAddOn?.price);
+  const addOnImpacts = calculateAddOnImpacts(carWithOverride);
+  // Cash deals are weighed against financing at their APR/term (or the profile defaults if none was entered)
+  const cashVsFinance = metrics.lease
+    ? null
+    : calculateCashVsFinance(
+        carWithOverride,
+        (profile.expectedInvestmentReturn ?? 5) / 100,
+        {
+          apr: isCash && !carWithOverride.apr ? profile.defaultApr || 0.045 : carWithOverride.apr,
+          termLength: isCash && !carWithOverride.termLength ? profile.defaultTermLength || 60 : carWithOverride.termLength,
+        }
+      );
+  const tcoComponents = [
+    { key: 'depreciation', label: 'Depreciation', color: '#ef4444' },
+    { key: 'financing', label: 'Interest', color: '#f59e0b' },
+    { key: 'taxesAndFees', label: 'Taxes & Fees', color: '#eab308' },
+    { key: 'leasePayments', label: 'Lease Payments', color: '#8b5cf6' },
+    { key: 'insurance', label: 'Insurance', color: '#3b82f6' },
+    { key: 'fuel', label: tco.inputs.fuelType === 'electric' ? 'Charging' : 'Fuel', color: '#10b981' },
+    { key: 'maintenance', label: 'Maintenance', color: '#14b8a6' },
+    { key: 'repairs', label: 'Repairs', color: '#f97316' },
+    { key: 'registration', label: 'Registration', color: '#6b7280' },
+  ] as const;
+  const activeTcoComponents = tcoComponents.filter(({ key }) => tco[key] > 0);
   
-  // Calculate start date (first day of next month)
+  // Calculate start date (month of the first payment due date, or first day of next month)
   const today = new Date();
-  const firstDayNextMonth = new Date(today.getFullYear(), today.getMonth() + 1, 1);
+  const firstDueDate = metrics.paymentSchedule[0]?.dueDate;
+  const firstPaymentMonth = firstDueDate
+    ? new Date(firstDueDate.getFullYear(), firstDueDate.getMonth(), 1)
+    : new Date(today.getFullYear(), today.getMonth() + 1, 1);
+  const isDailySimpleInterest = !metrics.lease && carWithOverride.interestMethod === 'dailySimple';
   
   // Generate comparison terms (e.g., if selected is 48, show 36, 48, 60, 66, 72)
   const selectedTerm = carWithOverride.termLength;
@@ -88,7 +144,7 @@ export default function CarChart({
   
   // Create data points for each month up to max term
   for (let month = 1; month <= maxTerm; month++) {
-    const paymentDate = new Date(firstDayNextMonth);
+    const paymentDate = new Date(firstPaymentMonth);
     paymentDate.setMonth(paymentDate.getMonth() + month - 1);
     const dateLabel = `${paymentDate.getFullYear().toString().slice(-2)}/${String(paymentDate.getMonth() + 1).padStart(2, '0')}`;
     
@@ -107,10 +163,41 @@ export default function CarChart({
         }
       }
     });
+
+    // Selected term with extra payments applied (stops at early payoff)
+    const prepaymentEntry = metrics.prepayment?.paymentSchedule[month - 1];
+    if (prepaymentEntry) {
+      dataPoint['Interest (extra payments)'] = prepaymentEntry.cumulativeInterest;
+      dataPoint['Principal (extra payments)'] = prepaymentEntry.cumulativePrincipal;
+    }
     
     chartData.push(dataPoint);
   }
 
+  const valueMonthLabel = (month: number) => {
+    const valueDate = new Date(firstPaymentMonth);
+    valueDate.setMonth(valueDate.getMonth() + month - 1);
+    return `${valueDate.getFullYear().toString().slice(-2)}/${String(valueDate.getMonth() + 1).padStart(2, '0')}`;
+  };
+  const valueChartData = valueProjection.map((entry) => ({
+    dateLabel: valueMonthLabel(entry.month),
+    'Projected Value': entry.projectedValue,
+    [metrics.lease ? 'Lease Balance' : 'Loan Balance']: entry.remainingBalance,
+    Equity: entry.equity,
+  }));
+  const upfrontLabels = (
+    [
+      ['tax', 'tax'],
+      ['dealerFees', 'dealer fees'],
+      ['governmentFees', 'government fees'],
+      ['otherFees', 'other fees'],
+    ] as const
+  )
+    .filter(([component]) => carWithOverride.paidUpfront?.[component])
+    .map(([, label]) => label);
+  const formatGapAmount = (amount: number) =>
+    `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
   const totalCost = metrics.totalCost;
   const payoffTime = carWithOverride.termLength;
   const payoffTimeYears = (payoffTime / 12).toFixed(1);
@@ -118,26 +205,26 @@ export default function CarChart({
 
   // Check for fees outside Florida expected ranges
   const feeWarnings: Array<{ name: string; value: number; range: string; typical: number }> = [];
-  if (car.dealerFees > FLORIDA_FEE_RANGES.dealerFees.max) {
+  if (metrics.totalDealerFees > FLORIDA_FEE_RANGES.dealerFees.max) {
     feeWarnings.push({
       name: 'Dealer Fees',
-      value: car.dealerFees,
+      value: metrics.totalDealerFees,
       range: `$${FLORIDA_FEE_RANGES.dealerFees.min}-${FLORIDA_FEE_RANGES.dealerFees.max}`,
       typical: FLORIDA_FEE_RANGES.dealerFees.typical,
     });
   }
-  if (car.governmentFees > FLORIDA_FEE_RANGES.governmentFees.recommendedMax) {
+  if (metrics.totalGovernmentFees > FLORIDA_FEE_RANGES.governmentFees.recommendedMax) {
     feeWarnings.push({
       name: 'Government Fees',
-      value: car.governmentFees,
+      value: metrics.totalGovernmentFees,
       range: `$${FLORIDA_FEE_RANGES.governmentFees.min}-${FLORIDA_FEE_RANGES.governmentFees.recommendedMax}`,
       typical: FLORIDA_FEE_RANGES.governmentFees.typical,
     });
   }
-  if (car.otherFees > FLORIDA_FEE_RANGES.otherFees.recommendedMax) {
+  if (metrics.totalOtherFees > FLORIDA_FEE_RANGES.otherFees.recommendedMax) {
     feeWarnings.push({
       name: 'Other Fees',
-      value: car.otherFees,
+      value: metrics.totalOtherFees,
       range: `$${FLORIDA_FEE_RANGES.otherFees.min}-${FLORIDA_FEE_RANGES.otherFees.max}`,
       typical: FLORIDA_FEE_RANGES.otherFees.typical,
     });
@@ -216,18 +303,61 @@ export default function CarChart({
       )}
       <div className="mb-4 space-y-2">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-          <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 p-2 rounded-lg">
-            <div className="text-[10px] text-gray-600 dark:text-gray-400 mb-0.5">Payoff Time</div>
-            <div className="text-xs font-bold text-blue-700 dark:text-blue-400">
-              {payoffTime} months
+          {isCash ? (
+            <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 p-2 rounded-lg">
+              <div className="text-[10px] text-gray-600 dark:text-gray-400 mb-0.5">Cash Purchase</div>
+              <div className="text-xs font-bold text-blue-700 dark:text-blue-400">
+                Paid in full at signing
+              </div>
+              <div className="text-[9px] text-gray-600 dark:text-gray-400 mt-0.5">
+                Cash due: <span className="font-semibold">${metrics.cashDueAtSigning.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+              </div>
             </div>
-            <div className="text-[9px] text-gray-600 dark:text-gray-400 mt-0.5">
-              ({payoffTimeYears} years)
+          ) : (
+            <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 p-2 rounded-lg">
+              <div className="text-[10px] text-gray-600 dark:text-gray-400 mb-0.5">Payoff Time</div>
+              <div className="text-xs font-bold text-blue-700 dark:text-blue-400">
+                {payoffTime} months
+              </div>
+              <div className="text-[9px] text-gray-600 dark:text-gray-400 mt-0.5">
+                ({payoffTimeYears} years)
+              </div>
+              <div className="text-[9px] text-gray-600 dark:text-gray-400 mt-1 pt-1 border-t border-blue-200 dark:border-blue-700">
+                Paid off by: <span className="font-semibold">{payoffDateStr}</span>
+              </div>
+              <div className="text-[9px] text-gray-600 dark:text-gray-400 mt-0.5">
+                Due at signing: <span className="font-semibold">${metrics.cashDueAtSigning.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+              </div>
+              {metrics.balloonPayment > 0 && (
+                <div className="text-[9px] text-orange-600 dark:text-orange-400 mt-0.5">
+                  Balloon due with the final payment: <span className="font-semibold">${metrics.balloonPayment.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+              )}
+              {(carWithOverride.firstPaymentDeferralDays || 0) > 0 && (
+                <div className="text-[9px] text-gray-600 dark:text-gray-400 mt-0.5">
+                  First payment deferred {carWithOverride.firstPaymentDeferralDays} days
+                  {metrics.deferralInterest > 0 && (
+                    <> (+<span className="font-semibold">${metrics.deferralInterest.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span> interest accrued)</>
+                  )}
+                </div>
+              )}
             </div>
-            <div className="text-[9px] text-gray-600 dark:text-gray-400 mt-1 pt-1 border-t border-blue-200 dark:border-blue-700">
-              Paid off by: <span className="font-semibold">{payoffDateStr}</span>
+          )}
+          {metrics.prepayment && (
+            <div className="bg-teal-50 dark:bg-teal-900/20 border border-teal-200 dark:border-teal-800 p-2 rounded-lg">
+              <div className="text-[10px] text-gray-600 dark:text-gray-400 mb-0.5">With Extra Payments</div>
+              <div className="text-xs font-bold text-teal-700 dark:text-teal-400">
+                {metrics.prepayment.payoffMonth} months ({metrics.prepayment.monthsSaved} fewer)
+              </div>
+              <div className="text-[9px] text-gray-600 dark:text-gray-400 mt-0.5">
+                Interest saved: <span className="font-semibold text-green-600 dark:text-green-400">${metrics.prepayment.interestSaved.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                {' '}• Paying ${metrics.prepayment.monthlyPayment.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}/mo
+              </div>
+              <div className="text-[9px] text-gray-600 dark:text-gray-400 mt-1 pt-1 border-t border-teal-200 dark:border-teal-700">
+                Paid off by: <span className="font-semibold">{metrics.prepayment.payoffDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}</span>
+              </div>
             </div>
-          </div>
+          )}
           {metrics.discount !== 0 && (
             <div className={`p-2 rounded-lg border ${
               metrics.discount >= 0
@@ -259,6 +389,19 @@ export default function CarChart({
               )}
             </div>
           )}
+          {metrics.totalIncentives > 0 && (
+            <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 p-2 rounded-lg">
+              <div className="text-[10px] text-gray-600 dark:text-gray-400 mb-0.5">
+                Rebates & Incentives
+              </div>
+              <div className="text-xs font-bold text-green-700 dark:text-green-400">
+                ${metrics.totalIncentives.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              </div>
+              <div className="text-[9px] text-gray-600 dark:text-gray-400 mt-0.5">
+                Separate from the dealer discount
+              </div>
+            </div>
+          )}
         </div>
         <div className="bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-700 p-4 rounded-lg">
           {/* Override Controls - positioned right above cost breakdown */}
@@ -335,10 +478,9 @@ export default function CarChart({
                     className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
                   >
                     <option value="">{car.termLength}m</option>
-                    <option value="36">36m</option>
-                    <option value="48">48m</option>
-                    <option value="60">60m</option>
-                    <option value="72">72m</option>
+                    {SENSITIVITY_TERMS.map((term) => (
+                      <option key={term} value={term.toString()}>{term}m</option>
+                    ))}
                   </select>
                   {termOverride !== undefined && (
                     <button
@@ -351,123 +493,474 @@ export default function CarChart({
                 </div>
               </div>
             </div>
+            {!metrics.lease && !isCash && (
+              <DownPaymentOptimizer car={carWithOverride} onApplyDownPayment={onDownPaymentOverrideChange} />
+            )}
           </div>
-          <div className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">Cost Breakdown</div>
-          <div className="space-y-1 text-xs">
-            {car.listedPrice > 0 && (
-              <>
+          {metrics.lease ? (
+            <>
+              <div className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">Lease Breakdown</div>
+              <div className="space-y-1 text-xs">
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Negotiated Price (Cap Cost):</span>
+                  <span className="font-semibold text-gray-900 dark:text-white">${car.negotiatedPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                {(car.acquisitionFee || 0) > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">+ Acquisition Fee:</span>
+                    <span className="font-semibold text-gray-900 dark:text-white">${(car.acquisitionFee || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  </div>
+                )}
+                {metrics.totalAllFees > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">+ Fees:</span>
+                    <span className="font-semibold text-gray-900 dark:text-white">${metrics.totalAllFees.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  </div>
+                )}
+                <div className="flex justify-between border-t border-gray-300 dark:border-gray-600 pt-1 font-semibold">
+                  <span className="text-gray-700 dark:text-gray-300">Gross Cap Cost:</span>
+                  <span className="text-blue-600 dark:text-blue-400">${metrics.lease.grossCapCost.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                {metrics.lease.capCostReduction > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">- Cap Cost Reduction:</span>
+                    <span className="font-semibold text-gray-900 dark:text-white">${metrics.lease.capCostReduction.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  </div>
+                )}
+                {metrics.negativeEquity > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-red-600 dark:text-red-400">+ Negative Equity (rolled in):</span>
+                    <span className="font-semibold text-red-600 dark:text-red-400">${metrics.negativeEquity.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  </div>
+                )}
+                <div className="flex justify-between border-t border-gray-300 dark:border-gray-600 pt-1 font-semibold">
+                  <span className="text-gray-700 dark:text-gray-300">Adjusted Cap Cost:</span>
+                  <span className="text-blue-600 dark:text-blue-400">${metrics.lease.adjustedCapCost.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Residual Value ({metrics.lease.residualPercent.toFixed(1)}%):</span>
+                  <span className="font-semibold text-gray-900 dark:text-white">${metrics.lease.residualValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
                 <div className="flex justify-between">
-                  <span className="text-gray-600 dark:text-gray-400">Listed Price:</span>
-                  <span className="font-semibold text-gray-900 dark:text-white line-through">${car.listedPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  <span className="text-gray-600 dark:text-gray-400">Money Factor:</span>
+                  <span className="font-semibold text-gray-900 dark:text-white">
+                    {(car.moneyFactor || 0).toFixed(5)} ({(metrics.lease.equivalentApr * 100).toFixed(2)}% APR)
+                  </span>
+                </div>
+                <div className="flex justify-between border-t border-gray-300 dark:border-gray-600 pt-1">
+                  <span className="text-gray-600 dark:text-gray-400">Depreciation Charge / mo:</span>
+                  <span className="font-semibold text-gray-900 dark:text-white">${metrics.lease.depreciationCharge.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">+ Rent Charge / mo:</span>
+                  <span className="font-semibold text-gray-900 dark:text-white">${metrics.lease.rentCharge.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">+ Tax / mo:</span>
+                  <span className="font-semibold text-gray-900 dark:text-white">${metrics.lease.monthlyTax.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                <div className="flex justify-between border-t border-gray-300 dark:border-gray-600 pt-1 font-semibold">
+                  <span className="text-gray-700 dark:text-gray-300">Monthly Payment:</span>
+                  <span className="text-blue-600 dark:text-blue-400">${metrics.lease.monthlyPaymentWithTax.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Due at Signing:</span>
+                  <span className="font-semibold text-gray-900 dark:text-white">${metrics.lease.dueAtSigning.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Total Rent Charge:</span>
+                  <span className="font-semibold text-gray-900 dark:text-white">${metrics.lease.totalRentCharge.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                {(car.dispositionFee || 0) > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">+ Disposition Fee:</span>
+                    <span className="font-semibold text-gray-900 dark:text-white">${(car.dispositionFee || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  </div>
+                )}
+                {metrics.lease.totalMileageAllowance > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">Mileage Allowance:</span>
+                    <span className="font-semibold text-gray-900 dark:text-white">
+                      {metrics.lease.totalMileageAllowance.toLocaleString()} miles
+                      {(car.excessMileageCharge || 0) > 0 && ` (then $${(car.excessMileageCharge || 0).toFixed(2)}/mile)`}
+                    </span>
+                  </div>
+                )}
+                <div className="flex justify-between border-t-2 border-gray-400 dark:border-gray-500 pt-2 font-bold">
+                  <span className="text-gray-900 dark:text-white">Total Lease Cost:</span>
+                  <span className="text-gray-900 dark:text-white">${totalCost.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
                 </div>
-                {metrics.discount !== 0 && (
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">Cost Breakdown</div>
+              <div className="space-y-1 text-xs">
+                {car.listedPrice > 0 && (
                   <>
                     <div className="flex justify-between">
-                      <span className={`${metrics.discount >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                        {metrics.discount >= 0 ? 'Discount:' : 'Markup:'}
-                      </span>
-                      <span className={`font-semibold ${metrics.discount >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                        {metrics.discount >= 0 ? '-' : '+'}${Math.abs(metrics.discount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                      </span>
+                      <span className="text-gray-600 dark:text-gray-400">Listed Price:</span>
+                      <span className="font-semibold text-gray-900 dark:text-white line-through">${car.listedPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
                     </div>
-                    <div className="flex justify-between mb-1">
-                      <span className={`text-xs ${metrics.discount >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                        Discount %:
-                      </span>
-                      <span className={`text-xs font-semibold ${metrics.discount >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                        {metrics.discountPercent >= 0 ? '-' : '+'}{Math.abs(metrics.discountPercent).toFixed(2)}%
-                      </span>
-                    </div>
-                    <div className="border-t border-gray-300 dark:border-gray-600 pt-1 mb-1"></div>
+                    {metrics.discount !== 0 && (
+                      <>
+                        <div className="flex justify-between">
+                          <span className={`${metrics.discount >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                            {metrics.discount >= 0 ? 'Discount:' : 'Markup:'}
+                          </span>
+                          <span className={`font-semibold ${metrics.discount >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                            {metrics.discount >= 0 ? '-' : '+'}${Math.abs(metrics.discount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                          </span>
+                        </div>
+                        <div className="flex justify-between mb-1">
+                          <span className={`text-xs ${metrics.discount >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                            Discount %:
+                          </span>
+                          <span className={`text-xs font-semibold ${metrics.discount >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                            {metrics.discountPercent >= 0 ? '-' : '+'}{Math.abs(metrics.discountPercent).toFixed(2)}%
+                          </span>
+                        </div>
+                        <div className="border-t border-gray-300 dark:border-gray-600 pt-1 mb-1"></div>
+                      </>
+                    )}
                   </>
                 )}
-              </>
-            )}
-            <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">Negotiated Price:</span>
-              <span className="font-semibold text-gray-900 dark:text-white">${car.negotiatedPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Negotiated Price:</span>
+                  <span className="font-semibold text-gray-900 dark:text-white">${car.negotiatedPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                {metrics.totalDealerFees > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">+ Dealer Fees:</span>
+                    <span className="font-semibold text-gray-900 dark:text-white">${metrics.totalDealerFees.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  </div>
+                )}
+                {metrics.totalGovernmentFees > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">+ Government Fees <span className="text-[9px] text-gray-500 dark:text-gray-400">(not taxable)</span>:</span>
+                    <span className="font-semibold text-gray-900 dark:text-white">${metrics.totalGovernmentFees.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  </div>
+                )}
+                {metrics.totalOtherFees > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">+ Other Fees:</span>
+                    <span className="font-semibold text-gray-900 dark:text-white">${metrics.totalOtherFees.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  </div>
+                )}
+                {metrics.totalTax > 0 && (
+                  <>
+                    {car.taxRate > 0 && taxableAmount > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600 dark:text-gray-400">+ Tax ({car.taxRate.toFixed(2)}%):</span>
+                        <div className="text-right">
+                          <span className="font-semibold text-gray-900 dark:text-white">${applyTaxRate(taxableAmount, car.taxRate, taxRule).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                          <div className="text-[9px] text-gray-500 dark:text-gray-400">
+                            (on {describeTaxableAmount(taxRule, [
+                              ...(metrics.tradeInTaxSavings > 0 ? ['Trade-In Value'] : []),
+                              ...(metrics.incentiveTaxSavings > 0 ? ['Non-Taxable Incentives'] : []),
+                            ])})
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                    {car.flatTaxFee > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600 dark:text-gray-400">+ Flat Tax Fee:</span>
+                        <span className="font-semibold text-gray-900 dark:text-white">${car.flatTaxFee.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                      </div>
+                    )}
+                  </>
+                )}
+                {metrics.totalAddOns > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">+ Add-On Products:</span>
+                    <span className="font-semibold text-gray-900 dark:text-white">${metrics.totalAddOns.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  </div>
+                )}
+                <div className="flex justify-between border-t border-gray-300 dark:border-gray-600 pt-1 font-semibold">
+                  <span className="text-gray-700 dark:text-gray-300">Total Invoice Amount:</span>
+                  <span className="text-blue-600 dark:text-blue-400">${(car.negotiatedPrice + metrics.totalAllFees + metrics.totalAddOns + metrics.totalTax).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                {carWithOverride.downPayment > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">- Down Payment:</span>
+                    <span className="font-semibold text-gray-900 dark:text-white">${carWithOverride.downPayment.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  </div>
+                )}
+                {!isCash && metrics.upfrontCosts > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">- Tax &amp; Fees Paid at Signing:</span>
+                    <div className="text-right">
+                      <span className="font-semibold text-gray-900 dark:text-white">${metrics.upfrontCosts.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                      <div className="text-[9px] text-gray-500 dark:text-gray-400">
+                        ({upfrontLabels.join(', ')})
+                      </div>
+                    </div>
+                  </div>
+                )}
+                {!isCash && metrics.totalAddOns > metrics.financedAddOns && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">- Add-Ons Paid at Signing:</span>
+                    <span className="font-semibold text-gray-900 dark:text-white">${(metrics.totalAddOns - metrics.financedAddOns).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  </div>
+                )}
+                {metrics.tradeInEquity > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">- Trade-In Equity:</span>
+                    <div className="text-right">
+                      <span className="font-semibold text-gray-900 dark:text-white">${metrics.tradeInEquity.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                      <div className="text-[9px] text-gray-500 dark:text-gray-400">
+                        (${metrics.tradeInValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} value - ${metrics.tradeInPayoff.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} payoff)
+                      </div>
+                    </div>
+                  </div>
+                )}
+                {metrics.negativeEquity > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-red-600 dark:text-red-400">+ Negative Equity (rolled in):</span>
+                    <div className="text-right">
+                      <span className="font-semibold text-red-600 dark:text-red-400">${metrics.negativeEquity.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                      <div className="text-[9px] text-gray-500 dark:text-gray-400">
+                        (${metrics.tradeInPayoff.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} payoff - ${metrics.tradeInValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} value)
+                      </div>
+                    </div>
+                  </div>
+                )}
+                {(car.incentives || []).filter((incentive) => incentive.amount > 0).map((incentive, index) => (
+                  <div key={index} className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">- {incentive.name || 'Incentive'}:</span>
+                    <div className="text-right">
+                      <span className="font-semibold text-green-600 dark:text-green-400">${incentive.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                      <div className="text-[9px] text-gray-500 dark:text-gray-400">
+                        ({isIncentiveTaxable(incentive, taxRule) ? 'taxable' : 'non-taxable'}, {incentive.appliedBeforeTax ? 'before tax' : 'after tax'})
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                {metrics.incentiveTaxSavings > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-green-600 dark:text-green-400">Non-Taxable Incentive Savings:</span>
+                    <span className="font-semibold text-green-600 dark:text-green-400">${metrics.incentiveTaxSavings.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  </div>
+                )}
+                {metrics.tradeInTaxSavings > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-green-600 dark:text-green-400">Trade-In Tax Credit Savings:</span>
+                    <span className="font-semibold text-green-600 dark:text-green-400">${metrics.tradeInTaxSavings.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  </div>
+                )}
+                <div className="flex justify-between border-t border-gray-300 dark:border-gray-600 pt-1 font-semibold">
+                  <span className="text-gray-700 dark:text-gray-300">Financed Amount:</span>
+                  <span className="text-blue-600 dark:text-blue-400">${metrics.financedAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                <div className="flex justify-between font-semibold">
+                  <span className="text-gray-700 dark:text-gray-300">Cash Due at Signing:</span>
+                  <span className="text-blue-600 dark:text-blue-400">${metrics.cashDueAtSigning.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">+ Total Interest ({carWithOverride.apr > 0 ? (carWithOverride.apr * 100).toFixed(2) : '0.00'}% APR):</span>
+                  <span className="font-semibold text-gray-900 dark:text-white">${metrics.totalInterest.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                <div className="flex justify-between border-t-2 border-gray-400 dark:border-gray-500 pt-2 font-bold">
+                  <span className="text-gray-900 dark:text-white">Total Cost:</span>
+                  <span className="text-gray-900 dark:text-white">${totalCost.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+        {metrics.leaseBuyout && (
+          <div className="bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 p-2 rounded-lg">
+            <div className="text-xs font-semibold text-purple-700 dark:text-purple-300 mb-2">
+              Lease Buyout Decision
             </div>
-            {car.dealerFees > 0 && (
+            <div className="space-y-1 text-xs">
               <div className="flex justify-between">
-                <span className="text-gray-600 dark:text-gray-400">+ Dealer Fees:</span>
-                <span className="font-semibold text-gray-900 dark:text-white">${car.dealerFees.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                <span className="text-gray-600 dark:text-gray-400">Residual Value:</span>
+                <span className="font-semibold text-gray-900 dark:text-white">${metrics.leaseBuyout.residualValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
               </div>
-            )}
-            {car.governmentFees > 0 && (
               <div className="flex justify-between">
-                <span className="text-gray-600 dark:text-gray-400">+ Government Fees <span className="text-[9px] text-gray-500 dark:text-gray-400">(not taxable)</span>:</span>
-                <span className="font-semibold text-gray-900 dark:text-white">${car.governmentFees.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                <span className="text-gray-600 dark:text-gray-400">+ Remaining Payments:</span>
+                <span className="font-semibold text-gray-900 dark:text-white">${metrics.leaseBuyout.remainingPaymentsTotal.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+              </div>
+              {metrics.leaseBuyout.purchaseOptionFee > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">+ Purchase Option Fee:</span>
+                  <span className="font-semibold text-gray-900 dark:text-white">${metrics.leaseBuyout.purchaseOptionFee.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+              )}
+              <div className="flex justify-between border-t border-purple-300 dark:border-purple-700 pt-1 font-semibold">
+                <span className="text-gray-700 dark:text-gray-300">Buyout Price:</span>
+                <span className="text-purple-700 dark:text-purple-300">${metrics.leaseBuyout.buyoutPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
               </div>
-            )}
-            {car.otherFees > 0 && (
               <div className="flex justify-between">
-                <span className="text-gray-600 dark:text-gray-400">+ Other Fees:</span>
-                <span className="font-semibold text-gray-900 dark:text-white">${car.otherFees.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                <span className="text-gray-600 dark:text-gray-400">+ Buyout Tax:</span>
+                <span className="font-semibold text-gray-900 dark:text-white">${metrics.leaseBuyout.buyoutTax.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
               </div>
-            )}
-            {metrics.totalTax > 0 && (
-              <>
-                {car.taxRate > 0 && (car.negotiatedPrice + (car.dealerFees || 0) + (car.otherFees || 0)) > 0 && (
-                  <div className="flex justify-between">
-                    <span className="text-gray-600 dark:text-gray-400">+ Tax ({car.taxRate.toFixed(2)}%):</span>
-                    <div className="text-right">
-                      <span className="font-semibold text-gray-900 dark:text-white">${((car.negotiatedPrice + (car.dealerFees || 0) + (car.otherFees || 0)) * car.taxRate / 100).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
-                      <div className="text-[9px] text-gray-500 dark:text-gray-400">(on price + dealer + other fees)</div>
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Total Buyout Cost (with tax & fees):</span>
+                <span className="font-semibold text-gray-900 dark:text-white">${metrics.leaseBuyout.totalBuyoutCost.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Market Value:</span>
+                <span className="font-semibold text-gray-900 dark:text-white">${metrics.leaseBuyout.marketValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+              </div>
+              <div className="flex justify-between border-t border-purple-300 dark:border-purple-700 pt-1 font-semibold">
+                <span className="text-gray-700 dark:text-gray-300">
+                  {metrics.leaseBuyout.equity >= 0 ? 'Lease Equity:' : 'Underwater By:'}
+                </span>
+                <span className={metrics.leaseBuyout.equity >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                  ${Math.abs(metrics.leaseBuyout.equity).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                </span>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mt-3">
+              {([
+                { option: 'buyOut', label: 'Buy Out', net: metrics.leaseBuyout.buyOutNet, detail: 'Keep a car worth market value' },
+                { option: 'turnIn', label: 'Turn In', net: metrics.leaseBuyout.turnInNet, detail: 'Remaining payments + disposition + charges' },
+                { option: 'sellToDealer', label: 'Sell to Third-Party Dealer', net: metrics.leaseBuyout.sellToDealerNet, detail: 'Dealer pays off the lease' },
+              ] as const).map(({ option, label, net, detail }) => {
+                const isRecommended = metrics.leaseBuyout?.recommendation === option;
+                return (
+                  <div
+                    key={option}
+                    className={`p-2 rounded-lg border ${
+                      isRecommended
+                        ? 'bg-green-50 dark:bg-green-900/20 border-green-400 dark:border-green-600 ring-2 ring-green-300 dark:ring-green-700'
+                        : 'bg-white dark:bg-gray-700 border-purple-200 dark:border-purple-700'
+                    }`}
+                  >
+                    <div className="text-[10px] text-gray-600 dark:text-gray-400 mb-0.5">
+                      {label} {isRecommended && <span className="font-semibold text-green-600 dark:text-green-400">(Best)</span>}
                     </div>
+                    <div className={`text-sm font-bold ${net >= 0 ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}`}>
+                      {net >= 0 ? '+' : '-'}${Math.abs(net).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    </div>
+                    <div className="text-[9px] text-gray-500 dark:text-gray-400 mt-0.5">{detail}</div>
                   </div>
-                )}
-                {car.flatTaxFee > 0 && (
-                  <div className="flex justify-between">
-                    <span className="text-gray-600 dark:text-gray-400">+ Flat Tax Fee:</span>
-                    <span className="font-semibold text-gray-900 dark:text-white">${car.flatTaxFee.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
-                  </div>
-                )}
-              </>
-            )}
-            <div className="flex justify-between border-t border-gray-300 dark:border-gray-600 pt-1 font-semibold">
-              <span className="text-gray-700 dark:text-gray-300">Total Invoice Amount:</span>
-              <span className="text-blue-600 dark:text-blue-400">${(car.negotiatedPrice + metrics.totalAllFees + metrics.totalTax).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                );
+              })}
             </div>
-            {carWithOverride.downPayment > 0 && (
+          </div>
+        )}
+        {metrics.refinance && (
+          <div className="bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800 p-2 rounded-lg">
+            <div className="text-xs font-semibold text-indigo-700 dark:text-indigo-300 mb-2">
+              Refinance Scenario (after payment #{metrics.refinance.refinanceMonth})
+            </div>
+            <div className="space-y-1 text-xs">
               <div className="flex justify-between">
-                <span className="text-gray-600 dark:text-gray-400">- Down Payment:</span>
-                <span className="font-semibold text-gray-900 dark:text-white">${carWithOverride.downPayment.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                <span className="text-gray-600 dark:text-gray-400">Remaining Balance:</span>
+                <span className="font-semibold text-gray-900 dark:text-white">${metrics.refinance.remainingBalance.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+              </div>
+              {metrics.refinance.fees > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">
+                    Refinance Fees ({metrics.refinance.feesFinanced ? 'rolled into loan' : 'paid in cash'}):
+                  </span>
+                  <span className="font-semibold text-gray-900 dark:text-white">${metrics.refinance.fees.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">New Loan:</span>
+                <span className="font-semibold text-gray-900 dark:text-white">
+                  ${metrics.refinance.newPrincipal.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} @ {(metrics.refinance.newApr * 100).toFixed(2)}% for {metrics.refinance.newTerm} months
+                </span>
+              </div>
+              <div className="flex justify-between border-t border-indigo-300 dark:border-indigo-700 pt-1 font-semibold">
+                <span className="text-gray-700 dark:text-gray-300">New Monthly Payment:</span>
+                <span className="text-indigo-700 dark:text-indigo-300">
+                  ${metrics.refinance.newMonthlyPayment.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  <span className={`ml-1 ${metrics.refinance.monthlySavings >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                    ({metrics.refinance.monthlySavings >= 0 ? '-' : '+'}${Math.abs(metrics.refinance.monthlySavings).toFixed(2)}/mo)
+                  </span>
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Remaining Interest (current loan):</span>
+                <span className="font-semibold text-gray-900 dark:text-white">${metrics.refinance.remainingInterestBefore.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Total Interest (new loan):</span>
+                <span className="font-semibold text-gray-900 dark:text-white">${metrics.refinance.newTotalInterest.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+              </div>
+              <div className="flex justify-between border-t border-indigo-300 dark:border-indigo-700 pt-1 font-semibold">
+                <span className="text-gray-700 dark:text-gray-300">Lifetime Interest + Fees:</span>
+                <span className={metrics.refinance.interestDelta <= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                  {metrics.refinance.interestDelta <= 0 ? 'Saves' : 'Costs'} ${Math.abs(metrics.refinance.interestDelta).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Break-Even:</span>
+                <span className="font-semibold text-gray-900 dark:text-white">
+                  {metrics.refinance.breakEvenMonth !== null
+                    ? `Month ${metrics.refinance.breakEvenMonth} (${metrics.refinance.breakEvenMonth - metrics.refinance.refinanceMonth} months after refinancing)`
+                    : 'Never'}
+                </span>
               </div>
-            )}
-            <div className="flex justify-between border-t border-gray-300 dark:border-gray-600 pt-1 font-semibold">
-              <span className="text-gray-700 dark:text-gray-300">Financed Amount:</span>
-              <span className="text-blue-600 dark:text-blue-400">${metrics.financedAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
             </div>
-            <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">+ Total Interest ({carWithOverride.apr > 0 ? (carWithOverride.apr * 100).toFixed(2) : '0.00'}% APR):</span>
-              <span className="font-semibold text-gray-900 dark:text-white">${metrics.totalInterest.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+          </div>
+        )}
+        {cashVsFinance && cashVsFinance.termLength > 0 && (
+          <div className="bg-cyan-50 dark:bg-cyan-900/20 border border-cyan-200 dark:border-cyan-800 p-2 rounded-lg">
+            <div className="text-xs font-semibold text-cyan-700 dark:text-cyan-300 mb-2">
+              Cash vs Finance ({(cashVsFinance.apr * 100).toFixed(2)}% for {cashVsFinance.termLength} months, cash invested at {(cashVsFinance.investmentReturn * 100).toFixed(2)}%)
             </div>
-            <div className="flex justify-between border-t-2 border-gray-400 dark:border-gray-500 pt-2 font-bold">
-              <span className="text-gray-900 dark:text-white">Total Cost:</span>
-              <span className="text-gray-900 dark:text-white">${totalCost.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+            <div className="space-y-1 text-xs">
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Pay Cash:</span>
+                <span className="font-semibold text-gray-900 dark:text-white">${cashVsFinance.cashPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">
+                  Finance (${cashVsFinance.downPayment.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} down + ${cashVsFinance.monthlyPayment.toFixed(2)}/mo):
+                </span>
+                <span className="font-semibold text-gray-900 dark:text-white">${cashVsFinance.totalFinancePayments.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Finance, Present Value:</span>
+                <span className="font-semibold text-gray-900 dark:text-white">${cashVsFinance.financePresentValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+              </div>
+              <div className="flex justify-between font-bold border-t border-cyan-200 dark:border-cyan-700 pt-1">
+                <span className="text-gray-700 dark:text-gray-300">Cheaper Option:</span>
+                <span className="text-green-600 dark:text-green-400">
+                  {cashVsFinance.cheaperOption === 'cash' ? 'Pay Cash' : 'Finance'} (saves ${Math.abs(cashVsFinance.presentValueSavings).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} in today&apos;s dollars)
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Break-Even Investment Return:</span>
+                <span className="font-semibold text-gray-900 dark:text-white">
+                  {cashVsFinance.breakEvenReturn !== null
+                    ? `${(cashVsFinance.breakEvenReturn * 100).toFixed(2)}%`
+                    : 'Over 100%'}
+                </span>
+              </div>
             </div>
+            <p className="text-[9px] text-gray-500 dark:text-gray-400 mt-1">
+              Financing wins when the cash kept earns more than the break-even return.
+            </p>
           </div>
-        </div>
+        )}
         <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 p-2 rounded-lg">
           <div className="text-xs font-semibold text-amber-700 dark:text-amber-300 mb-2">
             Fees Breakdown & Recommendations
           </div>
           
           {/* Recommendations Section */}
-          {(car.dealerFees > FLORIDA_FEE_RANGES.dealerFees.recommendedMax || 
-            car.governmentFees > FLORIDA_FEE_RANGES.governmentFees.recommendedMax || 
-            car.otherFees > FLORIDA_FEE_RANGES.otherFees.recommendedMax) && (
+          {(metrics.totalDealerFees > FLORIDA_FEE_RANGES.dealerFees.recommendedMax || 
+            metrics.totalGovernmentFees > FLORIDA_FEE_RANGES.governmentFees.recommendedMax || 
+            metrics.totalOtherFees > FLORIDA_FEE_RANGES.otherFees.recommendedMax) && (
             <div className="mb-3 p-2 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-[10px]">
               <p className="font-semibold text-red-700 dark:text-red-300 mb-1">⚠️ Fee Recommendations:</p>
               <ul className="space-y-0.5 text-red-600 dark:text-red-400">
-                {car.dealerFees > FLORIDA_FEE_RANGES.dealerFees.recommendedMax && (
-                  <li>• <strong>Dealer Fees:</strong> ${car.dealerFees.toFixed(2)} exceeds recommended max of ${FLORIDA_FEE_RANGES.dealerFees.recommendedMax.toFixed(2)} - <span className="font-semibold">Try to negotiate this down!</span></li>
+                {metrics.totalDealerFees > FLORIDA_FEE_RANGES.dealerFees.recommendedMax && (
+                  <li>• <strong>Dealer Fees:</strong> ${metrics.totalDealerFees.toFixed(2)} exceeds recommended max of ${FLORIDA_FEE_RANGES.dealerFees.recommendedMax.toFixed(2)} - <span className="font-semibold">Try to negotiate this down!</span></li>
                 )}
-                {car.governmentFees > FLORIDA_FEE_RANGES.governmentFees.recommendedMax && (
-                  <li>• <strong>Government Fees:</strong> ${car.governmentFees.toFixed(2)} exceeds recommended max of ${FLORIDA_FEE_RANGES.governmentFees.recommendedMax.toFixed(2)} - Verify amounts aren't inflated</li>
+                {metrics.totalGovernmentFees > FLORIDA_FEE_RANGES.governmentFees.recommendedMax && (
+                  <li>• <strong>Government Fees:</strong> ${metrics.totalGovernmentFees.toFixed(2)} exceeds recommended max of ${FLORIDA_FEE_RANGES.governmentFees.recommendedMax.toFixed(2)} - Verify amounts aren't inflated</li>
                 )}
-                {car.otherFees > FLORIDA_FEE_RANGES.otherFees.recommendedMax && (
-                  <li>• <strong>Other Fees:</strong> ${car.otherFees.toFixed(2)} exceeds recommended max of ${FLORIDA_FEE_RANGES.otherFees.recommendedMax.toFixed(2)} - Many are optional add-ons</li>
+                {metrics.totalOtherFees > FLORIDA_FEE_RANGES.otherFees.recommendedMax && (
+                  <li>• <strong>Other Fees:</strong> ${metrics.totalOtherFees.toFixed(2)} exceeds recommended max of ${FLORIDA_FEE_RANGES.otherFees.recommendedMax.toFixed(2)} - Many are optional add-ons</li>
                 )}
               </ul>
             </div>
@@ -482,25 +975,25 @@ export default function CarChart({
                   Dealer Fees:
                 </span>
                 <span className={`ml-2 text-[9px] font-semibold ${
-                  car.dealerFees > FLORIDA_FEE_RANGES.dealerFees.recommendedMax
+                  metrics.totalDealerFees > FLORIDA_FEE_RANGES.dealerFees.recommendedMax
                     ? 'text-red-600 dark:text-red-400'
-                    : car.dealerFees > FLORIDA_FEE_RANGES.dealerFees.typical
+                    : metrics.totalDealerFees > FLORIDA_FEE_RANGES.dealerFees.typical
                     ? 'text-yellow-600 dark:text-yellow-400'
                     : 'text-green-600 dark:text-green-400'
                 }`}>
-                  {car.dealerFees > FLORIDA_FEE_RANGES.dealerFees.recommendedMax
+                  {metrics.totalDealerFees > FLORIDA_FEE_RANGES.dealerFees.recommendedMax
                     ? '⚠️ High - Negotiate!'
-                    : car.dealerFees > FLORIDA_FEE_RANGES.dealerFees.typical
+                    : metrics.totalDealerFees > FLORIDA_FEE_RANGES.dealerFees.typical
                     ? '⚠️ Above typical'
                     : '✓ Negotiable'}
                 </span>
               </div>
               <span className={`font-semibold ${
-                car.dealerFees > FLORIDA_FEE_RANGES.dealerFees.recommendedMax
+                metrics.totalDealerFees > FLORIDA_FEE_RANGES.dealerFees.recommendedMax
                   ? 'text-red-600 dark:text-red-400'
                   : 'text-gray-900 dark:text-white'
               }`}>
-                ${car.dealerFees.toLocaleString(undefined, {
+                ${metrics.totalDealerFees.toLocaleString(undefined, {
                   minimumFractionDigits: 2,
                   maximumFractionDigits: 2,
                 })}
@@ -514,25 +1007,25 @@ export default function CarChart({
                   Government Fees:
                 </span>
                 <span className={`ml-2 text-[9px] font-semibold ${
-                  car.governmentFees > FLORIDA_FEE_RANGES.governmentFees.recommendedMax
+                  metrics.totalGovernmentFees > FLORIDA_FEE_RANGES.governmentFees.recommendedMax
                     ? 'text-red-600 dark:text-red-400'
-                    : car.governmentFees > FLORIDA_FEE_RANGES.governmentFees.typical
+                    : metrics.totalGovernmentFees > FLORIDA_FEE_RANGES.governmentFees.typical
                     ? 'text-yellow-600 dark:text-yellow-400'
                     : 'text-orange-600 dark:text-orange-400'
                 }`}>
-                  {car.governmentFees > FLORIDA_FEE_RANGES.governmentFees.recommendedMax
+                  {metrics.totalGovernmentFees > FLORIDA_FEE_RANGES.governmentFees.recommendedMax
                     ? '⚠️ High - Verify!'
-                    : car.governmentFees > FLORIDA_FEE_RANGES.governmentFees.typical
+                    : metrics.totalGovernmentFees > FLORIDA_FEE_RANGES.governmentFees.typical
                     ? '⚠️ Above typical'
                     : '⚠️ Usually mandatory'}
                 </span>
               </div>
               <span className={`font-semibold ${
-                car.governmentFees > FLORIDA_FEE_RANGES.governmentFees.recommendedMax
+                metrics.totalGovernmentFees > FLORIDA_FEE_RANGES.governmentFees.recommendedMax
                   ? 'text-red-600 dark:text-red-400'
                   : 'text-gray-900 dark:text-white'
               }`}>
-                ${car.governmentFees.toLocaleString(undefined, {
+                ${metrics.totalGovernmentFees.toLocaleString(undefined, {
                   minimumFractionDigits: 2,
                   maximumFractionDigits: 2,
                 })}
@@ -546,31 +1039,65 @@ export default function CarChart({
                   Other Fees:
                 </span>
                 <span className={`ml-2 text-[9px] font-semibold ${
-                  car.otherFees > FLORIDA_FEE_RANGES.otherFees.recommendedMax
+                  metrics.totalOtherFees > FLORIDA_FEE_RANGES.otherFees.recommendedMax
                     ? 'text-red-600 dark:text-red-400'
-                    : car.otherFees > FLORIDA_FEE_RANGES.otherFees.typical
+                    : metrics.totalOtherFees > FLORIDA_FEE_RANGES.otherFees.typical
                     ? 'text-yellow-600 dark:text-yellow-400'
                     : 'text-gray-500 dark:text-gray-400'
                 }`}>
-                  {car.otherFees > FLORIDA_FEE_RANGES.otherFees.recommendedMax
+                  {metrics.totalOtherFees > FLORIDA_FEE_RANGES.otherFees.recommendedMax
                     ? '⚠️ High - Many optional!'
-                    : car.otherFees > FLORIDA_FEE_RANGES.otherFees.typical
+                    : metrics.totalOtherFees > FLORIDA_FEE_RANGES.otherFees.typical
                     ? '⚠️ Above typical'
                     : 'Depends on type'}
                 </span>
               </div>
               <span className={`font-semibold ${
-                car.otherFees > FLORIDA_FEE_RANGES.otherFees.recommendedMax
+                metrics.totalOtherFees > FLORIDA_FEE_RANGES.otherFees.recommendedMax
                   ? 'text-red-600 dark:text-red-400'
                   : 'text-gray-900 dark:text-white'
               }`}>
-                ${car.otherFees.toLocaleString(undefined, {
+                ${metrics.totalOtherFees.toLocaleString(undefined, {
                   minimumFractionDigits: 2,
                   maximumFractionDigits: 2,
                 })}
               </span>
             </div>
             
+            {/* Itemized Fees */}
+            {(car.fees || []).length > 0 && (
+              <div className="pl-2 border-l-2 border-amber-200 dark:border-amber-800 space-y-0.5 text-[10px]">
+                {(car.fees || []).map((fee, index) => (
+                  <div
+                    key={index}
+                    className={`flex justify-between ${
+                      fee.status === 'refused' ? 'line-through text-gray-400 dark:text-gray-500' : 'text-gray-600 dark:text-gray-400'
+                    }`}
+                  >
+                    <span>
+                      {fee.name || 'Unnamed fee'} ({fee.category}
+                      {fee.status !== 'required' ? `, ${fee.status}` : ''}
+                      {fee.negotiable ? ', negotiable' : ''})
+                    </span>
+                    <span>
+                      ${fee.amount.toLocaleString(undefined, {
+                        minimumFractionDigits: 2,
+                        maximumFractionDigits: 2,
+                      })}
+                    </span>
+                  </div>
+                ))}
+                {metrics.refusedFees > 0 && (
+                  <div className="text-green-600 dark:text-green-400 font-semibold">
+                    ✓ Refused: ${metrics.refusedFees.toLocaleString(undefined, {
+                      minimumFractionDigits: 2,
+                      maximumFractionDigits: 2,
+                    })} not charged
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Total Fees */}
             <div className="flex justify-between border-t border-amber-300 dark:border-amber-700 pt-2 mt-1">
               <span className="text-gray-600 dark:text-gray-400 font-semibold">
@@ -585,7 +1112,7 @@ export default function CarChart({
             </div>
             
             {/* Negotiation Tip */}
-            {(car.dealerFees > 0 || car.otherFees > 0) && (
+            {(metrics.totalDealerFees > 0 || metrics.totalOtherFees > 0) && (
               <div className="mt-3 pt-3 border-t border-amber-300 dark:border-amber-700">
                 <p className="text-xs text-gray-600 dark:text-gray-400">
                   <strong>💡 Negotiation Tip:</strong> Dealer fees and many "other fees" (VIN Etch, Battery Fee, etc.) are often negotiable or can be waived entirely. 
@@ -594,6 +1121,46 @@ export default function CarChart({
               </div>
             )}
           </div>
+
+          {/* Add-On Products */}
+          {addOnImpacts.length > 0 && (
+            <div className="border-t border-amber-300 dark:border-amber-700 pt-2 mt-2 text-xs">
+              <div className="font-semibold text-amber-700 dark:text-amber-300 mb-1">Add-On Products</div>
+              <div className="space-y-1">
+                {addOnImpacts.map((impact, index) => (
+                  <div key={index} className="flex justify-between items-start gap-2">
+                    <div className="flex-1">
+                      <span className="text-gray-600 dark:text-gray-400">{impact.name || 'Unnamed add-on'}:</span>
+                      <div className="text-[10px] text-gray-500 dark:text-gray-400">
+                        {!isCash && `+$${impact.addedMonthlyPayment.toFixed(2)}/mo • +$${impact.addedInterest.toFixed(2)} interest • `}
+                        {impact.addedTax > 0 && `+$${impact.addedTax.toFixed(2)} tax • `}
+                        +${impact.addedTotalCost.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} total
+                      </div>
+                    </div>
+                    <span className="font-semibold text-gray-900 dark:text-white">
+                      ${impact.price.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between border-t border-amber-300 dark:border-amber-700 pt-1 mt-1">
+                <span className="text-gray-600 dark:text-gray-400 font-semibold">Total Add-Ons:</span>
+                <span className="font-semibold text-gray-900 dark:text-white">
+                  ${metrics.totalAddOns.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  {metrics.financedAddOns > 0 && metrics.financedAddOns < metrics.totalAddOns && (
+                    <span className="text-[10px] font-normal text-gray-500 dark:text-gray-400">
+                      {' '}(${metrics.financedAddOns.toFixed(2)} {metrics.lease ? 'capitalized' : 'financed'})
+                    </span>
+                  )}
+                </span>
+              </div>
+              {(carWithOverride.addOns || []).some((addOn) => addOn.cancellable && addOn.price > 0) && (
+                <p className="text-[10px] text-gray-500 dark:text-gray-400 mt-1">
+                  Cancellable add-ons can be dropped later for a prorated refund, usually applied to the loan balance.
+                </p>
+              )}
+            </div>
+          )}
           
           {/* Dealer Financing Markup */}
           {metrics.dealerFinancingMarkupCost > 0 && (
@@ -622,8 +1189,49 @@ export default function CarChart({
               </p>
             </>
           )}
+
+          {/* Dealer-Quoted Payment Check */}
+          {metrics.quotedPayment && (
+            <>
+              <div className="flex justify-between border-t border-amber-300 dark:border-amber-700 pt-2 mt-2">
+                <span className="text-gray-600 dark:text-gray-400">Dealer-Quoted Payment:</span>
+                <span className="font-semibold text-gray-900 dark:text-white">
+                  ${metrics.quotedPayment.quotedPayment.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}/mo
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">
+                  Payment at {(carWithOverride.apr * 100).toFixed(2)}% APR:
+                </span>
+                <span className="font-semibold text-gray-900 dark:text-white">
+                  ${metrics.quotedPayment.computedPayment.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}/mo
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Implied APR:</span>
+                <span className={`font-semibold ${metrics.quotedPayment.paymentPacking ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                  {metrics.quotedPayment.impliedApr !== null ? `${(metrics.quotedPayment.impliedApr * 100).toFixed(2)}%` : 'N/A'}
+                </span>
+              </div>
+              {metrics.quotedPayment.paymentPacking ? (
+                <div className="mt-2 p-2 bg-red-100 dark:bg-red-900/30 border border-red-300 dark:border-red-700 rounded text-xs text-red-800 dark:text-red-300">
+                  <strong>⚠️ Possible payment packing:</strong> the quote is $
+                  {metrics.quotedPayment.difference.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}/mo
+                  {' '}higher than the stated APR produces, enough to finance about $
+                  {metrics.quotedPayment.hiddenAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  {' '}in extras. Ask for an itemized buyer&apos;s order and remove any add-ons you didn&apos;t ask for.
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {metrics.quotedPayment.difference < -PAYMENT_PACKING_THRESHOLD
+                    ? 'Quote is lower than the stated APR produces - confirm the APR, term and amount financed.'
+                    : 'Quote matches the stated APR and amount financed.'}
+                </p>
+              )}
+            </>
+          )}
         </div>
-        {allTerms.length > 1 && (
+        {!isCash && allTerms.length > 1 && (
           <div className="p-4 rounded-lg border bg-indigo-50 dark:bg-indigo-900/20 border-indigo-200 dark:border-indigo-800">
             <div className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
               Total Interest by Term Length
@@ -683,141 +1291,390 @@ export default function CarChart({
           </div>
         )}
       </div>
-      <div className="mb-4 p-2 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-700 rounded-lg">
-        <div className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">Monthly Payment</div>
-        <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">
-          <span className="font-semibold text-gray-900 dark:text-white text-sm">${metrics.monthlyPayment.toFixed(2)}</span>
-          {' per month'}
-        </div>
-        <div className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
-          <div className="italic">
-            • This payment covers: <span className="font-semibold">Financed Amount (${metrics.financedAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}) + Interest</span>
+      {!isCash && (
+        <div className="mb-4 p-2 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <div className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">Monthly Payment</div>
+          <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">
+            <span className="font-semibold text-gray-900 dark:text-white text-sm">${metrics.monthlyPayment.toFixed(2)}</span>
+            {' per month'}
           </div>
-          {metrics.totalTax > 0 ? (
-            <div className="italic">
-              • Tax ({car.taxRate.toFixed(2)}%) is <span className="font-semibold">included</span> in the financed amount and amortized over the loan term
-            </div>
-          ) : (
-            <div className="italic">
-              • No tax included
-            </div>
-          )}
-          {carWithOverride.downPayment > 0 && (
-            <div className="italic">
-              • Down payment (${carWithOverride.downPayment.toLocaleString()}) is <span className="font-semibold">not included</span> in monthly payments
+          <div className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+            {metrics.lease ? (
+              <>
+                <div className="italic">
+                  • This payment covers: <span className="font-semibold">Depreciation (${metrics.lease.depreciationCharge.toFixed(2)}) + Rent Charge (${metrics.lease.rentCharge.toFixed(2)})</span>
+                </div>
+                <div className="italic">
+                  • Tax ({car.taxRate.toFixed(2)}%) of ${metrics.lease.monthlyTax.toFixed(2)} is <span className="font-semibold">charged on each payment</span> (${metrics.lease.monthlyPaymentWithTax.toFixed(2)} with tax)
+                </div>
+              </>
+            ) : (
+              <>
+              <div className="italic">
+                • This payment covers: <span className="font-semibold">Financed Amount (${metrics.financedAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}) + Interest</span>
+              </div>
+              {metrics.totalTax > 0 ? (
+                <div className="italic">
+                  {carWithOverride.paidUpfront?.tax ? (
+                  <>• Tax ({car.taxRate.toFixed(2)}%) is <span className="font-semibold">paid at signing</span>, not financed</>
+                ) : (
+                  <>• Tax ({car.taxRate.toFixed(2)}%) is <span className="font-semibold">included</span> in the financed amount and amortized over the loan term</>
+                )}
+                </div>
+              ) : (
+                <div className="italic">
+                  • No tax included
+                </div>
+              )}
+              </>
+            )}
+            {carWithOverride.downPayment > 0 && (
+              <div className="italic">
+                • Down payment (${carWithOverride.downPayment.toLocaleString()}) is <span className="font-semibold">not included</span> in monthly payments
+              </div>
+            )}
+          </div>
+          {allTerms.length > 1 && (
+            <div className="text-xs text-gray-600 dark:text-gray-400 mt-3 pt-3 border-t border-gray-300 dark:border-gray-600">
+              Monthly payments by term: {allTerms.map((term, index) => {
+                const termMetrics = allMetrics.find(m => m.term === term)?.metrics;
+                if (!termMetrics) return null;
+                const monthlyPayment = termMetrics.monthlyPayment;
+                const isSelected = term === selectedTerm;
+                return (
+                  <span key={term}>
+                    {index > 0 && ' | '}
+                    <span className={isSelected ? 'font-semibold text-blue-600 dark:text-blue-400' : ''}>
+                      {term}m: ${monthlyPayment.toFixed(2)}
+                    </span>
+                  </span>
+                );
+              })}
             </div>
           )}
         </div>
-        {allTerms.length > 1 && (
-          <div className="text-xs text-gray-600 dark:text-gray-400 mt-3 pt-3 border-t border-gray-300 dark:border-gray-600">
-            Monthly payments by term: {allTerms.map((term, index) => {
-              const termMetrics = allMetrics.find(m => m.term === term)?.metrics;
-              if (!termMetrics) return null;
-              const monthlyPayment = termMetrics.monthlyPayment;
-              const isSelected = term === selectedTerm;
-              return (
-                <span key={term}>
-                  {index > 0 && ' | '}
-                  <span className={isSelected ? 'font-semibold text-blue-600 dark:text-blue-400' : ''}>
-                    {term}m: ${monthlyPayment.toFixed(2)}
-                  </span>
-                </span>
-              );
-            })}
-          </div>
-        )}
-      </div>
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <div>
-          <h4 className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">Cumulative Interest Paid</h4>
-          <ResponsiveContainer width="100%" height={400}>
-            <LineChart data={chartData}>
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis
-                dataKey="dateLabel"
-                label={{ value: 'Date (YY/MM)', position: 'insideBottom', offset: -5 }}
-                angle={-45}
-                textAnchor="end"
-                height={60}
-              />
-              <YAxis
-                label={{ value: 'Amount ($)', angle: -90, position: 'insideLeft' }}
-              />
-              <Tooltip
-                formatter={(value: number | undefined) =>
-                  `$${(value ?? 0).toLocaleString(undefined, {
-                    minimumFractionDigits: 2,
-                    maximumFractionDigits: 2,
-                  })}`
-                }
-                labelFormatter={(label) => `Date: ${label}`}
-              />
-              <Legend />
-              {allTerms.map((term, index) => {
-                const strokeColors = ['#f59e0b', '#ef4444', '#10b981', '#8b5cf6'];
-                const strokeWidth = term === selectedTerm ? 3 : 2;
-                const strokeDasharray = term === selectedTerm ? '0' : '5 5';
-                return (
+      )}
+      {!isCash && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <h4 className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">Cumulative Interest Paid</h4>
+            <ResponsiveContainer width="100%" height={400}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="dateLabel"
+                  label={{ value: 'Date (YY/MM)', position: 'insideBottom', offset: -5 }}
+                  angle={-45}
+                  textAnchor="end"
+                  height={60}
+                />
+                <YAxis
+                  label={{ value: 'Amount ($)', angle: -90, position: 'insideLeft' }}
+                />
+                <Tooltip
+                  formatter={(value: number | undefined) =>
+                    `$${(value ?? 0).toLocaleString(undefined, {
+                      minimumFractionDigits: 2,
+                      maximumFractionDigits: 2,
+                    })}`
+                  }
+                  labelFormatter={(label) => `Date: ${label}`}
+                />
+                <Legend />
+                {allTerms.map((term, index) => {
+                  const strokeColors = ['#f59e0b', '#ef4444', '#10b981', '#8b5cf6'];
+                  const strokeWidth = term === selectedTerm ? 3 : 2;
+                  const strokeDasharray = term === selectedTerm ? '0' : '5 5';
+                  return (
+                    <Line
+                      key={`interest-${term}`}
+                      type="monotone"
+                      dataKey={`Interest (${term}m)`}
+                      stroke={strokeColors[index % strokeColors.length]}
+                      strokeWidth={strokeWidth}
+                      strokeDasharray={strokeDasharray}
+                      dot={false}
+                      name={`${term} months`}
+                    />
+                  );
+                })}
+                {metrics.prepayment && (
                   <Line
-                    key={`interest-${term}`}
                     type="monotone"
-                    dataKey={`Interest (${term}m)`}
-                    stroke={strokeColors[index % strokeColors.length]}
-                    strokeWidth={strokeWidth}
-                    strokeDasharray={strokeDasharray}
+                    dataKey="Interest (extra payments)"
+                    stroke="#14b8a6"
+                    strokeWidth={3}
+                    strokeDasharray="2 2"
                     dot={false}
-                    name={`${term} months`}
+                    name={`${selectedTerm} months + extra`}
                   />
-                );
-              })}
-            </LineChart>
-          </ResponsiveContainer>
-        </div>
-        <div>
-          <h4 className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">Cumulative Principal Paid</h4>
-          <ResponsiveContainer width="100%" height={400}>
-            <LineChart data={chartData}>
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis
-                dataKey="dateLabel"
-                label={{ value: 'Date (YY/MM)', position: 'insideBottom', offset: -5 }}
-                angle={-45}
-                textAnchor="end"
-                height={60}
-              />
-              <YAxis
-                label={{ value: 'Amount ($)', angle: -90, position: 'insideLeft' }}
-              />
-              <Tooltip
-                formatter={(value: number | undefined) =>
-                  `$${(value ?? 0).toLocaleString(undefined, {
-                    minimumFractionDigits: 2,
-                    maximumFractionDigits: 2,
-                  })}`
-                }
-                labelFormatter={(label) => `Date: ${label}`}
-              />
-              <Legend />
-              {allTerms.map((term, index) => {
-                const strokeColors = ['#3b82f6', '#ef4444', '#10b981', '#8b5cf6'];
-                const strokeWidth = term === selectedTerm ? 3 : 2;
-                const strokeDasharray = term === selectedTerm ? '0' : '5 5';
-                return (
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div>
+            <h4 className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">Cumulative Principal Paid</h4>
+            <ResponsiveContainer width="100%" height={400}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="dateLabel"
+                  label={{ value: 'Date (YY/MM)', position: 'insideBottom', offset: -5 }}
+                  angle={-45}
+                  textAnchor="end"
+                  height={60}
+                />
+                <YAxis
+                  label={{ value: 'Amount ($)', angle: -90, position: 'insideLeft' }}
+                />
+                <Tooltip
+                  formatter={(value: number | undefined) =>
+                    `$${(value ?? 0).toLocaleString(undefined, {
+                      minimumFractionDigits: 2,
+                      maximumFractionDigits: 2,
+                    })}`
+                  }
+                  labelFormatter={(label) => `Date: ${label}`}
+                />
+                <Legend />
+                {allTerms.map((term, index) => {
+                  const strokeColors = ['#3b82f6', '#ef4444', '#10b981', '#8b5cf6'];
+                  const strokeWidth = term === selectedTerm ? 3 : 2;
+                  const strokeDasharray = term === selectedTerm ? '0' : '5 5';
+                  return (
+                    <Line
+                      key={`principal-${term}`}
+                      type="monotone"
+                      dataKey={`Principal (${term}m)`}
+                      stroke={strokeColors[index % strokeColors.length]}
+                      strokeWidth={strokeWidth}
+                      strokeDasharray={strokeDasharray}
+                      dot={false}
+                      name={`${term} months`}
+                    />
+                  );
+                })}
+                {metrics.prepayment && (
                   <Line
-                    key={`principal-${term}`}
                     type="monotone"
-                    dataKey={`Principal (${term}m)`}
-                    stroke={strokeColors[index % strokeColors.length]}
-                    strokeWidth={strokeWidth}
-                    strokeDasharray={strokeDasharray}
+                    dataKey="Principal (extra payments)"
+                    stroke="#14b8a6"
+                    strokeWidth={3}
+                    strokeDasharray="2 2"
                     dot={false}
-                    name={`${term} months`}
+                    name={`${selectedTerm} months + extra`}
                   />
-                );
-              })}
-            </LineChart>
-          </ResponsiveContainer>
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+      {!metrics.lease && !isCash && (
+        <details className="mt-6">
+          <summary className="text-lg font-semibold text-gray-900 dark:text-white cursor-pointer">
+            APR &times; Term Sensitivity
+          </summary>
+          <div className="mt-3">
+            <SensitivityGrid
+              car={carWithOverride}
+              centerApr={car.apr}
+              onApplyOverride={(apr, term) => {
+                onAprOverrideChange?.(apr);
+                onTermOverrideChange?.(term);
+              }}
+            />
+          </div>
+        </details>
+      )}
+      {!metrics.lease && !isCash && (
+        <details className="mt-6">
+          <summary className="text-lg font-semibold text-gray-900 dark:text-white cursor-pointer">
+            Payment Schedule{isDailySimpleInterest ? ' (daily simple interest)' : ''}
+          </summary>
+          <div className="mt-2 max-h-96 overflow-y-auto">
+            <table className="w-full text-xs text-right">
+              <thead className="sticky top-0 bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-400">
+                <tr>
+                  <th className="py-1 text-left">#</th>
+                  <th className="py-1 text-left">Due</th>
+                  {isDailySimpleInterest && <th className="py-1 text-left">Paid</th>}
+                  {isDailySimpleInterest && <th className="py-1">Days</th>}
+                  <th className="py-1">Payment</th>
+                  <th className="py-1">Interest</th>
+                  <th className="py-1">Principal</th>
+                  <th className="py-1">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-900 dark:text-white">
+                {metrics.paymentSchedule.map((entry) => (
+                  <tr key={entry.month} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="py-1 text-left">{entry.month}</td>
+                    <td className="py-1 text-left">{entry.dueDate?.toLocaleDateString('en-US') ?? '-'}</td>
+                    {isDailySimpleInterest && (
+                      <td
+                        className={`py-1 text-left ${
+                          entry.paidDate && entry.dueDate && entry.paidDate.getTime() !== entry.dueDate.getTime()
+                            ? entry.paidDate > entry.dueDate
+                              ? 'text-red-600 dark:text-red-400'
+                              : 'text-green-600 dark:text-green-400'
+                            : ''
+                        }`}
+                      >
+                        {entry.paidDate?.toLocaleDateString('en-US') ?? '-'}
+                      </td>
+                    )}
+                    {isDailySimpleInterest && <td className="py-1">{entry.daysOfInterest ?? '-'}</td>}
+                    <td className="py-1">${(entry.principalPaid + entry.interestPaid).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                    <td className="py-1">${entry.interestPaid.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                    <td className="py-1">${entry.principalPaid.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                    <td className="py-1">${entry.remainingBalance.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </details>
+      )}
+      <div className="mt-6">
+        <h4 className="text-lg font-semibold mb-1 text-gray-900 dark:text-white">Projected Value vs Balance</h4>
+        <div className="text-xs text-gray-600 dark:text-gray-400 mb-2">
+          Worth <span className="font-semibold text-gray-900 dark:text-white">${(valueAtTermEnd?.projectedValue ?? 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span> at month {valueAtTermEnd?.month ?? 0}
+          {' '}• equity{' '}
+          <span className={`font-semibold ${(valueAtTermEnd?.equity ?? 0) < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+            ${(valueAtTermEnd?.equity ?? 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+          </span>
+          {' '}• Curve: {depreciationCurve.make ? `${depreciationCurve.make}${depreciationCurve.model ? ` ${depreciationCurve.model}` : ''}` : 'Generic'}
+          {' '}({depreciationCurve.annualRates.map((rate) => `${rate}%`).join(' / ')} per year, {tco.inputs.annualMiles.toLocaleString()} mi/yr)
+        </div>
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={valueChartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="dateLabel"
+              label={{ value: 'Date (YY/MM)', position: 'insideBottom', offset: -5 }}
+              angle={-45}
+              textAnchor="end"
+              height={60}
+            />
+            <YAxis
+              label={{ value: 'Amount ($)', angle: -90, position: 'insideLeft' }}
+            />
+            <Tooltip
+              formatter={(value: number | undefined) =>
+                `$${(value ?? 0).toLocaleString(undefined, {
+                  minimumFractionDigits: 2,
+                  maximumFractionDigits: 2,
+                })}`
+              }
+              labelFormatter={(label) => `Date: ${label}`}
+            />
+            <Legend />
+            <ReferenceLine y={0} stroke="#6b7280" />
+            {negativeEquity?.crossoverMonth != null && (
+              <ReferenceLine
+                x={valueMonthLabel(negativeEquity.crossoverMonth)}
+                stroke="#10b981"
+                strokeDasharray="4 4"
+                label={{ value: 'Positive equity', position: 'top', fontSize: 11 }}
+              />
+            )}
+            <Line type="monotone" dataKey="Projected Value" stroke="#10b981" strokeWidth={3} dot={false} />
+            <Line type="monotone" dataKey={metrics.lease ? 'Lease Balance' : 'Loan Balance'} stroke="#ef4444" strokeWidth={3} dot={false} />
+            <Line type="monotone" dataKey="Equity" stroke="#3b82f6" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+        {negativeEquity && (
+          <div
+            className={`mt-3 rounded-lg p-3 text-sm border ${
+              negativeEquity.upsideDownMonths.length > 0
+                ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+                : 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
+            }`}
+          >
+            {negativeEquity.upsideDownMonths.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mb-2">
+                <div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">Upside Down</div>
+                  <div className="font-semibold text-gray-900 dark:text-white">
+                    {negativeEquity.upsideDownMonths.length} months
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">Peak Negative Equity</div>
+                  <div className="font-semibold text-red-600 dark:text-red-400">
+                    {formatGapAmount(negativeEquity.peakNegativeEquity)}
+                    {negativeEquity.peakMonth !== null && (
+                      <span className="text-xs font-normal text-gray-600 dark:text-gray-400"> (month {negativeEquity.peakMonth})</span>
+                    )}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">Positive Equity From</div>
+                  <div className="font-semibold text-gray-900 dark:text-white">
+                    {negativeEquity.crossoverMonth !== null
+                      ? `Month ${negativeEquity.crossoverMonth} (${valueMonthLabel(negativeEquity.crossoverMonth)})`
+                      : 'Not before payoff'}
+                  </div>
+                </div>
+              </div>
+            ) : null}
+            <div className="text-gray-800 dark:text-gray-200">
+              <span className="font-semibold">GAP coverage: </span>
+              {negativeEquity.gapRecommendation === 'notNeeded' &&
+                'Not needed. The loan balance stays below the projected value.'}
+              {negativeEquity.gapRecommendation === 'consider' &&
+                `Worth considering. You could owe up to ${formatGapAmount(negativeEquity.peakNegativeEquity)} more than the car is worth; enter a GAP price to compare.`}
+              {negativeEquity.gapRecommendation === 'buy' &&
+                `Worth it. Up to ${formatGapAmount(negativeEquity.peakNegativeEquity)} is exposed, more than the ${formatGapAmount(negativeEquity.gapPrice)} price. Compare with your auto insurer's GAP rate before buying from the dealer.`}
+              {negativeEquity.gapRecommendation === 'skip' &&
+                `Skip it. Peak exposure of ${formatGapAmount(negativeEquity.peakNegativeEquity)} is less than the ${formatGapAmount(negativeEquity.gapPrice)} price.`}
+            </div>
+          </div>
+        )}
+      </div>
+      <div className="mt-6">
+        <h4 className="text-lg font-semibold mb-1 text-gray-900 dark:text-white">
+          Total Cost of Ownership ({tco.inputs.ownershipYears} years, {tco.inputs.annualMiles.toLocaleString()} mi/yr)
+        </h4>
+        <div className="text-xs text-gray-600 dark:text-gray-400 mb-2">
+          <span className="font-semibold text-gray-900 dark:text-white">${tco.total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span> total
+          {' '}• ${tco.perMonth.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}/mo
+          {' '}• ${tco.perMile.toFixed(2)}/mile
+          {tco.projectedValue > 0 && (
+            <> • Projected value after {tco.inputs.ownershipYears} years: ${tco.projectedValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</>
+          )}
         </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3 text-xs">
+          {activeTcoComponents.map(({ key, label, color }) => (
+            <div key={key} className="flex justify-between bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-700 p-2 rounded-lg">
+              <span className="text-gray-600 dark:text-gray-400">
+                <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: color }} />
+                {label}:
+              </span>
+              <span className="font-semibold text-gray-900 dark:text-white">${tco[key].toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+            </div>
+          ))}
+        </div>
+        <ResponsiveContainer width="100%" height={300}>
+          <BarChart data={tco.yearly.map((entry) => ({ ...entry, yearLabel: `Year ${entry.year}` }))}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="yearLabel" />
+            <YAxis label={{ value: 'Amount ($)', angle: -90, position: 'insideLeft' }} />
+            <Tooltip
+              formatter={(value: number | undefined) =>
+                `$${(value ?? 0).toLocaleString(undefined, {
+                  minimumFractionDigits: 2,
+                  maximumFractionDigits: 2,
+                })}`
+              }
+            />
+            <Legend />
+            {activeTcoComponents.map(({ key, label, color }) => (
+              <Bar key={key} dataKey={key} name={label} stackId="tco" fill={color} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
       </div>
     </div>
   );
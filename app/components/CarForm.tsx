@@ -1,9 +1,15 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Car } from '@/lib/types';
+import { Car, Incentive, IncentiveType, TcoInputs, FuelType, PaymentTiming, UpfrontCostComponent, FeeItem, FeeCategory, FeeStatus, AddOn, AddOnType } from '@/lib/types';
 import carStorage from '@/lib/carStorage';
+import { describeCar, MergePlan, planCarMerge, resolveCarMerge } from '@/lib/importMerge';
+import { needsReview, resolveValidationReview, reviewRecords, validateCar, ValidationReview } from '@/lib/validation';
+import ImportMergeModal from './ImportMergeModal';
+import ImportValidationModal from './ImportValidationModal';
+import { calculateTax, calculateLeaseBuyoutPrice, calculateFeeTotals, isFeeTaxable, isIncentiveTaxable } from '@/lib/carCalculations';
 import profileStorage from '@/lib/profileStorage';
+import { getTaxRule, describeTaxableAmount, STATE_TAX_RULES } from '@/lib/taxRules';
 
 // Florida fee defaults and expected ranges
 const FLORIDA_FEE_RANGES = {
@@ -12,6 +18,23 @@ const FLORIDA_FEE_RANGES = {
   otherFees: { min: 0, max: 500, typical: 100, recommendedMax: 400 }, // VIN Etch, Battery, Tire, Agency, etc.
 };
 
+// Ownership cost (TCO) inputs that can be overridden per car
+const TCO_NUMERIC_FIELDS: { key: Exclude<keyof TcoInputs, 'fuelType'>; label: string }[] = [
+  { key: 'ownershipYears', label: 'Ownership Horizon (years)' },
+  { key: 'annualMiles', label: 'Miles per Year' },
+  { key: 'insurancePerYear', label: 'Insurance per Year ($)' },
+  { key: 'fuelEfficiency', label: 'Fuel Efficiency (MPG or mi/kWh)' },
+  { key: 'energyPrice', label: 'Fuel Price ($/gal or $/kWh)' },
+  { key: 'maintenancePerYear', label: 'Maintenance per Year ($)' },
+  { key: 'repairsPerYear', label: 'Repairs per Year After Warranty ($)' },
+  { key: 'registrationPerYear', label: 'Registration per Year ($)' },
+];
+
+const getTcoStringValues = (tco?: Partial<TcoInputs>): Record<string, string> =>
+  Object.fromEntries(
+    TCO_NUMERIC_FIELDS.map(({ key }) => [`tco.${key}`, tco?.[key] !== undefined ? tco[key].toString() : ''])
+  );
+
 interface CarFormProps {
   car?: Car;
   onSave: () => void;
@@ -23,11 +46,15 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
   const [vinFetchStatus, setVinFetchStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [vinFetchError, setVinFetchError] = useState<string>('');
   const [profileFeeRecommendations, setProfileFeeRecommendations] = useState<string>('');
+  const [tcoDefaults, setTcoDefaults] = useState<TcoInputs | null>(null);
+  const [pendingValidation, setPendingValidation] = useState<ValidationReview<Car>[] | null>(null); // Imported car with validation issues
+  const [pendingMerge, setPendingMerge] = useState<MergePlan<Car> | null>(null); // Imported car that matches a saved one
   
   // Load profile fee recommendations
   useEffect(() => {
     const profile = profileStorage.getProfile();
     setProfileFeeRecommendations(profile.feeRecommendations || '');
+    setTcoDefaults(profile.tcoDefaults);
   }, []);
   
   // Store string values for numeric inputs to preserve decimal points during typing
@@ -37,6 +64,7 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
     negotiatedPrice: '',
     apr: '',
     buyRateApr: '',
+    quotedPayment: '',
     termLength: '',
     taxRate: '',
     flatTaxFee: '',
@@ -44,9 +72,30 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
     mileage: '',
     year: new Date().getFullYear().toString(),
     downPayment: '',
-    dealerFees: '',
-    governmentFees: '',
-    otherFees: '',
+    tradeInValue: '',
+    tradeInPayoff: '',
+    moneyFactor: '',
+    residualPercent: '',
+    residualValue: '',
+    acquisitionFee: '',
+    dispositionFee: '',
+    annualMileageAllowance: '',
+    excessMileageCharge: '',
+    remainingLeasePayments: '',
+    leaseMonthlyPayment: '',
+    purchaseOptionFee: '',
+    thirdPartyOffer: '',
+    turnInCharges: '',
+    extraMonthlyPayment: '',
+    roundUpPaymentTo: '',
+    gapPrice: '',
+    balloonPayment: '',
+    firstPaymentDeferralDays: '',
+    refinanceMonth: '',
+    refinanceApr: '',
+    refinanceTerm: '',
+    refinanceFees: '',
+    ...getTcoStringValues(),
   });
 
   const [formData, setFormData] = useState<Partial<Car>>({
@@ -68,9 +117,11 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
     mileage: 0,
     year: new Date().getFullYear(),
     downPayment: 0,
-    dealerFees: 0,
-    governmentFees: 0,
-    otherFees: 0,
+    fees: [],
+    tradeInValue: 0,
+    tradeInPayoff: 0,
+    tradeInTaxCredit: false,
+    dealType: 'purchase',
   });
 
   useEffect(() => {
@@ -83,6 +134,7 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
         negotiatedPrice: car.negotiatedPrice ? car.negotiatedPrice.toString() : '',
         apr: car.apr ? (car.apr * 100).toString() : '',
         buyRateApr: car.buyRateApr ? (car.buyRateApr * 100).toString() : '',
+        quotedPayment: car.quotedPayment ? car.quotedPayment.toString() : '',
         termLength: car.termLength ? car.termLength.toString() : '',
         taxRate: car.taxRate ? car.taxRate.toString() : '',
         flatTaxFee: car.flatTaxFee ? car.flatTaxFee.toString() : '',
@@ -90,9 +142,30 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
         mileage: car.mileage ? car.mileage.toString() : '',
         year: car.year ? car.year.toString() : new Date().getFullYear().toString(),
         downPayment: car.downPayment ? car.downPayment.toString() : '',
-        dealerFees: car.dealerFees ? car.dealerFees.toString() : '',
-        governmentFees: car.governmentFees ? car.governmentFees.toString() : '',
-        otherFees: car.otherFees ? car.otherFees.toString() : '',
+        tradeInValue: car.tradeInValue ? car.tradeInValue.toString() : '',
+        tradeInPayoff: car.tradeInPayoff ? car.tradeInPayoff.toString() : '',
+        moneyFactor: car.moneyFactor ? car.moneyFactor.toString() : '',
+        residualPercent: car.residualPercent ? car.residualPercent.toString() : '',
+        residualValue: car.residualValue ? car.residualValue.toString() : '',
+        acquisitionFee: car.acquisitionFee ? car.acquisitionFee.toString() : '',
+        dispositionFee: car.dispositionFee ? car.dispositionFee.toString() : '',
+        annualMileageAllowance: car.annualMileageAllowance ? car.annualMileageAllowance.toString() : '',
+        excessMileageCharge: car.excessMileageCharge ? car.excessMileageCharge.toString() : '',
+        remainingLeasePayments: car.remainingLeasePayments ? car.remainingLeasePayments.toString() : '',
+        leaseMonthlyPayment: car.leaseMonthlyPayment ? car.leaseMonthlyPayment.toString() : '',
+        purchaseOptionFee: car.purchaseOptionFee ? car.purchaseOptionFee.toString() : '',
+        thirdPartyOffer: car.thirdPartyOffer ? car.thirdPartyOffer.toString() : '',
+        turnInCharges: car.turnInCharges ? car.turnInCharges.toString() : '',
+        extraMonthlyPayment: car.extraMonthlyPayment ? car.extraMonthlyPayment.toString() : '',
+        roundUpPaymentTo: car.roundUpPaymentTo ? car.roundUpPaymentTo.toString() : '',
+        gapPrice: car.gapPrice ? car.gapPrice.toString() : '',
+        balloonPayment: car.balloonPayment ? car.balloonPayment.toString() : '',
+        firstPaymentDeferralDays: car.firstPaymentDeferralDays ? car.firstPaymentDeferralDays.toString() : '',
+        refinanceMonth: car.refinanceMonth ? car.refinanceMonth.toString() : '',
+        refinanceApr: car.refinanceApr !== undefined ? (car.refinanceApr * 100).toString() : '',
+        refinanceTerm: car.refinanceTerm ? car.refinanceTerm.toString() : '',
+        refinanceFees: car.refinanceFees ? car.refinanceFees.toString() : '',
+        ...getTcoStringValues(car.tco),
       });
     } else {
       // When creating a new car, load profile defaults
@@ -102,6 +175,8 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
         ...prev,
         taxRate: profile.taxRate,
         flatTaxFee: profile.flatTaxFee,
+        taxState: profile.state,
+        tradeInTaxCredit: getTaxRule(profile.state).tradeInCredit,
         creditScore: profile.creditScore,
         downPayment: profile.defaultDownPayment || 0,
         termLength: profile.defaultTermLength || 60,
@@ -124,8 +199,37 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
   ) => {
     const { name, value, type } = e.target;
     
+    // Ownership cost (TCO) overrides - blank means use the profile default
+    if (name.startsWith('tco.')) {
+      const field = name.slice('tco.'.length) as keyof TcoInputs;
+      if (field !== 'fuelType') {
+        setStringValues((prev) => ({ ...prev, [name]: value }));
+      }
+      setFormData((prev) => {
+        const tco: Partial<TcoInputs> = { ...prev.tco };
+        if (value === '') {
+          delete tco[field];
+        } else if (field === 'fuelType') {
+          tco.fuelType = value as FuelType;
+        } else {
+          tco[field] = value === '.' ? 0 : parseFloat(value) || 0;
+        }
+        return { ...prev, tco };
+      });
+      return;
+    }
+    
+    // Tax state - the state's rules decide the trade-in credit default and the tax amount
+    if (name === 'taxState') {
+      setFormData((prev) => {
+        const updated = { ...prev, taxState: value, tradeInTaxCredit: getTaxRule(value).tradeInCredit };
+        return { ...updated, tax: calculateTax({ ...updated, tax: 0 } as Car) };
+      });
+      return;
+    }
+    
     // Text fields - store directly
-    if (name === 'make' || name === 'model' || name === 'tier' || name === 'dealership' || name === 'vin' || name === 'notes' || name === 'repName' || name === 'repPhone') {
+    if (name === 'make' || name === 'model' || name === 'tier' || name === 'dealership' || name === 'vin' || name === 'notes' || name === 'repName' || name === 'repPhone' || name === 'dealType' || name === 'interestMethod' || name === 'contractDate' || name === 'firstPaymentDate') {
       setFormData((prev) => ({ ...prev, [name]: value }));
       // Also update stringValues for VIN to keep it in sync
       if (name === 'vin') {
@@ -136,7 +240,15 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
     
     // Checkbox fields
     if (type === 'checkbox') {
-      setFormData((prev) => ({ ...prev, [name]: (e.target as HTMLInputElement).checked }));
+      const checked = (e.target as HTMLInputElement).checked;
+      setFormData((prev) => {
+        const updated = { ...prev, [name]: checked };
+        // Trade-in tax credit changes the taxable amount
+        if (name === 'tradeInTaxCredit') {
+          return { ...updated, tax: calculateTax({ ...updated, tax: 0 } as Car) };
+        }
+        return updated;
+      });
       return;
     }
     
@@ -151,63 +263,32 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
       if (name === 'apr') {
         return { ...prev, [name]: numValue / 100 };
       }
+      // Refinance APR is entered as a percentage too
+      if (name === 'refinanceApr') {
+        return { ...prev, [name]: numValue / 100 };
+      }
       // Buy rate APR (what lender offers dealer)
       if (name === 'buyRateApr') {
         return { ...prev, [name]: numValue / 100 };
       }
-      // Tax rate - calculate tax amount from taxable amount (negotiated price + dealer fees + other fees) + flat tax fee
-      if (name === 'taxRate') {
-        const negotiatedPrice = prev.negotiatedPrice || 0;
-        const dealerFees = prev.dealerFees || 0;
-        const otherFees = prev.otherFees || 0;
-        const flatTaxFee = prev.flatTaxFee || 0;
-        const taxableAmount = negotiatedPrice + dealerFees + otherFees;
-        const taxAmount = (taxableAmount * numValue) / 100 + flatTaxFee;
-        return { ...prev, taxRate: numValue, tax: taxAmount };
-      }
-      // Flat tax fee - recalculate tax amount
-      if (name === 'flatTaxFee') {
-        const negotiatedPrice = prev.negotiatedPrice || 0;
-        const dealerFees = prev.dealerFees || 0;
-        const otherFees = prev.otherFees || 0;
-        const taxRate = prev.taxRate || 0;
-        const taxableAmount = negotiatedPrice + dealerFees + otherFees;
-        const taxAmount = (taxableAmount * taxRate) / 100 + numValue;
-        return { ...prev, flatTaxFee: numValue, tax: taxAmount };
+      // Lease buyout price is derived from the residual, remaining payments and purchase option fee
+      if (
+        prev.dealType === 'buyout' &&
+        (name === 'residualValue' || name === 'remainingLeasePayments' || name === 'leaseMonthlyPayment' || name === 'purchaseOptionFee')
+      ) {
+        const updated = { ...prev, [name]: numValue };
+        const negotiatedPrice = calculateLeaseBuyoutPrice(updated as Car);
+        return { ...updated, negotiatedPrice, tax: calculateTax({ ...updated, negotiatedPrice, tax: 0 } as Car) };
       }
-      // When negotiated price changes, recalculate tax if tax rate is set
-      if (name === 'negotiatedPrice') {
-        const dealerFees = prev.dealerFees || 0;
-        const otherFees = prev.otherFees || 0;
-        const taxRate = prev.taxRate || 0;
-        const flatTaxFee = prev.flatTaxFee || 0;
-        const taxableAmount = numValue + dealerFees + otherFees;
-        const taxAmount = (taxableAmount * taxRate) / 100 + flatTaxFee;
-        return { ...prev, negotiatedPrice: numValue, tax: taxAmount };
-      }
-      // When dealer fees change, recalculate tax (dealer fees are taxable)
-      if (name === 'dealerFees') {
-        const negotiatedPrice = prev.negotiatedPrice || 0;
-        const otherFees = prev.otherFees || 0;
-        const taxRate = prev.taxRate || 0;
-        const flatTaxFee = prev.flatTaxFee || 0;
-        const taxableAmount = negotiatedPrice + numValue + otherFees;
-        const taxAmount = (taxableAmount * taxRate) / 100 + flatTaxFee;
-        return { ...prev, dealerFees: numValue, tax: taxAmount };
-      }
-      // When other fees change, recalculate tax (other fees are taxable)
-      if (name === 'otherFees') {
-        const negotiatedPrice = prev.negotiatedPrice || 0;
-        const dealerFees = prev.dealerFees || 0;
-        const taxRate = prev.taxRate || 0;
-        const flatTaxFee = prev.flatTaxFee || 0;
-        const taxableAmount = negotiatedPrice + dealerFees + numValue;
-        const taxAmount = (taxableAmount * taxRate) / 100 + flatTaxFee;
-        return { ...prev, otherFees: numValue, tax: taxAmount };
-      }
-      // Government fees don't affect tax calculation (not taxable)
-      if (name === 'governmentFees') {
-        return { ...prev, governmentFees: numValue };
+      // Tax rate, flat tax fee, negotiated price and trade-in value all feed the tax amount (fees are handled by updateFees)
+      if (
+        name === 'taxRate' ||
+        name === 'flatTaxFee' ||
+        name === 'negotiatedPrice' ||
+        name === 'tradeInValue'
+      ) {
+        const updated = { ...prev, [name]: numValue };
+        return { ...updated, tax: calculateTax({ ...updated, tax: 0 } as Car) };
       }
       // All other numeric fields
       return { ...prev, [name]: numValue };
@@ -218,17 +299,154 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
     return stringValues[name] || '';
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const isLease = formData.dealType === 'lease';
+  const isBuyout = formData.dealType === 'buyout';
+  const isCash = formData.dealType === 'cash';
+  const taxRule = getTaxRule(formData.taxState);
+  const feeTotals = calculateFeeTotals(formData as Car);
+
+  // Fee line items feed the tax amount (taxable fees) as well as the fee totals
+  const updateFees = (update: (fees: FeeItem[]) => FeeItem[]) => {
+    setFormData((prev) => {
+      const updated = { ...prev, fees: update(prev.fees || []) };
+      return { ...updated, tax: calculateTax({ ...updated, tax: 0 } as Car) };
+    });
+  };
+
+  const handleAddFee = () => {
+    updateFees((fees) => [...fees, { name: '', amount: 0, category: 'dealer', negotiable: true, status: 'required' }]);
+  };
+
+  const handleFeeChange = (index: number, field: keyof FeeItem, value: string | boolean) => {
+    updateFees((fees) =>
+      fees.map((fee, i) => {
+        if (i !== index) return fee;
+        if (field === 'amount') return { ...fee, amount: parseFloat(value as string) || 0 };
+        return { ...fee, [field]: value };
+      })
+    );
+  };
+
+  const handleRemoveFee = (index: number) => {
+    updateFees((fees) => fees.filter((_, i) => i !== index));
+  };
+
+  // Incentives change the amount financed and (when non-taxable) the taxable amount
+  const updateIncentives = (update: (incentives: Incentive[]) => Incentive[]) => {
+    setFormData((prev) => {
+      const updated = { ...prev, incentives: update(prev.incentives || []) };
+      return { ...updated, tax: calculateTax({ ...updated, tax: 0 } as Car) };
+    });
+  };
+
+  const handleAddIncentive = () => {
+    updateIncentives((incentives) => [
+      ...incentives,
+      { name: '', type: 'rebate', amount: 0, appliedBeforeTax: true },
+    ]);
+  };
+
+  const handleIncentiveChange = (index: number, field: keyof Incentive, value: string | boolean) => {
+    updateIncentives((incentives) =>
+      incentives.map((incentive, i) => {
+        if (i !== index) return incentive;
+        if (field === 'amount') return { ...incentive, amount: parseFloat(value as string) || 0 };
+        return { ...incentive, [field]: value };
+      })
+    );
+  };
+
+  const handleRemoveIncentive = (index: number) => {
+    updateIncentives((incentives) => incentives.filter((_, i) => i !== index));
+  };
+
+  // Add-ons change the amount financed (or due at signing) and, when taxable, the taxable amount
+  const updateAddOns = (update: (addOns: AddOn[]) => AddOn[]) => {
+    setFormData((prev) => {
+      const updated = { ...prev, addOns: update(prev.addOns || []) };
+      return { ...updated, tax: calculateTax({ ...updated, tax: 0 } as Car) };
+    });
+  };
+
+  const handleAddAddOn = () => {
+    updateAddOns((addOns) => [
+      ...addOns,
+      { name: '', type: 'serviceContract', price: 0, taxable: false, financed: true, cancellable: true },
+    ]);
+  };
+
+  const handleAddOnChange = (index: number, field: keyof AddOn, value: string | boolean) => {
+    updateAddOns((addOns) =>
+      addOns.map((addOn, i) => {
+        if (i !== index) return addOn;
+        if (field === 'price') return { ...addOn, price: parseFloat(value as string) || 0 };
+        if (field === 'termMonths' || field === 'coverageMiles') return { ...addOn, [field]: parseInt(value as string) || undefined };
+        return { ...addOn, [field]: value };
+      })
+    );
+  };
+
+  const handleRemoveAddOn = (index: number) => {
+    updateAddOns((addOns) => addOns.filter((_, i) => i !== index));
+  };
+
+  // Lump-sum prepayments are edited as a list of { month, amount } rows
+  const handleAddLumpSum = () => {
+    setFormData((prev) => ({
+      ...prev,
+      lumpSumPayments: [...(prev.lumpSumPayments || []), { month: 12, amount: 0 }],
+    }));
+  };
+
+  const handleLumpSumChange = (index: number, field: 'month' | 'amount', value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      lumpSumPayments: (prev.lumpSumPayments || []).map((lumpSum, i) =>
+        i === index ? { ...lumpSum, [field]: parseFloat(value) || 0 } : lumpSum
+      ),
+    }));
+  };
+
+  const handleRemoveLumpSum = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      lumpSumPayments: (prev.lumpSumPayments || []).filter((_, i) => i !== index),
+    }));
+  };
+
+  const handleAddPaymentTiming = () => {
+    setFormData((prev) => ({
+      ...prev,
+      paymentTimings: [...(prev.paymentTimings || []), { month: 1, daysLate: 0 }],
+    }));
+  };
+
+  const handlePaymentTimingChange = (index: number, field: keyof PaymentTiming, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      paymentTimings: (prev.paymentTimings || []).map((timing, i) =>
+        i === index ? { ...timing, [field]: parseInt(value) || 0 } : timing
+      ),
+    }));
+  };
+
+  const handleRemovePaymentTiming = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      paymentTimings: (prev.paymentTimings || []).filter((_, i) => i !== index),
+    }));
+  };
+
+  const handlePaidUpfrontChange = (component: UpfrontCostComponent, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      paidUpfront: { ...prev.paidUpfront, [component]: checked },
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
       // Parse all string values to numbers
-    const negotiatedPrice = parseFloat(stringValues.negotiatedPrice) || 0;
-    const dealerFees = parseFloat(stringValues.dealerFees) || 0;
-    const otherFees = parseFloat(stringValues.otherFees) || 0;
-    const taxRate = parseFloat(stringValues.taxRate) || 0;
-    const flatTaxFee = parseFloat(stringValues.flatTaxFee) || 0;
-    const taxableAmount = negotiatedPrice + dealerFees + otherFees;
-    const calculatedTax = (taxableAmount * taxRate) / 100 + flatTaxFee;
-    
     const carToSave: Car = {
       id: car?.id || '',
       make: formData.make || '',
@@ -237,28 +455,135 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
       dealership: formData.dealership || '',
       vin: formData.vin || '',
       listedPrice: parseFloat(stringValues.listedPrice) || 0,
-      negotiatedPrice: negotiatedPrice,
+      negotiatedPrice: parseFloat(stringValues.negotiatedPrice) || 0,
       apr: parseFloat(stringValues.apr) / 100 || 0,
       buyRateApr: parseFloat(stringValues.buyRateApr) / 100 || 0,
+      quotedPayment: parseFloat(stringValues.quotedPayment) || 0,
       termLength: parseFloat(stringValues.termLength) || 0,
       notes: formData.notes || '',
-      taxRate: taxRate,
-      flatTaxFee: flatTaxFee,
-      tax: calculatedTax,
+      taxRate: parseFloat(stringValues.taxRate) || 0,
+      flatTaxFee: parseFloat(stringValues.flatTaxFee) || 0,
+      taxState: formData.taxState || '',
+      tax: 0,
       creditScore: parseFloat(stringValues.creditScore) || 0,
       mileage: parseFloat(stringValues.mileage) || 0,
       year: parseFloat(stringValues.year) || new Date().getFullYear(),
       downPayment: parseFloat(stringValues.downPayment) || 0,
-      dealerFees: parseFloat(stringValues.dealerFees) || 0,
-      governmentFees: parseFloat(stringValues.governmentFees) || 0,
-      otherFees: parseFloat(stringValues.otherFees) || 0,
+      fees: (formData.fees || []).filter((fee) => fee.amount > 0),
+      tradeInValue: parseFloat(stringValues.tradeInValue) || 0,
+      tradeInPayoff: parseFloat(stringValues.tradeInPayoff) || 0,
+      tradeInTaxCredit: formData.tradeInTaxCredit || false,
+      incentives: (formData.incentives || []).filter((incentive) => incentive.amount > 0),
+      addOns: (formData.addOns || []).filter((addOn) => addOn.price > 0),
+      paidUpfront: Object.values(formData.paidUpfront || {}).some(Boolean) ? formData.paidUpfront : undefined,
+      tco: formData.tco && Object.keys(formData.tco).length > 0 ? formData.tco : undefined,
+      dealType: formData.dealType || 'purchase',
+      moneyFactor: parseFloat(stringValues.moneyFactor) || 0,
+      residualPercent: parseFloat(stringValues.residualPercent) || 0,
+      residualValue: parseFloat(stringValues.residualValue) || 0,
+      acquisitionFee: parseFloat(stringValues.acquisitionFee) || 0,
+      dispositionFee: parseFloat(stringValues.dispositionFee) || 0,
+      annualMileageAllowance: parseFloat(stringValues.annualMileageAllowance) || 0,
+      excessMileageCharge: parseFloat(stringValues.excessMileageCharge) || 0,
+      remainingLeasePayments: parseFloat(stringValues.remainingLeasePayments) || 0,
+      leaseMonthlyPayment: parseFloat(stringValues.leaseMonthlyPayment) || 0,
+      purchaseOptionFee: parseFloat(stringValues.purchaseOptionFee) || 0,
+      thirdPartyOffer: parseFloat(stringValues.thirdPartyOffer) || 0,
+      turnInCharges: parseFloat(stringValues.turnInCharges) || 0,
+      extraMonthlyPayment: parseFloat(stringValues.extraMonthlyPayment) || 0,
+      lumpSumPayments: (formData.lumpSumPayments || []).filter((lumpSum) => lumpSum.month > 0 && lumpSum.amount > 0),
+      roundUpPaymentTo: parseFloat(stringValues.roundUpPaymentTo) || 0,
+      refinanceMonth: parseFloat(stringValues.refinanceMonth) || 0,
+      refinanceApr: stringValues.refinanceApr ? parseFloat(stringValues.refinanceApr) / 100 || 0 : undefined,
+      refinanceTerm: parseFloat(stringValues.refinanceTerm) || 0,
+      refinanceFees: parseFloat(stringValues.refinanceFees) || 0,
+      refinanceFeesFinanced: formData.refinanceFeesFinanced || false,
+      gapPrice: parseFloat(stringValues.gapPrice) || 0,
+      balloonPayment: parseFloat(stringValues.balloonPayment) || 0,
+      firstPaymentDeferralDays: parseInt(stringValues.firstPaymentDeferralDays) || 0,
+      interestMethod: formData.interestMethod || 'monthly',
+      contractDate: formData.contractDate || undefined,
+      firstPaymentDate: formData.firstPaymentDate || undefined,
+      paymentTimings: (formData.paymentTimings || []).filter((timing) => timing.month > 0 && timing.daysLate !== 0),
       repName: formData.repName || '',
       repPhone: formData.repPhone || '',
     };
-    carStorage.saveCar(carToSave);
+    if (carToSave.dealType === 'buyout') {
+      carToSave.negotiatedPrice = calculateLeaseBuyoutPrice(carToSave);
+    }
+    carToSave.tax = calculateTax(carToSave);
+    await carStorage.saveCar(carToSave);
     onSave();
   };
 
+  // Merges an imported car into the saved ones the same way Import All does; a car matching a saved one by id or VIN
+  // goes through the merge preview instead of overwriting it
+  const mergeImportedCar = async (importedCar: Car) => {
+    const savedCars = await carStorage.getAllCars();
+    const plan = planCarMerge(savedCars, [importedCar]);
+    if (plan.conflicts.length > 0) {
+      setPendingMerge(plan);
+      return;
+    }
+    if (plan.added.length > 0) {
+      await carStorage.saveCars(plan.added);
+      loadImportedCar(importedCar);
+    } else {
+      // Already saved as-is; load the saved copy so edits keep its id
+      const vin = importedCar.vin?.trim().toUpperCase();
+      loadImportedCar(
+        savedCars.find((c) => c.id === importedCar.id) ||
+          savedCars.find((c) => vin && c.vin?.trim().toUpperCase() === vin) ||
+          importedCar
+      );
+    }
+  };
+
+  // Loads the imported car (or the saved car it was merged into) into the form
+  const loadImportedCar = (importedCar: Car) => {
+    setFormData(importedCar);
+    // Initialize string values from imported car
+    setStringValues({
+      vin: importedCar.vin || '',
+      listedPrice: importedCar.listedPrice ? importedCar.listedPrice.toString() : '',
+      negotiatedPrice: importedCar.negotiatedPrice ? importedCar.negotiatedPrice.toString() : '',
+      apr: importedCar.apr ? (importedCar.apr * 100).toString() : '',
+      buyRateApr: importedCar.buyRateApr ? (importedCar.buyRateApr * 100).toString() : '',
+      quotedPayment: importedCar.quotedPayment ? importedCar.quotedPayment.toString() : '',
+      termLength: importedCar.termLength ? importedCar.termLength.toString() : '',
+      taxRate: importedCar.taxRate ? importedCar.taxRate.toString() : '',
+      flatTaxFee: importedCar.flatTaxFee ? importedCar.flatTaxFee.toString() : '',
+      creditScore: importedCar.creditScore ? importedCar.creditScore.toString() : '',
+      mileage: importedCar.mileage ? importedCar.mileage.toString() : '',
+      year: importedCar.year ? importedCar.year.toString() : new Date().getFullYear().toString(),
+      downPayment: importedCar.downPayment ? importedCar.downPayment.toString() : '',
+      tradeInValue: importedCar.tradeInValue ? importedCar.tradeInValue.toString() : '',
+      tradeInPayoff: importedCar.tradeInPayoff ? importedCar.tradeInPayoff.toString() : '',
+      moneyFactor: importedCar.moneyFactor ? importedCar.moneyFactor.toString() : '',
+      residualPercent: importedCar.residualPercent ? importedCar.residualPercent.toString() : '',
+      residualValue: importedCar.residualValue ? importedCar.residualValue.toString() : '',
+      acquisitionFee: importedCar.acquisitionFee ? importedCar.acquisitionFee.toString() : '',
+      dispositionFee: importedCar.dispositionFee ? importedCar.dispositionFee.toString() : '',
+      annualMileageAllowance: importedCar.annualMileageAllowance ? importedCar.annualMileageAllowance.toString() : '',
+      excessMileageCharge: importedCar.excessMileageCharge ? importedCar.excessMileageCharge.toString() : '',
+      remainingLeasePayments: importedCar.remainingLeasePayments ? importedCar.remainingLeasePayments.toString() : '',
+      leaseMonthlyPayment: importedCar.leaseMonthlyPayment ? importedCar.leaseMonthlyPayment.toString() : '',
+      purchaseOptionFee: importedCar.purchaseOptionFee ? importedCar.purchaseOptionFee.toString() : '',
+      thirdPartyOffer: importedCar.thirdPartyOffer ? importedCar.thirdPartyOffer.toString() : '',
+      turnInCharges: importedCar.turnInCharges ? importedCar.turnInCharges.toString() : '',
+      extraMonthlyPayment: importedCar.extraMonthlyPayment ? importedCar.extraMonthlyPayment.toString() : '',
+      roundUpPaymentTo: importedCar.roundUpPaymentTo ? importedCar.roundUpPaymentTo.toString() : '',
+      gapPrice: importedCar.gapPrice ? importedCar.gapPrice.toString() : '',
+      balloonPayment: importedCar.balloonPayment ? importedCar.balloonPayment.toString() : '',
+      firstPaymentDeferralDays: importedCar.firstPaymentDeferralDays ? importedCar.firstPaymentDeferralDays.toString() : '',
+      refinanceMonth: importedCar.refinanceMonth ? importedCar.refinanceMonth.toString() : '',
+      refinanceApr: importedCar.refinanceApr !== undefined ? (importedCar.refinanceApr * 100).toString() : '',
+      refinanceTerm: importedCar.refinanceTerm ? importedCar.refinanceTerm.toString() : '',
+      refinanceFees: importedCar.refinanceFees ? importedCar.refinanceFees.toString() : '',
+      ...getTcoStringValues(importedCar.tco),
+    });
+  };
+
   const handleImportJSON = () => {
     const input = document.createElement('input');
     input.type = 'file';
@@ -267,29 +592,15 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
         const reader = new FileReader();
-        reader.onload = (event) => {
+        reader.onload = async (event) => {
           try {
             const json = event.target?.result as string;
-            const importedCar = carStorage.importCar(json);
-            setFormData(importedCar);
-            // Initialize string values from imported car
-            setStringValues({
-              vin: importedCar.vin || '',
-              listedPrice: importedCar.listedPrice ? importedCar.listedPrice.toString() : '',
-              negotiatedPrice: importedCar.negotiatedPrice ? importedCar.negotiatedPrice.toString() : '',
-              apr: importedCar.apr ? (importedCar.apr * 100).toString() : '',
-              buyRateApr: importedCar.buyRateApr ? (importedCar.buyRateApr * 100).toString() : '',
-              termLength: importedCar.termLength ? importedCar.termLength.toString() : '',
-              taxRate: importedCar.taxRate ? importedCar.taxRate.toString() : '',
-              flatTaxFee: importedCar.flatTaxFee ? importedCar.flatTaxFee.toString() : '',
-              creditScore: importedCar.creditScore ? importedCar.creditScore.toString() : '',
-              mileage: importedCar.mileage ? importedCar.mileage.toString() : '',
-              year: importedCar.year ? importedCar.year.toString() : new Date().getFullYear().toString(),
-              downPayment: importedCar.downPayment ? importedCar.downPayment.toString() : '',
-              dealerFees: importedCar.dealerFees ? importedCar.dealerFees.toString() : '',
-              governmentFees: importedCar.governmentFees ? importedCar.governmentFees.toString() : '',
-              otherFees: importedCar.otherFees ? importedCar.otherFees.toString() : '',
-            });
+            const reviews = reviewRecords('car', [carStorage.parseCarImport(json)], validateCar, describeCar);
+            if (reviews.some(needsReview)) {
+              setPendingValidation(reviews);
+            } else {
+              await mergeImportedCar(reviews[0].corrected.value);
+            }
           } catch (error) {
             alert('Error importing car: ' + (error as Error).message);
           }
@@ -300,13 +611,13 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
     input.click();
   };
 
-  const handleExportJSON = () => {
+  const handleExportJSON = async () => {
     if (!car?.id) {
       alert('Please save the car first before exporting');
       return;
     }
     try {
-      const json = carStorage.exportCar(car.id);
+      const json = await carStorage.exportCar(car.id);
       const blob = new Blob([json], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -529,9 +840,25 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
                   </p>
                 )}
               </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                  Deal Type
+                </label>
+                <select
+                  name="dealType"
+                  value={formData.dealType || 'purchase'}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                >
+                  <option value="purchase">Purchase (Loan)</option>
+                  <option value="lease">Lease</option>
+                  <option value="buyout">Lease Buyout</option>
+                  <option value="cash">Cash Purchase</option>
+                </select>
+              </div>
               <div>
                 <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
-                  Listed Price
+                  {isBuyout ? 'Market Value' : 'Listed Price'}
                 </label>
                 <input
                   type="text"
@@ -543,7 +870,9 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
                 />
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  Enter listed/advertised price (MSRP for new cars, market price for used)
+                  {isBuyout
+                    ? 'What the car is worth today (e.g., dealer appraisal or KBB value)'
+                    : 'Enter listed/advertised price (MSRP for new cars, market price for used)'}
                 </p>
               </div>
               <div>
@@ -553,33 +882,274 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
                 <input
                   type="text"
                   name="negotiatedPrice"
-                  value={getStringValue('negotiatedPrice')}
+                  value={isBuyout ? (formData.negotiatedPrice || 0).toFixed(2) : getStringValue('negotiatedPrice')}
                   onChange={handleChange}
+                  readOnly={isBuyout}
                   required
                   placeholder="What you're actually paying"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white read-only:bg-gray-100 dark:read-only:bg-gray-600"
                 />
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  The price you negotiated or are paying
-                </p>
-              </div>
-              <div>
-                <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
-                  APR (%) - Sell Rate
-                </label>
-                <input
-                  type="text"
-                  name="apr"
-                  value={getStringValue('apr')}
-                  onChange={handleChange}
-                  required
-                  placeholder="e.g., 2.5 for 2.5%"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-                />
-                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  The APR the dealer is charging you
+                  {isBuyout
+                    ? 'Buyout price: Residual + Remaining Payments + Purchase Option Fee'
+                    : 'The price you negotiated or are paying'}
                 </p>
               </div>
+              {isLease ? (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                      Money Factor
+                    </label>
+                    <input
+                      type="text"
+                      name="moneyFactor"
+                      value={getStringValue('moneyFactor')}
+                      onChange={handleChange}
+                      required
+                      placeholder="e.g., 0.00125"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {(parseFloat(getStringValue('moneyFactor')) || 0) > 0
+                        ? `Equivalent APR: ${((parseFloat(getStringValue('moneyFactor')) || 0) * 2400).toFixed(2)}%`
+                        : 'Multiply by 2400 to get the equivalent APR'}
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                      Residual (%)
+                    </label>
+                    <input
+                      type="text"
+                      name="residualPercent"
+                      value={getStringValue('residualPercent')}
+                      onChange={handleChange}
+                      placeholder="e.g., 58 for 58%"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Percentage of listed price/MSRP the car is worth at lease end
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                      Residual Value ($) - Optional
+                    </label>
+                    <input
+                      type="text"
+                      name="residualValue"
+                      value={getStringValue('residualValue')}
+                      onChange={handleChange}
+                      placeholder="e.g., 29788"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Overrides the residual percentage when set
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                      Acquisition Fee ($)
+                    </label>
+                    <input
+                      type="text"
+                      name="acquisitionFee"
+                      value={getStringValue('acquisitionFee')}
+                      onChange={handleChange}
+                      placeholder="e.g., 695"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Bank fee, capitalized into the lease
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                      Disposition Fee ($)
+                    </label>
+                    <input
+                      type="text"
+                      name="dispositionFee"
+                      value={getStringValue('dispositionFee')}
+                      onChange={handleChange}
+                      placeholder="e.g., 395"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Due at lease end if you turn the car in
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                      Annual Mileage Allowance
+                    </label>
+                    <input
+                      type="text"
+                      name="annualMileageAllowance"
+                      value={getStringValue('annualMileageAllowance')}
+                      onChange={handleChange}
+                      placeholder="e.g., 10000"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Miles per year included in the lease
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                      Excess Mileage Charge ($/mile)
+                    </label>
+                    <input
+                      type="text"
+                      name="excessMileageCharge"
+                      value={getStringValue('excessMileageCharge')}
+                      onChange={handleChange}
+                      placeholder="e.g., 0.25"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Charged for each mile over the allowance
+                    </p>
+                  </div>
+                </>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                    {isCash ? 'APR (%) - If Financed Instead' : 'APR (%) - Sell Rate'}
+                  </label>
+                  <input
+                    type="text"
+                    name="apr"
+                    value={getStringValue('apr')}
+                    onChange={handleChange}
+                    required={!isCash}
+                    placeholder="e.g., 2.5 for 2.5%"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {isCash
+                      ? 'Financing offer to weigh against paying cash'
+                      : 'The APR the dealer is charging you'}
+                  </p>
+                </div>
+              )}
+              {isBuyout && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                      Residual Value ($)
+                    </label>
+                    <input
+                      type="text"
+                      name="residualValue"
+                      value={getStringValue('residualValue')}
+                      onChange={handleChange}
+                      placeholder="e.g., 29788"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Purchase price set in your lease contract
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                      Remaining Lease Payments
+                    </label>
+                    <input
+                      type="text"
+                      name="remainingLeasePayments"
+                      value={getStringValue('remainingLeasePayments')}
+                      onChange={handleChange}
+                      placeholder="e.g., 5"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Number of lease payments you still owe
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                      Lease Monthly Payment ($)
+                    </label>
+                    <input
+                      type="text"
+                      name="leaseMonthlyPayment"
+                      value={getStringValue('leaseMonthlyPayment')}
+                      onChange={handleChange}
+                      placeholder="e.g., 619.95"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Your current lease payment, including tax
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                      Purchase Option Fee ($)
+                    </label>
+                    <input
+                      type="text"
+                      name="purchaseOptionFee"
+                      value={getStringValue('purchaseOptionFee')}
+                      onChange={handleChange}
+                      placeholder="e.g., 300"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Lessor fee charged when you buy the car
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                      Disposition Fee ($)
+                    </label>
+                    <input
+                      type="text"
+                      name="dispositionFee"
+                      value={getStringValue('dispositionFee')}
+                      onChange={handleChange}
+                      placeholder="e.g., 395"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Charged if you turn the car in instead
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                      Turn-In Charges ($) - Optional
+                    </label>
+                    <input
+                      type="text"
+                      name="turnInCharges"
+                      value={getStringValue('turnInCharges')}
+                      onChange={handleChange}
+                      placeholder="e.g., 500"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Estimated excess mileage and wear-and-tear charges at turn-in
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                      Third-Party Dealer Offer ($) - Optional
+                    </label>
+                    <input
+                      type="text"
+                      name="thirdPartyOffer"
+                      value={getStringValue('thirdPartyOffer')}
+                      onChange={handleChange}
+                      placeholder="e.g., 33500"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      What another dealer (CarMax, Carvana, etc.) would pay; defaults to market value
+                    </p>
+                  </div>
+                </>
+              )}
               <div className="col-span-2">
                 <blockquote className="border-l-4 border-blue-500 dark:border-blue-400 pl-4 py-2 my-4 bg-blue-50 dark:bg-blue-900/20 rounded-r-lg">
                   <p className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
@@ -605,149 +1175,207 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
                   </blockquote>
                 )}
               </div>
-              <div>
-                <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
-                  Dealer Fees ($) - Optional
-                </label>
-                <input
-                  type="text"
-                  name="dealerFees"
-                  value={getStringValue('dealerFees')}
-                  onChange={handleChange}
-                  placeholder={`e.g., ${FLORIDA_FEE_RANGES.dealerFees.typical}`}
-                  className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white ${
-                    (parseFloat(getStringValue('dealerFees')) || 0) > FLORIDA_FEE_RANGES.dealerFees.recommendedMax
-                      ? 'border-red-500 dark:border-red-500'
-                      : (parseFloat(getStringValue('dealerFees')) || 0) > FLORIDA_FEE_RANGES.dealerFees.typical
-                      ? 'border-yellow-500 dark:border-yellow-500'
-                      : 'border-gray-300'
-                  }`}
-                />
-                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  <strong>Examples:</strong> Dealer Service Fee, Pre-Delivery Service Charge, Documentation Fee, Electronic Filing Fee
-                </p>
-                <p className={`text-xs mt-1 ${
-                  (parseFloat(getStringValue('dealerFees')) || 0) > FLORIDA_FEE_RANGES.dealerFees.recommendedMax
-                    ? 'text-red-600 dark:text-red-400 font-semibold'
-                    : (parseFloat(getStringValue('dealerFees')) || 0) > FLORIDA_FEE_RANGES.dealerFees.typical
-                    ? 'text-yellow-600 dark:text-yellow-400'
-                    : 'text-gray-600 dark:text-gray-400'
-                }`}>
-                  {((parseFloat(getStringValue('dealerFees')) || 0) > FLORIDA_FEE_RANGES.dealerFees.recommendedMax) 
-                    ? `⚠️ High: $${(parseFloat(getStringValue('dealerFees')) || 0).toFixed(2)} exceeds recommended max of $${FLORIDA_FEE_RANGES.dealerFees.recommendedMax.toFixed(2)}`
-                    : `Recommended: Should not exceed $${FLORIDA_FEE_RANGES.dealerFees.recommendedMax.toFixed(2)} (Typical: $${FLORIDA_FEE_RANGES.dealerFees.typical.toFixed(2)})`
-                  }
-                </p>
-                <p className="text-xs text-green-600 dark:text-green-400 mt-1 font-semibold">
-                  ✓ Negotiable - Can be waived or reduced
-                </p>
-              </div>
-              <div>
-                <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
-                  Government Fees ($) - Optional
-                </label>
-                <input
-                  type="text"
-                  name="governmentFees"
-                  value={getStringValue('governmentFees')}
-                  onChange={handleChange}
-                  placeholder={`e.g., ${FLORIDA_FEE_RANGES.governmentFees.typical}`}
-                  className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white ${
-                    (parseFloat(getStringValue('governmentFees')) || 0) > FLORIDA_FEE_RANGES.governmentFees.recommendedMax
-                      ? 'border-red-500 dark:border-red-500'
-                      : (parseFloat(getStringValue('governmentFees')) || 0) > FLORIDA_FEE_RANGES.governmentFees.typical
-                      ? 'border-yellow-500 dark:border-yellow-500'
-                      : 'border-gray-300'
-                  }`}
-                />
-                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  <strong>Examples:</strong> DMV Fees, License Fees, Registration Fees, Title Transfer Fees, FL Doc. Stamp
-                </p>
-                <p className={`text-xs mt-1 ${
-                  (parseFloat(getStringValue('governmentFees')) || 0) > FLORIDA_FEE_RANGES.governmentFees.recommendedMax
-                    ? 'text-red-600 dark:text-red-400 font-semibold'
-                    : (parseFloat(getStringValue('governmentFees')) || 0) > FLORIDA_FEE_RANGES.governmentFees.typical
-                    ? 'text-yellow-600 dark:text-yellow-400'
-                    : 'text-gray-600 dark:text-gray-400'
-                }`}>
-                  {((parseFloat(getStringValue('governmentFees')) || 0) > FLORIDA_FEE_RANGES.governmentFees.recommendedMax) 
-                    ? `⚠️ High: $${(parseFloat(getStringValue('governmentFees')) || 0).toFixed(2)} exceeds recommended max of $${FLORIDA_FEE_RANGES.governmentFees.recommendedMax.toFixed(2)}`
-                    : `Recommended: Should not exceed $${FLORIDA_FEE_RANGES.governmentFees.recommendedMax.toFixed(2)} (Typical: $${FLORIDA_FEE_RANGES.governmentFees.typical.toFixed(2)})`
-                  }
-                </p>
-                <p className="text-xs text-orange-600 dark:text-orange-400 mt-1">
-                  ⚠ Usually mandatory (government fee)
-                </p>
-              </div>
-              <div>
+              <div className="md:col-span-2">
                 <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
-                  Other Fees ($) - Optional
+                  Fees - Optional
                 </label>
-                <input
-                  type="text"
-                  name="otherFees"
-                  value={getStringValue('otherFees')}
-                  onChange={handleChange}
-                  placeholder={`e.g., ${FLORIDA_FEE_RANGES.otherFees.typical}`}
-                  className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white ${
-                    (parseFloat(getStringValue('otherFees')) || 0) > FLORIDA_FEE_RANGES.otherFees.recommendedMax
-                      ? 'border-red-500 dark:border-red-500'
-                      : (parseFloat(getStringValue('otherFees')) || 0) > FLORIDA_FEE_RANGES.otherFees.typical
-                      ? 'border-yellow-500 dark:border-yellow-500'
-                      : 'border-gray-300'
-                  }`}
-                />
-                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  <strong>Examples:</strong> VIN Etch ($359), Battery Fee ($1.50), Tire Fee ($5), Agency Fee ($99)
-                </p>
-                <p className={`text-xs mt-1 ${
-                  (parseFloat(getStringValue('otherFees')) || 0) > FLORIDA_FEE_RANGES.otherFees.recommendedMax
-                    ? 'text-red-600 dark:text-red-400 font-semibold'
-                    : (parseFloat(getStringValue('otherFees')) || 0) > FLORIDA_FEE_RANGES.otherFees.typical
-                    ? 'text-yellow-600 dark:text-yellow-400'
-                    : 'text-gray-600 dark:text-gray-400'
-                }`}>
-                  {((parseFloat(getStringValue('otherFees')) || 0) > FLORIDA_FEE_RANGES.otherFees.recommendedMax) 
-                    ? `⚠️ High: $${(parseFloat(getStringValue('otherFees')) || 0).toFixed(2)} exceeds recommended max of $${FLORIDA_FEE_RANGES.otherFees.recommendedMax.toFixed(2)}`
-                    : `Recommended: Should not exceed $${FLORIDA_FEE_RANGES.otherFees.recommendedMax.toFixed(2)} (Typical: $${FLORIDA_FEE_RANGES.otherFees.typical.toFixed(2)})`
-                  }
-                </p>
-                <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
-                  Depends on fee type - some negotiable, some mandatory
-                </p>
-              </div>
-              <div>
-                <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
-                  Buy Rate APR (%) - Optional (If you have outside financing)
-                </label>
-                <input
-                  type="text"
-                  name="buyRateApr"
-                  value={getStringValue('buyRateApr')}
-                  onChange={handleChange}
-                  placeholder="e.g., 2.0 for 2.0%"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-                />
-                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  Your pre-approved APR from bank/credit union (to compare against dealer financing)
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                  Itemize each fee from the buyer&apos;s order; mark add-ons you declined as refused so they drop out of the totals
                 </p>
+                {(formData.fees || []).map((fee, index) => (
+                  <div key={index} className="mb-3 p-2 border border-gray-200 dark:border-gray-700 rounded-lg">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <input
+                        type="text"
+                        value={fee.name}
+                        onChange={(e) => handleFeeChange(index, 'name', e.target.value)}
+                        placeholder="e.g., Documentation Fee"
+                        className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                      <select
+                        value={fee.category}
+                        onChange={(e) => handleFeeChange(index, 'category', e.target.value as FeeCategory)}
+                        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      >
+                        <option value="dealer">Dealer</option>
+                        <option value="government">Government</option>
+                        <option value="other">Other / Add-on</option>
+                      </select>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={fee.amount || ''}
+                        onChange={(e) => handleFeeChange(index, 'amount', e.target.value)}
+                        placeholder="Amount"
+                        className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                      <select
+                        value={fee.status}
+                        onChange={(e) => handleFeeChange(index, 'status', e.target.value as FeeStatus)}
+                        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      >
+                        <option value="required">Required</option>
+                        <option value="optional">Optional</option>
+                        <option value="refused">Refused</option>
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveFee(index)}
+                        className="px-2 py-1 text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap gap-4 mt-2">
+                      <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={isFeeTaxable(fee, taxRule)}
+                          onChange={(e) => handleFeeChange(index, 'taxable', e.target.checked)}
+                          className="rounded border-gray-300 dark:border-gray-600"
+                        />
+                        Taxable ({taxRule.name} default: {taxRule.taxableFees[fee.category] ? 'yes' : 'no'})
+                      </label>
+                      <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={fee.negotiable}
+                          onChange={(e) => handleFeeChange(index, 'negotiable', e.target.checked)}
+                          className="rounded border-gray-300 dark:border-gray-600"
+                        />
+                        Negotiable
+                      </label>
+                    </div>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={handleAddFee}
+                  className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+                >
+                  + Add Fee
+                </button>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-3">
+                  {(
+                    [
+                      ['dealerFees', 'Dealer Fees'],
+                      ['governmentFees', 'Government Fees'],
+                      ['otherFees', 'Other Fees'],
+                    ] as const
+                  ).map(([key, label]) => {
+                    const total = feeTotals[key];
+                    const range = FLORIDA_FEE_RANGES[key];
+                    return (
+                      <div key={key}>
+                        <div className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                          {label}: ${total.toFixed(2)}
+                        </div>
+                        <p className={`text-xs mt-1 ${
+                          total > range.recommendedMax
+                            ? 'text-red-600 dark:text-red-400 font-semibold'
+                            : total > range.typical
+                            ? 'text-yellow-600 dark:text-yellow-400'
+                            : 'text-gray-600 dark:text-gray-400'
+                        }`}>
+                          {total > range.recommendedMax
+                            ? `⚠️ High: exceeds recommended max of $${range.recommendedMax.toFixed(2)}`
+                            : `Recommended: Should not exceed $${range.recommendedMax.toFixed(2)} (Typical: $${range.typical.toFixed(2)})`}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+                {feeTotals.refusedFees > 0 && (
+                  <p className="text-xs text-green-600 dark:text-green-400 mt-2 font-semibold">
+                    ✓ ${feeTotals.refusedFees.toFixed(2)} in refused fees left out of the totals
+                  </p>
+                )}
               </div>
+              {!isLease && !isCash && (
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                    Paid at Signing (not financed)
+                  </label>
+                  <div className="flex flex-wrap gap-4">
+                    {(
+                      [
+                        ['tax', 'Tax'],
+                        ['dealerFees', 'Dealer Fees'],
+                        ['governmentFees', 'Government Fees'],
+                        ['otherFees', 'Other Fees / Add-ons'],
+                      ] as const
+                    ).map(([component, label]) => (
+                      <label key={component} className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={formData.paidUpfront?.[component] || false}
+                          onChange={(e) => handlePaidUpfrontChange(component, e.target.checked)}
+                          className="rounded border-gray-300 dark:border-gray-600"
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Checked costs are paid in cash at signing with the down payment; unchecked costs are rolled into the loan
+                  </p>
+                </div>
+              )}
+              {!isLease && !isCash && (
+                <div>
+                  <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                    Buy Rate APR (%) - Optional (If you have outside financing)
+                  </label>
+                  <input
+                    type="text"
+                    name="buyRateApr"
+                    value={getStringValue('buyRateApr')}
+                    onChange={handleChange}
+                    placeholder="e.g., 2.0 for 2.0%"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Your pre-approved APR from bank/credit union (to compare against dealer financing)
+                  </p>
+                </div>
+              )}
+              {!isLease && !isCash && (
+                <div>
+                  <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                    Dealer-Quoted Payment ($) - Optional
+                  </label>
+                  <input
+                    type="text"
+                    name="quotedPayment"
+                    value={getStringValue('quotedPayment')}
+                    onChange={handleChange}
+                    placeholder="e.g., 589"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Monthly payment the dealer quoted; checked for an implied APR and hidden add-ons
+                  </p>
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
-                  Term Length (months)
+                  {isCash ? 'Term Length (months) - If Financed Instead' : 'Term Length (months)'}
                 </label>
                 <select
                   name="termLength"
                   value={getStringValue('termLength')}
                   onChange={handleChange}
-                  required
+                  required={!isCash}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
                 >
                   <option value="">Select term length</option>
+                  {isLease && <option value="24">24 months (2 years)</option>}
                   <option value="36">36 months (3 years)</option>
+                  {isLease && <option value="39">39 months</option>}
                   <option value="48">48 months (4 years)</option>
-                  <option value="60">60 months (5 years)</option>
-                  <option value="72">72 months (6 years)</option>
+                  {!isLease && <option value="60">60 months (5 years)</option>}
+                  {!isLease && <option value="72">72 months (6 years)</option>}
                 </select>
               </div>
               <div>
@@ -763,7 +1391,7 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
                 />
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  Percentage tax rate (e.g., 6% in Florida)
+                  Combined state + local rate (e.g., 7% = 6% Florida + 1% county surtax)
                 </p>
               </div>
               <div>
@@ -783,18 +1411,45 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
                 </p>
                 {formData.taxRate && formData.taxRate > 0 && formData.negotiatedPrice && formData.negotiatedPrice > 0 && (
                   <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                    Total tax: ${(((formData.negotiatedPrice + (formData.dealerFees || 0) + (formData.otherFees || 0)) * formData.taxRate) / 100 + (formData.flatTaxFee || 0)).toFixed(2)}
+                    Total tax: ${calculateTax({ ...formData, tax: 0 } as Car).toFixed(2)}
                     {formData.flatTaxFee && formData.flatTaxFee > 0 && (
                       <span className="ml-1">
-                        ({((formData.negotiatedPrice + (formData.dealerFees || 0) + (formData.otherFees || 0)) * formData.taxRate / 100).toFixed(2)} + {formData.flatTaxFee.toFixed(2)})
+                        ({(calculateTax({ ...formData, tax: 0 } as Car) - formData.flatTaxFee).toFixed(2)} + {formData.flatTaxFee.toFixed(2)})
                       </span>
                     )}
                     <span className="block mt-1 text-[10px]">
-                      (Tax on: Negotiated Price + Dealer Fees + Other Fees; Government fees are not taxable)
+                      (Tax on: {describeTaxableAmount(taxRule, [
+                        ...((formData.tradeInTaxCredit ?? taxRule.tradeInCredit) && (formData.tradeInValue || 0) > 0 ? ['Trade-In Value'] : []),
+                        ...(!taxRule.adValorem && (formData.incentives || []).some((incentive) => !isIncentiveTaxable(incentive, taxRule) && incentive.appliedBeforeTax && incentive.amount > 0) ? ['Non-Taxable Incentives'] : []),
+                      ])})
                     </span>
                   </p>
                 )}
               </div>
+              <div>
+                <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                  Tax State
+                </label>
+                <select
+                  name="taxState"
+                  value={formData.taxState || ''}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                >
+                  <option value="">Other / not listed (default rules)</option>
+                  {formData.taxState && !STATE_TAX_RULES[formData.taxState] && (
+                    <option value={formData.taxState}>{formData.taxState} (default rules)</option>
+                  )}
+                  {Object.values(STATE_TAX_RULES).map((rule) => (
+                    <option key={rule.state} value={rule.state}>
+                      {rule.name} ({rule.state})
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {taxRule.notes || 'Decides which fees are taxable, the trade-in credit and rebate taxability'}
+                </p>
+              </div>
               <div>
                 <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
                   Credit Score (FICO Auto Score 8)
@@ -833,7 +1488,11 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
               </div>
               <div>
                 <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
-                  Down Payment
+                  {isLease
+                    ? 'Down Payment (Cap Cost Reduction)'
+                    : isCash
+                      ? 'Down Payment (If Financed Instead)'
+                      : 'Down Payment'}
                 </label>
                 <input
                   type="text"
@@ -844,6 +1503,590 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                  Trade-In Value ($) - Optional
+                </label>
+                <input
+                  type="text"
+                  name="tradeInValue"
+                  value={getStringValue('tradeInValue')}
+                  onChange={handleChange}
+                  placeholder="e.g., 12000"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  What the dealer is giving you for your current vehicle
+                </p>
+                <label className="flex items-center gap-2 mt-2 text-xs text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    name="tradeInTaxCredit"
+                    checked={formData.tradeInTaxCredit || false}
+                    onChange={handleChange}
+                    className="rounded border-gray-300 dark:border-gray-600"
+                  />
+                  State gives a sales tax credit for the trade-in ({taxRule.name} default: {taxRule.tradeInCredit ? 'yes' : 'no'})
+                </label>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                  Trade-In Payoff ($) - Optional
+                </label>
+                <input
+                  type="text"
+                  name="tradeInPayoff"
+                  value={getStringValue('tradeInPayoff')}
+                  onChange={handleChange}
+                  placeholder="e.g., 9000"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Remaining loan balance owed on your trade-in
+                </p>
+                {(parseFloat(getStringValue('tradeInPayoff')) || 0) > (parseFloat(getStringValue('tradeInValue')) || 0) && (
+                  <p className="text-xs text-red-600 dark:text-red-400 mt-1 font-semibold">
+                    ⚠️ Negative equity: ${((parseFloat(getStringValue('tradeInPayoff')) || 0) - (parseFloat(getStringValue('tradeInValue')) || 0)).toFixed(2)} will be rolled into the new loan
+                  </p>
+                )}
+              </div>
+              <div className="md:col-span-2 border-t border-gray-200 dark:border-gray-700 pt-4">
+                <h3 className="text-sm font-semibold mb-1 text-gray-900 dark:text-white">Rebates & Incentives - Optional</h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                  Enter rebates here instead of lowering the negotiated price so the discount and tax stay accurate
+                </p>
+                {(formData.incentives || []).map((incentive, index) => (
+                  <div key={index} className="mb-3 p-2 border border-gray-200 dark:border-gray-700 rounded-lg">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <input
+                        type="text"
+                        value={incentive.name}
+                        onChange={(e) => handleIncentiveChange(index, 'name', e.target.value)}
+                        placeholder="e.g., Customer Cash"
+                        className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                      <select
+                        value={incentive.type}
+                        onChange={(e) => handleIncentiveChange(index, 'type', e.target.value as IncentiveType)}
+                        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      >
+                        <option value="rebate">Manufacturer Rebate</option>
+                        <option value="dealerCash">Dealer Cash</option>
+                        <option value="loyalty">Loyalty Bonus</option>
+                        <option value="conquest">Conquest Bonus</option>
+                        <option value="collegeGrad">College Grad</option>
+                        <option value="military">Military</option>
+                        <option value="other">Other</option>
+                      </select>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={incentive.amount || ''}
+                        onChange={(e) => handleIncentiveChange(index, 'amount', e.target.value)}
+                        placeholder="Amount"
+                        className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveIncentive(index)}
+                        className="px-2 py-1 text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap gap-4 mt-2">
+                      <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={isIncentiveTaxable(incentive, taxRule)}
+                          onChange={(e) => handleIncentiveChange(index, 'taxable', e.target.checked)}
+                          className="rounded border-gray-300 dark:border-gray-600"
+                        />
+                        Taxable (state taxes the pre-rebate price)
+                      </label>
+                      <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={incentive.appliedBeforeTax}
+                          onChange={(e) => handleIncentiveChange(index, 'appliedBeforeTax', e.target.checked)}
+                          className="rounded border-gray-300 dark:border-gray-600"
+                        />
+                        Applied before tax
+                      </label>
+                    </div>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={handleAddIncentive}
+                  className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+                >
+                  + Add Incentive
+                </button>
+              </div>
+              <div className="md:col-span-2 border-t border-gray-200 dark:border-gray-700 pt-4">
+                <h3 className="text-sm font-semibold mb-1 text-gray-900 dark:text-white">Add-On Products - Optional</h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                  GAP, service contracts, tire &amp; wheel, paint protection and other products sold with the car
+                </p>
+                {(formData.addOns || []).map((addOn, index) => (
+                  <div key={index} className="mb-3 p-2 border border-gray-200 dark:border-gray-700 rounded-lg">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <input
+                        type="text"
+                        value={addOn.name}
+                        onChange={(e) => handleAddOnChange(index, 'name', e.target.value)}
+                        placeholder="e.g., Platinum Service Contract"
+                        className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                      <select
+                        value={addOn.type}
+                        onChange={(e) => handleAddOnChange(index, 'type', e.target.value as AddOnType)}
+                        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      >
+                        <option value="gap">GAP</option>
+                        <option value="serviceContract">Service Contract</option>
+                        <option value="tireWheel">Tire &amp; Wheel</option>
+                        <option value="paintProtection">Paint Protection</option>
+                        <option value="other">Other</option>
+                      </select>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={addOn.price || ''}
+                        onChange={(e) => handleAddOnChange(index, 'price', e.target.value)}
+                        placeholder="Price"
+                        className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveAddOn(index)}
+                        className="px-2 py-1 text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 mt-2">
+                      <input
+                        type="number"
+                        min="0"
+                        value={addOn.termMonths || ''}
+                        onChange={(e) => handleAddOnChange(index, 'termMonths', e.target.value)}
+                        placeholder="Term (months)"
+                        className="w-36 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        value={addOn.coverageMiles || ''}
+                        onChange={(e) => handleAddOnChange(index, 'coverageMiles', e.target.value)}
+                        placeholder="Coverage (miles)"
+                        className="w-36 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                    </div>
+                    <div className="flex flex-wrap gap-4 mt-2">
+                      <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={addOn.taxable}
+                          onChange={(e) => handleAddOnChange(index, 'taxable', e.target.checked)}
+                          className="rounded border-gray-300 dark:border-gray-600"
+                        />
+                        Taxable
+                      </label>
+                      {!isCash && (
+                        <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={addOn.financed}
+                            onChange={(e) => handleAddOnChange(index, 'financed', e.target.checked)}
+                            className="rounded border-gray-300 dark:border-gray-600"
+                          />
+                          {isLease ? 'Capitalized (paid through the lease)' : 'Financed (rolled into the loan)'}
+                        </label>
+                      )}
+                      <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={addOn.cancellable}
+                          onChange={(e) => handleAddOnChange(index, 'cancellable', e.target.checked)}
+                          className="rounded border-gray-300 dark:border-gray-600"
+                        />
+                        Cancellable (prorated refund)
+                      </label>
+                    </div>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={handleAddAddOn}
+                  className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+                >
+                  + Add Add-On
+                </button>
+              </div>
+              <div className="md:col-span-2 border-t border-gray-200 dark:border-gray-700 pt-4">
+                <h3 className="text-sm font-semibold mb-1 text-gray-900 dark:text-white">Ownership Costs (TCO) - Optional</h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                  Leave blank to use the defaults from your profile
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                      Fuel Type
+                    </label>
+                    <select
+                      name="tco.fuelType"
+                      value={formData.tco?.fuelType || ''}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    >
+                      <option value="">Profile default{tcoDefaults ? ` (${tcoDefaults.fuelType === 'electric' ? 'Electric' : 'Gas'})` : ''}</option>
+                      <option value="gas">Gas</option>
+                      <option value="electric">Electric</option>
+                    </select>
+                  </div>
+                  {TCO_NUMERIC_FIELDS.map(({ key, label }) => (
+                    <div key={key}>
+                      <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                        {label}
+                      </label>
+                      <input
+                        type="text"
+                        name={`tco.${key}`}
+                        value={getStringValue(`tco.${key}`)}
+                        onChange={handleChange}
+                        placeholder={tcoDefaults ? `Default: ${tcoDefaults[key]}` : ''}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+              {!isLease && !isCash && (
+                <div>
+                  <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                    GAP Coverage Price ($) - Optional
+                  </label>
+                  <input
+                    type="text"
+                    name="gapPrice"
+                    value={getStringValue('gapPrice')}
+                    onChange={handleChange}
+                    placeholder="e.g., 795"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Quoted GAP price, compared against how far upside down the loan gets
+                  </p>
+                </div>
+              )}
+              {!isLease && !isCash && (
+                <div className="md:col-span-2 border-t border-gray-200 dark:border-gray-700 pt-4">
+                  <h3 className="text-sm font-semibold mb-3 text-gray-900 dark:text-white">Loan Structure - Optional</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                        Balloon Payment ($)
+                      </label>
+                      <input
+                        type="text"
+                        name="balloonPayment"
+                        value={getStringValue('balloonPayment')}
+                        onChange={handleChange}
+                        placeholder="e.g., 12000"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Lump sum due with the final payment; lowers the monthly payment but not the interest
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                        Days Until First Payment
+                      </label>
+                      <input
+                        type="text"
+                        name="firstPaymentDeferralDays"
+                        value={getStringValue('firstPaymentDeferralDays')}
+                        onChange={handleChange}
+                        placeholder="e.g., 90"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        For &quot;no payments for 90 days&quot; offers; interest still accrues during the deferral
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+              {!isLease && !isCash && (
+                <div className="md:col-span-2 border-t border-gray-200 dark:border-gray-700 pt-4">
+                  <h3 className="text-sm font-semibold mb-3 text-gray-900 dark:text-white">Interest &amp; Payment Dates - Optional</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                        Interest Method
+                      </label>
+                      <select
+                        name="interestMethod"
+                        value={formData.interestMethod || 'monthly'}
+                        onChange={handleChange}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      >
+                        <option value="monthly">Monthly (APR / 12)</option>
+                        <option value="dailySimple">Daily simple interest</option>
+                      </select>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Most auto loans accrue interest daily between payments
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                        Contract Date
+                      </label>
+                      <input
+                        type="date"
+                        name="contractDate"
+                        value={formData.contractDate || ''}
+                        onChange={handleChange}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Interest starts accruing on this date (defaults to today)
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                        First Payment Date
+                      </label>
+                      <input
+                        type="date"
+                        name="firstPaymentDate"
+                        value={formData.firstPaymentDate || ''}
+                        onChange={handleChange}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Later payments are due on the same day each month
+                      </p>
+                    </div>
+                    {formData.interestMethod === 'dailySimple' && (
+                      <div className="md:col-span-3">
+                        <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                          Early / Late Payments
+                        </label>
+                        {(formData.paymentTimings || []).map((timing, index) => (
+                          <div key={index} className="flex items-center gap-2 mb-2">
+                            <span className="text-xs text-gray-500 dark:text-gray-400">Payment #</span>
+                            <input
+                              type="number"
+                              min="1"
+                              max={formData.termLength || undefined}
+                              value={timing.month || ''}
+                              onChange={(e) => handlePaymentTimingChange(index, 'month', e.target.value)}
+                              className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                            />
+                            <span className="text-xs text-gray-500 dark:text-gray-400">Days late</span>
+                            <input
+                              type="number"
+                              step="1"
+                              value={timing.daysLate || ''}
+                              onChange={(e) => handlePaymentTimingChange(index, 'daysLate', e.target.value)}
+                              placeholder="e.g., 5 or -10 for early"
+                              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => handleRemovePaymentTiming(index)}
+                              className="px-2 py-1 text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          type="button"
+                          onClick={handleAddPaymentTiming}
+                          className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+                        >
+                          + Add Early/Late Payment
+                        </button>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          Late payments accrue extra days of interest; early payments save interest
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+              {!isLease && !isCash && (
+                <div className="md:col-span-2 border-t border-gray-200 dark:border-gray-700 pt-4">
+                  <h3 className="text-sm font-semibold mb-3 text-gray-900 dark:text-white">Extra Payments - Optional</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                        Extra Monthly Principal ($)
+                      </label>
+                      <input
+                        type="text"
+                        name="extraMonthlyPayment"
+                        value={getStringValue('extraMonthlyPayment')}
+                        onChange={handleChange}
+                        placeholder="e.g., 100"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Paid toward principal on top of every monthly payment
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                        Round Payment Up To
+                      </label>
+                      <select
+                        name="roundUpPaymentTo"
+                        value={getStringValue('roundUpPaymentTo') || '0'}
+                        onChange={handleChange}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      >
+                        <option value="0">Don&apos;t round</option>
+                        <option value="10">Nearest $10</option>
+                        <option value="25">Nearest $25</option>
+                        <option value="50">Nearest $50</option>
+                        <option value="100">Nearest $100</option>
+                      </select>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        The difference goes toward principal
+                      </p>
+                    </div>
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                        Lump-Sum Payments
+                      </label>
+                      {(formData.lumpSumPayments || []).map((lumpSum, index) => (
+                        <div key={index} className="flex items-center gap-2 mb-2">
+                          <span className="text-xs text-gray-500 dark:text-gray-400">Payment #</span>
+                          <input
+                            type="number"
+                            min="1"
+                            max={formData.termLength || undefined}
+                            value={lumpSum.month || ''}
+                            onChange={(e) => handleLumpSumChange(index, 'month', e.target.value)}
+                            className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                          />
+                          <span className="text-xs text-gray-500 dark:text-gray-400">$</span>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={lumpSum.amount || ''}
+                            onChange={(e) => handleLumpSumChange(index, 'amount', e.target.value)}
+                            placeholder="e.g., 2000"
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveLumpSum(index)}
+                            className="px-2 py-1 text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={handleAddLumpSum}
+                        className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+                      >
+                        + Add Lump Sum
+                      </button>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        One-off principal payments (e.g., tax refund, bonus) made with a specific payment
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+              {!isLease && !isCash && (
+                <div className="md:col-span-2 border-t border-gray-200 dark:border-gray-700 pt-4">
+                  <h3 className="text-sm font-semibold mb-1 text-gray-900 dark:text-white">Refinance Scenario - Optional</h3>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                    What-if: refinance the remaining balance after a number of payments (e.g., once your credit improves)
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                        Refinance After Payment #
+                      </label>
+                      <input
+                        type="text"
+                        name="refinanceMonth"
+                        value={getStringValue('refinanceMonth')}
+                        onChange={handleChange}
+                        placeholder="e.g., 12"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                        New APR (%)
+                      </label>
+                      <input
+                        type="text"
+                        name="refinanceApr"
+                        value={getStringValue('refinanceApr')}
+                        onChange={handleChange}
+                        placeholder="e.g., 4.5"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                        New Term Length
+                      </label>
+                      <select
+                        name="refinanceTerm"
+                        value={getStringValue('refinanceTerm')}
+                        onChange={handleChange}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      >
+                        <option value="">Select term...</option>
+                        <option value="24">24 months (2 years)</option>
+                        <option value="36">36 months (3 years)</option>
+                        <option value="48">48 months (4 years)</option>
+                        <option value="60">60 months (5 years)</option>
+                        <option value="72">72 months (6 years)</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                        Refinance Fees ($)
+                      </label>
+                      <input
+                        type="text"
+                        name="refinanceFees"
+                        value={getStringValue('refinanceFees')}
+                        onChange={handleChange}
+                        placeholder="e.g., 250"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                      <label className="flex items-center gap-2 mt-2 text-xs text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          name="refinanceFeesFinanced"
+                          checked={formData.refinanceFeesFinanced || false}
+                          onChange={handleChange}
+                          className="rounded border-gray-300 dark:border-gray-600"
+                        />
+                        Roll the fees into the new loan
+                      </label>
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
             <div>
               <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">Notes</label>
@@ -890,6 +2133,48 @@ export default function CarForm({ car, onSave, onCancel }: CarFormProps) {
           </form>
         </div>
       </div>
+
+      {pendingValidation && (
+        <ImportValidationModal
+          title="Import Car"
+          reviews={pendingValidation}
+          onCancel={() => setPendingValidation(null)}
+          onConfirm={async (choices) => {
+            const [importedCar] = resolveValidationReview(pendingValidation, choices);
+            setPendingValidation(null);
+            try {
+              if (importedCar) {
+                await mergeImportedCar(importedCar);
+              }
+            } catch (error) {
+              alert('Error importing car: ' + (error as Error).message);
+            }
+          }}
+        />
+      )}
+
+      {pendingMerge && (
+        <ImportMergeModal
+          title="Import Car"
+          summary="This car is already saved. Choose which version to keep."
+          conflicts={pendingMerge.conflicts}
+          onCancel={() => setPendingMerge(null)}
+          onConfirm={async (resolutions) => {
+            const plan = pendingMerge;
+            setPendingMerge(null);
+            try {
+              const [resolvedCar] = resolveCarMerge(plan, resolutions);
+              if (resolvedCar) {
+                await carStorage.saveCar(resolvedCar);
+              }
+              // Keeping the saved car loads it unchanged
+              loadImportedCar(resolvedCar || plan.conflicts[0].existing);
+            } catch (error) {
+              alert('Error importing car: ' + (error as Error).message);
+            }
+          }}
+        />
+      )}
     </div>
   );
 }
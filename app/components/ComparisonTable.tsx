@@ -1,7 +1,10 @@
 'use client';
 
+import { useState } from 'react';
 import { Car } from '@/lib/types';
-import { calculateCarMetrics } from '@/lib/carCalculations';
+import { calculateCarMetrics, calculateTco, calculateValueProjection, calculateNegativeEquity, calculateCashVsFinance, removeAddOns } from '@/lib/carCalculations';
+import profileStorage from '@/lib/profileStorage';
+import depreciationStorage from '@/lib/depreciationStorage';
 
 interface ComparisonTableProps {
   cars: Car[];
@@ -14,6 +17,9 @@ interface ComparisonTableProps {
 }
 
 export default function ComparisonTable({ cars, downPaymentOverride, termOverride, aprOverride, onExportCSV, onDeleteCar, onExportForAI }: ComparisonTableProps) {
+  // Compare the deals with or without their add-on products (GAP, service contracts, etc.)
+  const [excludeAddOns, setExcludeAddOns] = useState(false);
+
   if (cars.length === 0) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 text-center text-gray-500 dark:text-gray-400">
@@ -24,14 +30,46 @@ export default function ComparisonTable({ cars, downPaymentOverride, termOverrid
 
   // Apply overrides if provided (PREVIEW ONLY - does not modify saved car data)
   // Creates new objects with spread operator to avoid mutating original cars
-  const carsWithOverride = cars.map((car) => ({
-    ...car,
-    ...(downPaymentOverride !== undefined && { downPayment: downPaymentOverride }),
-    ...(termOverride !== undefined && { termLength: termOverride }),
-    ...(aprOverride !== undefined && { apr: aprOverride }),
-  }));
+  const carsWithOverride = cars.map((car) => {
+    const carWithOverride = {
+      ...car,
+      ...(downPaymentOverride !== undefined && { downPayment: downPaymentOverride }),
+      ...(termOverride !== undefined && { termLength: termOverride }),
+      ...(aprOverride !== undefined && { apr: aprOverride }),
+    };
+    return excludeAddOns ? removeAddOns(carWithOverride) : carWithOverride;
+  });
+  const hasAddOns = cars.some((car) => (car.addOns || []).some((addOn) => addOn.price > 0));
 
   const allMetrics = carsWithOverride.map((car) => calculateCarMetrics(car));
+  // Ownership cost projection uses the profile's TCO defaults, overridden per car
+  const profile = profileStorage.getProfile();
+  const tcoDefaults = profile.tcoDefaults;
+  const tcoByCarId = new Map(carsWithOverride.map((car) => [car.id, calculateTco(car, tcoDefaults, depreciationStorage.getCurve(car.make, car.model))]));
+  // Upside-down timeline over each loan's term (leases are skipped since they usually include GAP)
+  const negativeEquityByCarId = new Map(
+    carsWithOverride
+      .filter((car) => car.dealType !== 'lease' && car.dealType !== 'cash')
+      .map((car) => [
+        car.id,
+        calculateNegativeEquity(
+          calculateValueProjection(car, depreciationStorage.getCurve(car.make, car.model), tcoByCarId.get(car.id)?.inputs.annualMiles ?? tcoDefaults.annualMiles),
+          car.gapPrice
+        ),
+      ])
+  );
+  // Paying cash vs financing, with cash deals weighed against their APR/term (or the profile defaults)
+  const cashVsFinanceByCarId = new Map(
+    carsWithOverride
+      .filter((car) => car.dealType !== 'lease')
+      .map((car) => [
+        car.id,
+        calculateCashVsFinance(car, (profile.expectedInvestmentReturn ?? 5) / 100, {
+          apr: car.dealType === 'cash' && !car.apr ? profile.defaultApr || 0.045 : car.apr,
+          termLength: car.dealType === 'cash' && !car.termLength ? profile.defaultTermLength || 60 : car.termLength,
+        }),
+      ])
+  );
   
   // Get baseline (best-priced car) metrics for comparison
   const baselineMetrics = allMetrics[0]; // First car is the best-priced (lowest total cost)
@@ -42,21 +80,75 @@ export default function ComparisonTable({ cars, downPaymentOverride, termOverrid
     // Cost Breakdown
     { label: 'Listed Price', key: 'listedPrice' as keyof Car, format: 'currency' },
     { label: 'Discount', key: 'discount', format: 'currency', calculated: true, showPercent: true },
+    { label: 'Incentives', key: 'totalIncentives', format: 'currency', calculated: true },
     { label: 'Negotiated Price', key: 'negotiatedPrice' as keyof Car, format: 'currency' },
     { label: 'Total Fees', key: 'totalAllFees', format: 'currency', calculated: true },
+    ...(hasAddOns && !excludeAddOns ? [{ label: 'Add-On Products', key: 'totalAddOns', format: 'currency', calculated: true }] : []),
     { label: 'Total Taxes', key: 'totalTax', format: 'currency', calculated: true },
     { label: 'Down Payment', key: 'downPayment' as keyof Car, format: 'currency' },
+    { label: 'Trade-In Equity', key: 'tradeInEquity', format: 'currency', calculated: true },
     { label: 'Financed Amount', key: 'financedAmount', format: 'currency', calculated: true },
+    { label: 'Cash Due at Signing', key: 'cashDueAtSigning', format: 'currency', calculated: true },
     { label: 'Total Interest', key: 'totalInterest', format: 'currency', calculated: true },
     { label: 'Avg Yearly Interest', key: 'averageAnnualInterest', format: 'currency', calculated: true },
     { label: 'Total Cost', key: 'totalCost', format: 'currency', calculated: true },
   ];
 
+  // Lease rows only appear when at least one compared car is a lease
+  const hasLease = carsWithOverride.some((car) => car.dealType === 'lease');
+  if (hasLease) {
+    fields.push(
+      { label: 'Residual Value', key: 'leaseResidualValue', format: 'currency', calculated: true },
+      { label: 'Due at Signing', key: 'leaseDueAtSigning', format: 'currency', calculated: true },
+    );
+  }
+  if (carsWithOverride.some((car) => car.dealType === 'buyout')) {
+    fields.push({ label: 'Lease Equity', key: 'buyoutEquity', format: 'currency', calculated: true });
+  }
+  if (negativeEquityByCarId.size > 0) {
+    fields.push(
+      { label: 'Months Upside Down', key: 'upsideDownMonths', format: 'number', calculated: true },
+      { label: 'Peak Negative Equity', key: 'peakNegativeEquity', format: 'currency', calculated: true },
+    );
+  }
+  // Cash vs finance rows only appear when at least one compared car is a cash deal
+  if (carsWithOverride.some((car) => car.dealType === 'cash')) {
+    fields.push(
+      { label: 'Cash vs Finance', key: 'cashVsFinanceCheaper', format: 'text', calculated: true },
+      { label: 'Break-Even Investment Return', key: 'cashVsFinanceBreakEven', format: 'percentage', calculated: true },
+    );
+  }
+
   // Monthly amounts (separate section)
   const monthlyFields = [
     { label: 'Monthly Payment', key: 'monthlyPayment', format: 'currency', calculated: true },
     { label: 'Monthly Payment w/ Tax', key: 'monthlyPaymentWithTax', format: 'currency', calculated: true },
   ];
+  // Dealer-quoted payment check only appears when at least one car has a quote
+  if (allMetrics.some((metrics) => metrics.quotedPayment)) {
+    monthlyFields.push(
+      { label: 'Dealer-Quoted Payment', key: 'quotedPayment', format: 'currency', calculated: true },
+      { label: 'Quote vs Stated APR', key: 'quotedPaymentDifference', format: 'currency', calculated: true },
+      { label: 'Implied APR', key: 'impliedApr', format: 'percentage', calculated: true },
+    );
+  }
+
+  // Total cost of ownership (separate section)
+  const tcoFields = [
+    { label: 'Total Cost of Ownership', key: 'tcoTotal', format: 'currency', calculated: true },
+    { label: 'TCO per Month', key: 'tcoPerMonth', format: 'currency', calculated: true },
+    { label: 'TCO per Mile', key: 'tcoPerMile', format: 'currency', calculated: true },
+    { label: 'Depreciation', key: 'tcoDepreciation', format: 'currency', calculated: true },
+    { label: 'Interest', key: 'tcoFinancing', format: 'currency', calculated: true },
+    { label: 'Taxes & Fees', key: 'tcoTaxesAndFees', format: 'currency', calculated: true },
+    ...(hasLease ? [{ label: 'Lease Payments', key: 'tcoLeasePayments', format: 'currency', calculated: true }] : []),
+    { label: 'Insurance', key: 'tcoInsurance', format: 'currency', calculated: true },
+    { label: 'Fuel / Charging', key: 'tcoFuel', format: 'currency', calculated: true },
+    { label: 'Maintenance', key: 'tcoMaintenance', format: 'currency', calculated: true },
+    { label: 'Repairs (after warranty)', key: 'tcoRepairs', format: 'currency', calculated: true },
+    { label: 'Registration', key: 'tcoRegistration', format: 'currency', calculated: true },
+    { label: 'Projected Value', key: 'tcoProjectedValue', format: 'currency', calculated: true },
+  ];
 
   // All fields for CSV export (includes everything)
   const allFieldsForExport = [
@@ -80,8 +172,26 @@ export default function ComparisonTable({ cars, downPaymentOverride, termOverrid
     { label: 'Discount', key: 'discount', format: 'currency', calculated: true },
     { label: 'Discount %', key: 'discountPercent', format: 'percentage', calculated: true },
     
-    // Down Payment
+    // Rebates & Incentives
+    { label: 'Incentives', key: 'incentives', calculated: true },
+    { label: 'Total Incentives', key: 'totalIncentives', format: 'currency', calculated: true },
+    { label: 'Non-Taxable Incentives', key: 'nonTaxableIncentives', format: 'currency', calculated: true },
+    { label: 'Incentive Tax Savings', key: 'incentiveTaxSavings', format: 'currency', calculated: true },
+    
+    // Down Payment & Cash at Signing
     { label: 'Down Payment', key: 'downPayment' as keyof Car, format: 'currency' },
+    { label: 'Paid at Signing (not financed)', key: 'paidUpfront', calculated: true },
+    { label: 'Upfront Tax & Fees', key: 'upfrontCosts', format: 'currency', calculated: true },
+    { label: 'Cash Due at Signing', key: 'cashDueAtSigning', format: 'currency', calculated: true },
+    { label: 'Financed Amount', key: 'financedAmount', format: 'currency', calculated: true },
+    
+    // Trade-In
+    { label: 'Trade-In Value', key: 'tradeInValue' as keyof Car, format: 'currency' },
+    { label: 'Trade-In Payoff', key: 'tradeInPayoff' as keyof Car, format: 'currency' },
+    { label: 'Trade-In Equity', key: 'tradeInEquity', format: 'currency', calculated: true },
+    { label: 'Negative Equity Rolled In', key: 'negativeEquity', format: 'currency', calculated: true },
+    { label: 'Trade-In Tax Credit', key: 'tradeInTaxCredit' as keyof Car },
+    { label: 'Trade-In Tax Savings', key: 'tradeInTaxSavings', format: 'currency', calculated: true },
     
     // Tax Breakdown
     { label: 'Tax Rate (%)', key: 'taxRate' as keyof Car, format: 'percentage' },
@@ -90,25 +200,87 @@ export default function ComparisonTable({ cars, downPaymentOverride, termOverrid
     { label: 'Total Tax', key: 'totalTax', format: 'currency', calculated: true },
     
     // Fees Breakdown
-    { label: 'Dealer Fees', key: 'dealerFees' as keyof Car, format: 'currency' },
-    { label: 'Government Fees', key: 'governmentFees' as keyof Car, format: 'currency' },
-    { label: 'Other Fees', key: 'otherFees' as keyof Car, format: 'currency' },
+    { label: 'Fee Items', key: 'fees', calculated: true },
+    { label: 'Dealer Fees', key: 'totalDealerFees', format: 'currency', calculated: true },
+    { label: 'Government Fees', key: 'totalGovernmentFees', format: 'currency', calculated: true },
+    { label: 'Other Fees', key: 'totalOtherFees', format: 'currency', calculated: true },
+    { label: 'Refused Fees', key: 'refusedFees', format: 'currency', calculated: true },
     { label: 'Total Fees', key: 'totalAllFees', format: 'currency', calculated: true },
     
+    // Add-On Products
+    { label: 'Add-On Products', key: 'addOns', calculated: true },
+    { label: 'Total Add-Ons', key: 'totalAddOns', format: 'currency', calculated: true },
+    { label: 'Financed Add-Ons', key: 'financedAddOns', format: 'currency', calculated: true },
+    
     // Financing Terms
+    { label: 'Deal Type', key: 'dealType', calculated: true },
     { label: 'APR', key: 'apr' as keyof Car, format: 'percentage' },
     { label: 'Term Length (months)', key: 'termLength' as keyof Car },
+    { label: 'Balloon Payment', key: 'balloonPayment' as keyof Car, format: 'currency' },
+    { label: 'Days Until First Payment', key: 'firstPaymentDeferralDays' as keyof Car },
+    { label: 'Deferral Interest', key: 'deferralInterest', format: 'currency', calculated: true },
+    { label: 'Interest Method', key: 'interestMethod', calculated: true },
+    { label: 'Contract Date', key: 'contractDate' as keyof Car },
+    { label: 'First Payment Date', key: 'firstPaymentDate' as keyof Car },
+    
+    // Lease Terms
+    { label: 'Money Factor', key: 'moneyFactor' as keyof Car },
+    { label: 'Residual Value', key: 'leaseResidualValue', format: 'currency', calculated: true },
+    { label: 'Residual %', key: 'leaseResidualPercent', format: 'percentage', calculated: true },
+    { label: 'Acquisition Fee', key: 'acquisitionFee' as keyof Car, format: 'currency' },
+    { label: 'Disposition Fee', key: 'dispositionFee' as keyof Car, format: 'currency' },
+    { label: 'Gross Cap Cost', key: 'leaseGrossCapCost', format: 'currency', calculated: true },
+    { label: 'Adjusted Cap Cost', key: 'leaseAdjustedCapCost', format: 'currency', calculated: true },
+    { label: 'Monthly Depreciation Charge', key: 'leaseDepreciationCharge', format: 'currency', calculated: true },
+    { label: 'Monthly Rent Charge', key: 'leaseRentCharge', format: 'currency', calculated: true },
+    { label: 'Due at Signing', key: 'leaseDueAtSigning', format: 'currency', calculated: true },
+    { label: 'Annual Mileage Allowance', key: 'annualMileageAllowance' as keyof Car, format: 'number' },
+    
+    // Lease Buyout
+    { label: 'Remaining Lease Payments', key: 'remainingLeasePayments' as keyof Car },
+    { label: 'Purchase Option Fee', key: 'purchaseOptionFee' as keyof Car, format: 'currency' },
+    { label: 'Buyout Price', key: 'buyoutPrice', format: 'currency', calculated: true },
+    { label: 'Lease Equity', key: 'buyoutEquity', format: 'currency', calculated: true },
+    { label: 'Lease-End Recommendation', key: 'buyoutRecommendation', calculated: true },
     
     // Monthly Payments
     { label: 'Monthly Payment', key: 'monthlyPayment', format: 'currency', calculated: true },
     { label: 'Monthly Payment w/ Tax', key: 'monthlyPaymentWithTax', format: 'currency', calculated: true },
     
+    // Dealer-Quoted Payment
+    { label: 'Dealer-Quoted Payment', key: 'quotedPayment', format: 'currency', calculated: true },
+    { label: 'Quote vs Stated APR', key: 'quotedPaymentDifference', format: 'currency', calculated: true },
+    { label: 'Implied APR', key: 'impliedApr', format: 'percentage', calculated: true },
+    { label: 'Hidden Amount Financed', key: 'quotedPaymentHiddenAmount', format: 'currency', calculated: true },
+    { label: 'Payment Packing', key: 'paymentPacking', calculated: true },
+    
     // Interest Breakdown
     { label: 'Total Interest Paid', key: 'totalInterest', format: 'currency', calculated: true },
     { label: 'Avg Annual Interest', key: 'averageAnnualInterest', format: 'currency', calculated: true },
     
     // Totals
     { label: 'Total Cost', key: 'totalCost', format: 'currency', calculated: true },
+    
+    // Negative Equity / GAP
+    { label: 'Months Upside Down', key: 'upsideDownMonths', format: 'number', calculated: true },
+    { label: 'Peak Negative Equity', key: 'peakNegativeEquity', format: 'currency', calculated: true },
+    { label: 'Positive Equity Month', key: 'equityCrossoverMonth', calculated: true },
+    { label: 'GAP Price', key: 'gapPrice' as keyof Car, format: 'currency' },
+    { label: 'GAP Recommendation', key: 'gapRecommendation', calculated: true },
+    
+    // Cash vs Finance
+    { label: 'Cash Price', key: 'cashVsFinanceCashPrice', format: 'currency', calculated: true },
+    { label: 'Finance Payments (incl. Down)', key: 'cashVsFinanceTotalPayments', format: 'currency', calculated: true },
+    { label: 'Finance Present Value', key: 'cashVsFinancePresentValue', format: 'currency', calculated: true },
+    { label: 'Expected Investment Return', key: 'cashVsFinanceInvestmentReturn', format: 'percentage', calculated: true },
+    { label: 'Cash vs Finance', key: 'cashVsFinanceCheaper', calculated: true },
+    { label: 'Present Value Savings', key: 'cashVsFinanceSavings', format: 'currency', calculated: true },
+    { label: 'Break-Even Investment Return', key: 'cashVsFinanceBreakEven', format: 'percentage', calculated: true },
+    
+    // Total Cost of Ownership
+    { label: 'TCO Years', key: 'tcoYears', format: 'number', calculated: true },
+    { label: 'TCO Annual Miles', key: 'tcoAnnualMiles', format: 'number', calculated: true },
+    ...tcoFields,
   ];
 
   const formatValue = (
@@ -150,15 +322,80 @@ export default function ComparisonTable({ cars, downPaymentOverride, termOverrid
     if (field.calculated) {
       if (field.key === 'monthlyPayment') return metrics.monthlyPayment;
       if (field.key === 'monthlyPaymentWithTax') return metrics.monthlyPaymentWithTax;
+      if (field.key === 'quotedPayment') return metrics.quotedPayment?.quotedPayment;
+      if (field.key === 'quotedPaymentDifference') return metrics.quotedPayment?.difference;
+      if (field.key === 'impliedApr') return metrics.quotedPayment?.impliedApr;
+      if (field.key === 'quotedPaymentHiddenAmount') return metrics.quotedPayment?.hiddenAmount;
+      if (field.key === 'paymentPacking') return metrics.quotedPayment ? (metrics.quotedPayment.paymentPacking ? 'Yes' : 'No') : undefined;
       if (field.key === 'totalInterest') return metrics.totalInterest;
       if (field.key === 'averageAnnualInterest') return metrics.averageAnnualInterest;
       if (field.key === 'totalTax') return metrics.totalTax;
       if (field.key === 'totalAllFees') return metrics.totalAllFees;
+      if (field.key === 'totalDealerFees') return metrics.totalDealerFees;
+      if (field.key === 'totalGovernmentFees') return metrics.totalGovernmentFees;
+      if (field.key === 'totalOtherFees') return metrics.totalOtherFees;
+      if (field.key === 'refusedFees') return metrics.refusedFees;
+      if (field.key === 'totalAddOns') return metrics.totalAddOns;
+      if (field.key === 'deferralInterest') return metrics.deferralInterest;
+      if (field.key === 'financedAddOns') return metrics.financedAddOns;
+      if (field.key === 'addOns') return (car.addOns || []).map((addOn) => `${addOn.name || addOn.type}: $${addOn.price.toFixed(2)}${addOn.financed ? ' (financed)' : ''}`).join('; ');
+      if (field.key === 'fees') return (car.fees || []).map((fee) => `${fee.name || fee.category}: $${fee.amount.toFixed(2)} (${fee.status})`).join('; ');
       if (field.key === 'totalCost') return metrics.totalCost;
       if (field.key === 'discount') return metrics.discount;
       if (field.key === 'discountPercent') return metrics.discountPercent / 100;
       if (field.key === 'adjustedCost') return metrics.adjustedCost;
       if (field.key === 'financedAmount') return metrics.financedAmount;
+      if (field.key === 'upfrontCosts') return metrics.upfrontCosts;
+      if (field.key === 'cashDueAtSigning') return metrics.cashDueAtSigning;
+      if (field.key === 'paidUpfront') return Object.entries(car.paidUpfront || {}).filter(([, upfront]) => upfront).map(([component]) => component).join('; ');
+      if (field.key === 'tradeInEquity') return metrics.tradeInEquity;
+      if (field.key === 'negativeEquity') return metrics.negativeEquity;
+      if (field.key === 'tradeInTaxSavings') return metrics.tradeInTaxSavings;
+      if (field.key === 'totalIncentives') return metrics.totalIncentives;
+      if (field.key === 'nonTaxableIncentives') return metrics.nonTaxableIncentives;
+      if (field.key === 'incentiveTaxSavings') return metrics.incentiveTaxSavings;
+      if (field.key === 'incentives') return (car.incentives || []).map((incentive) => `${incentive.name || incentive.type}: $${incentive.amount.toFixed(2)}`).join('; ');
+      if (field.key === 'interestMethod') return car.dealType === 'lease' || car.dealType === 'cash' ? undefined : car.interestMethod === 'dailySimple' ? 'Daily Simple Interest' : 'Monthly';
+      if (field.key === 'dealType') return car.dealType === 'lease' ? 'Lease' : car.dealType === 'buyout' ? 'Lease Buyout' : car.dealType === 'cash' ? 'Cash' : 'Purchase';
+      if (field.key === 'leaseResidualValue') return metrics.lease?.residualValue;
+      if (field.key === 'leaseResidualPercent') return metrics.lease?.residualPercent;
+      if (field.key === 'leaseGrossCapCost') return metrics.lease?.grossCapCost;
+      if (field.key === 'leaseAdjustedCapCost') return metrics.lease?.adjustedCapCost;
+      if (field.key === 'leaseDepreciationCharge') return metrics.lease?.depreciationCharge;
+      if (field.key === 'leaseRentCharge') return metrics.lease?.rentCharge;
+      if (field.key === 'leaseDueAtSigning') return metrics.lease?.dueAtSigning;
+      if (field.key === 'buyoutPrice') return metrics.leaseBuyout?.buyoutPrice;
+      if (field.key === 'buyoutEquity') return metrics.leaseBuyout?.equity;
+      if (field.key === 'buyoutRecommendation') return metrics.leaseBuyout?.recommendation;
+      const negativeEquity = negativeEquityByCarId.get(car.id);
+      if (field.key === 'upsideDownMonths') return negativeEquity?.upsideDownMonths.length;
+      if (field.key === 'peakNegativeEquity') return negativeEquity?.peakNegativeEquity;
+      if (field.key === 'equityCrossoverMonth') return negativeEquity?.crossoverMonth;
+      if (field.key === 'gapRecommendation') return negativeEquity?.gapRecommendation;
+      const cashVsFinance = cashVsFinanceByCarId.get(car.id);
+      if (field.key === 'cashVsFinanceCashPrice') return cashVsFinance?.cashPrice;
+      if (field.key === 'cashVsFinanceTotalPayments') return cashVsFinance?.totalFinancePayments;
+      if (field.key === 'cashVsFinancePresentValue') return cashVsFinance?.financePresentValue;
+      if (field.key === 'cashVsFinanceInvestmentReturn') return cashVsFinance?.investmentReturn;
+      if (field.key === 'cashVsFinanceCheaper') return cashVsFinance ? (cashVsFinance.cheaperOption === 'cash' ? 'Pay Cash' : 'Finance') : undefined;
+      if (field.key === 'cashVsFinanceSavings') return cashVsFinance ? Math.abs(cashVsFinance.presentValueSavings) : undefined;
+      if (field.key === 'cashVsFinanceBreakEven') return cashVsFinance?.breakEvenReturn;
+      const tco = tcoByCarId.get(car.id);
+      if (field.key === 'tcoYears') return tco?.inputs.ownershipYears;
+      if (field.key === 'tcoAnnualMiles') return tco?.inputs.annualMiles;
+      if (field.key === 'tcoTotal') return tco?.total;
+      if (field.key === 'tcoPerMonth') return tco?.perMonth;
+      if (field.key === 'tcoPerMile') return tco?.perMile;
+      if (field.key === 'tcoDepreciation') return tco?.depreciation;
+      if (field.key === 'tcoFinancing') return tco?.financing;
+      if (field.key === 'tcoTaxesAndFees') return tco?.taxesAndFees;
+      if (field.key === 'tcoLeasePayments') return tco?.leasePayments;
+      if (field.key === 'tcoInsurance') return tco?.insurance;
+      if (field.key === 'tcoFuel') return tco?.fuel;
+      if (field.key === 'tcoMaintenance') return tco?.maintenance;
+      if (field.key === 'tcoRepairs') return tco?.repairs;
+      if (field.key === 'tcoRegistration') return tco?.registration;
+      if (field.key === 'tcoProjectedValue') return tco?.projectedValue;
     }
     // For overrides, show override value if active, otherwise show original
     if (field.key === 'downPayment' && downPaymentOverride !== undefined) {
@@ -181,16 +418,23 @@ export default function ComparisonTable({ cars, downPaymentOverride, termOverrid
   const fieldsWithDifferences = [
     'listedPrice',
     'discount',
+    'totalIncentives',
     'negotiatedPrice',
     'totalAllFees',
+    'totalAddOns',
     'totalTax',
     'downPayment',
     'financedAmount',
+    'cashDueAtSigning',
     'totalInterest',
     'averageAnnualInterest',
     'totalCost',
     'monthlyPayment',
     'monthlyPaymentWithTax',
+    'tcoTotal',
+    'tcoPerMonth',
+    'tcoPerMile',
+    'tcoProjectedValue',
   ];
 
   const getDifference = (
@@ -208,10 +452,14 @@ export default function ComparisonTable({ cars, downPaymentOverride, termOverrid
       else if (field.key === 'averageAnnualInterest') baselineValue = baselineMetrics.averageAnnualInterest;
       else if (field.key === 'totalTax') baselineValue = baselineMetrics.totalTax;
       else if (field.key === 'totalAllFees') baselineValue = baselineMetrics.totalAllFees;
+      else if (field.key === 'totalAddOns') baselineValue = baselineMetrics.totalAddOns;
       else if (field.key === 'totalCost') baselineValue = baselineMetrics.totalCost;
       else if (field.key === 'adjustedCost') baselineValue = baselineMetrics.adjustedCost;
       else if (field.key === 'financedAmount') baselineValue = baselineMetrics.financedAmount;
+      else if (field.key === 'cashDueAtSigning') baselineValue = baselineMetrics.cashDueAtSigning;
       else if (field.key === 'discount') baselineValue = baselineMetrics.discount;
+      else if (field.key === 'totalIncentives') baselineValue = baselineMetrics.totalIncentives;
+      else if (field.key.startsWith('tco')) baselineValue = getValue(baselineCar, baselineMetrics, field, cars[0]) || 0;
       else return null;
     } else {
       if (field.key === 'listedPrice') baselineValue = baselineCar.listedPrice;
@@ -222,8 +470,8 @@ export default function ComparisonTable({ cars, downPaymentOverride, termOverrid
     
     const currentValue = typeof value === 'number' ? value : parseFloat(value) || 0;
     const diff = currentValue - baselineValue;
-    // For discount, flip the difference (negative discount is better, so show positive diff as better)
-    if (field.key === 'discount') {
+    // For discount and incentives, flip the difference (more off the price is better, so show positive diff as better)
+    if (field.key === 'discount' || field.key === 'totalIncentives' || field.key === 'tcoProjectedValue') {
       return -diff;
     }
     return diff;
@@ -306,6 +554,10 @@ export default function ComparisonTable({ cars, downPaymentOverride, termOverrid
       rows.push(['NOTE: All financial metrics below are calculated using the standardized overrides above', '']);
       rows.push(['', '']); // Empty row for spacing
     }
+    if (excludeAddOns) {
+      rows.push(['NOTE: Add-on products are excluded from all financial metrics below', '']);
+      rows.push(['', '']); // Empty row for spacing
+    }
     
     allFieldsForExport.forEach((field) => {
       const row: string[] = [field.label];
@@ -380,12 +632,25 @@ export default function ComparisonTable({ cars, downPaymentOverride, termOverrid
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg overflow-x-auto">
       <div className="flex justify-between items-center p-4 border-b border-gray-200 dark:border-gray-700">
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Comparison Table</h3>
-        <button
-          onClick={exportToCSV}
-          className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium transition-colors text-sm"
-        >
-          Export to CSV
-        </button>
+        <div className="flex items-center gap-3">
+          {hasAddOns && (
+            <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={!excludeAddOns}
+                onChange={(e) => setExcludeAddOns(!e.target.checked)}
+                className="rounded border-gray-300 dark:border-gray-600"
+              />
+              Include add-ons
+            </label>
+          )}
+          <button
+            onClick={exportToCSV}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium transition-colors text-sm"
+          >
+            Export to CSV
+          </button>
+        </div>
       </div>
       <div>
         <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
@@ -550,6 +815,56 @@ export default function ComparisonTable({ cars, downPaymentOverride, termOverrid
               })}
             </tr>
           ))}
+          
+          {/* Total cost of ownership section separator */}
+          <tr className="bg-gray-50 dark:bg-gray-700">
+            <td colSpan={cars.length + 1} className="px-2 py-1 text-xs font-semibold text-gray-700 dark:text-gray-300">
+              Total Cost of Ownership ({tcoDefaults.ownershipYears} yrs, {tcoDefaults.annualMiles.toLocaleString()} mi/yr unless set per car)
+            </td>
+          </tr>
+          
+          {tcoFields.map((field) => (
+            <tr key={field.label} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+              <td className="px-2 py-1.5 whitespace-nowrap text-xs font-medium text-gray-900 dark:text-white bg-white dark:bg-gray-800">
+                {field.label}
+              </td>
+              {cars.map((car, index) => {
+                const carWithOverride = carsWithOverride[index];
+                const originalCar = cars[index];
+                const value = getValue(carWithOverride, allMetrics[index], field, originalCar);
+                const difference = getDifference(field, value, allMetrics[index]);
+                const showDifference = difference !== null && index > 0 && Math.abs(difference) > 0.01;
+                const isOverridden = 
+                  (field.key === 'downPayment' && downPaymentOverride !== undefined) ||
+                  (field.key === 'termLength' && termOverride !== undefined) ||
+                  (field.key === 'apr' && aprOverride !== undefined);
+                
+                return (
+                  <td
+                    key={car.id}
+                    className="px-2 py-1.5 whitespace-nowrap text-xs text-gray-700 dark:text-gray-300"
+                  >
+                    <div className="flex flex-col">
+                      <span className={`text-xs ${isOverridden ? 'text-blue-600 dark:text-blue-400 font-semibold' : ''}`}>
+                        {formatValue(value, field.format)}
+                        {isOverridden && <span className="text-[10px] ml-1">(override)</span>}
+                      </span>
+                      {showDifference && (
+                        <span className={`text-[10px] mt-0.5 ${
+                          difference > 0 
+                            ? 'text-red-600 dark:text-red-400' 
+                            : 'text-green-600 dark:text-green-400'
+                        }`}>
+                          {difference > 0 ? '+' : ''}{formatValue(difference, field.format)}
+                          {difference > 0 && ' more'}
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
           </tbody>
         </table>
       </div>
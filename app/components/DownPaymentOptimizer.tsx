@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { Car } from '@/lib/types';
+import { calculateDownPaymentOptimization } from '@/lib/carCalculations';
+import profileStorage from '@/lib/profileStorage';
+import {
+  LineChart,
+  Line,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+
+interface DownPaymentOptimizerProps {
+  car: Car;
+  onApplyDownPayment?: (value: string) => void;
+}
+
+export default function DownPaymentOptimizer({ car, onApplyDownPayment }: DownPaymentOptimizerProps) {
+  // Kept as a string so partially typed values (e.g., "4.") aren't reformatted while typing
+  const [alternativeReturn, setAlternativeReturn] = useState<string>(
+    () => (profileStorage.getProfile().expectedInvestmentReturn ?? 5).toString()
+  );
+
+  const optimization = calculateDownPaymentOptimization(car, (parseFloat(alternativeReturn) || 0) / 100);
+  const chartData = optimization.entries.map((entry) => ({
+    downPayment: Math.round(entry.downPayment),
+    'Net Cost': entry.netCost,
+    Interest: entry.totalInterest,
+    'Forgone Growth': entry.forgoneGrowth,
+  }));
+  const netCostSaved = optimization.current.netCost - optimization.optimal.netCost;
+
+  const formatCurrency = (value: number) =>
+    `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  return (
+    <div className="mt-2">
+      <div className="flex flex-wrap items-end justify-between gap-2 mb-1">
+        <div className="text-xs font-semibold text-gray-700 dark:text-gray-300">
+          Down Payment Optimizer ({(optimization.apr * 100).toFixed(2)}% APR for {optimization.termLength} months)
+        </div>
+        <div className="flex items-center gap-1">
+          <label className="text-[10px] text-gray-600 dark:text-gray-400">Alternative Return (%)</label>
+          <input
+            type="text"
+            value={alternativeReturn}
+            onChange={(e) => {
+              const val = e.target.value;
+              if (val === '' || /^\d*\.?\d*$/.test(val)) {
+                setAlternativeReturn(val);
+              }
+            }}
+            className="w-16 px-2 py-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+        </div>
+      </div>
+      <ResponsiveContainer width="100%" height={180}>
+        <LineChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="downPayment"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            tick={{ fontSize: 10 }}
+            tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+          />
+          <YAxis
+            tick={{ fontSize: 10 }}
+            tickFormatter={(value) => `$${(value / 1000).toFixed(1)}k`}
+          />
+          <Tooltip
+            formatter={(value: number | undefined) => formatCurrency(value ?? 0)}
+            labelFormatter={(label) => `Down payment: $${Number(label).toLocaleString()}`}
+          />
+          <Legend wrapperStyle={{ fontSize: 10 }} />
+          <ReferenceLine x={Math.round(optimization.optimal.downPayment)} stroke="#10b981" strokeDasharray="4 4" />
+          <ReferenceLine x={Math.round(optimization.current.downPayment)} stroke="#6b7280" strokeDasharray="2 2" />
+          <Line type="monotone" dataKey="Net Cost" stroke="#3b82f6" strokeWidth={3} dot={false} />
+          <Line type="monotone" dataKey="Interest" stroke="#f59e0b" strokeWidth={2} dot={false} />
+          <Line type="monotone" dataKey="Forgone Growth" stroke="#ef4444" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-600 dark:text-gray-400">
+        <div>
+          Lowest net cost at{' '}
+          <span className="font-semibold text-green-600 dark:text-green-400">{formatCurrency(optimization.optimal.downPayment)} down</span>
+          {' '}({formatCurrency(optimization.optimal.netCost)})
+          {netCostSaved > 0.005 && (
+            <>
+              {' '}• saves {formatCurrency(netCostSaved)} vs {formatCurrency(optimization.current.downPayment)} down
+            </>
+          )}
+        </div>
+        {onApplyDownPayment && netCostSaved > 0.005 && (
+          <button
+            onClick={() => onApplyDownPayment(optimization.optimal.downPayment.toFixed(2))}
+            className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 text-xs"
+          >
+            Preview Optimal Down Payment
+          </button>
+        )}
+      </div>
+      <p className="text-[9px] text-gray-500 dark:text-gray-400 mt-0.5">
+        Net cost = loan interest + growth the down payment would have earned at the alternative return (less growth on the lower payments invested instead).
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useState } from 'react';
+import { MergeConflict, MergeResolution } from '@/lib/importMerge';
+
+interface ImportMergeModalProps {
+  title: string;
+  summary: string; // What happens without any choices (e.g., "2 new cars will be added, 1 is unchanged")
+  conflicts: MergeConflict<unknown>[];
+  onConfirm: (resolutions: Record<string, MergeResolution>) => void;
+  onCancel: () => void;
+}
+
+const MATCHED_BY_LABELS: Record<MergeConflict<unknown>['matchedBy'], string> = {
+  id: 'same ID',
+  vin: 'same VIN',
+  makeAndTerm: 'same make and term',
+  profile: 'profile',
+};
+
+const RESOLUTION_LABELS: Record<MergeResolution, string> = {
+  keepExisting: 'Keep mine',
+  takeIncoming: 'Take incoming',
+  keepBoth: 'Keep both',
+};
+
+// Compact display of a field value in the diff table
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') {
+    const json = JSON.stringify(value);
+    return json.length > 80 ? `${json.slice(0, 77)}...` : json;
+  }
+  return String(value);
+};
+
+// Diff preview for a merge import: one card per conflicting record with the fields that differ
+export default function ImportMergeModal({ title, summary, conflicts, onConfirm, onCancel }: ImportMergeModalProps) {
+  // Saved data is kept unless the user picks otherwise
+  const [resolutions, setResolutions] = useState<Record<string, MergeResolution>>(() =>
+    Object.fromEntries(conflicts.map((conflict) => [conflict.key, 'keepExisting' as MergeResolution]))
+  );
+
+  const setAll = (resolution: MergeResolution) => {
+    setResolutions(
+      Object.fromEntries(
+        conflicts.map((conflict) => [
+          conflict.key,
+          resolution === 'keepBoth' && !conflict.canKeepBoth ? resolutions[conflict.key] : resolution,
+        ])
+      )
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-[9999] backdrop-blur-sm"
+      onClick={(e) => e.target === e.currentTarget && onCancel()}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl p-6 max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto border border-gray-200 dark:border-gray-700"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">{title}</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{summary}</p>
+        </div>
+
+        {conflicts.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+              <span className="text-gray-700 dark:text-gray-300 font-medium">
+                {conflicts.length} record{conflicts.length === 1 ? '' : 's'} differ from what&apos;s saved. For all:
+              </span>
+              {(['keepExisting', 'takeIncoming', 'keepBoth'] as MergeResolution[])
+                .filter((resolution) => resolution !== 'keepBoth' || conflicts.some((c) => c.canKeepBoth))
+                .map((resolution) => (
+                  <button
+                    key={resolution}
+                    onClick={() => setAll(resolution)}
+                    className="px-2 py-1 text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                  >
+                    {RESOLUTION_LABELS[resolution]}
+                  </button>
+                ))}
+            </div>
+
+            <div className="space-y-4">
+              {conflicts.map((conflict) => (
+                <div key={conflict.key} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                    <div className="font-semibold text-gray-900 dark:text-white">
+                      {conflict.label}
+                      <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                        matched by {MATCHED_BY_LABELS[conflict.matchedBy]}
+                      </span>
+                    </div>
+                    <div className="flex gap-3 text-sm">
+                      {(['keepExisting', 'takeIncoming', 'keepBoth'] as MergeResolution[])
+                        .filter((resolution) => resolution !== 'keepBoth' || conflict.canKeepBoth)
+                        .map((resolution) => (
+                          <label key={resolution} className="flex items-center gap-1 text-gray-700 dark:text-gray-300 cursor-pointer">
+                            <input
+                              type="radio"
+                              name={`resolution-${conflict.key}`}
+                              checked={resolutions[conflict.key] === resolution}
+                              onChange={() => setResolutions((prev) => ({ ...prev, [conflict.key]: resolution }))}
+                            />
+                            {RESOLUTION_LABELS[resolution]}
+                          </label>
+                        ))}
+                    </div>
+                  </div>
+                  <table className="w-full text-xs text-left text-gray-700 dark:text-gray-300">
+                    <thead>
+                      <tr className="border-b border-gray-200 dark:border-gray-700">
+                        <th className="py-1 pr-2 w-1/4">Field</th>
+                        <th className="py-1 pr-2">Mine</th>
+                        <th className="py-1">Incoming</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {conflict.diffs.map((diff) => (
+                        <tr key={diff.field} className="border-b border-gray-100 dark:border-gray-700/50 align-top">
+                          <td className="py-1 pr-2 font-medium">{diff.field}</td>
+                          <td className="py-1 pr-2 break-all">{formatValue(diff.existing)}</td>
+                          <td className="py-1 break-all text-blue-700 dark:text-blue-300">{formatValue(diff.incoming)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-3 mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(resolutions)}
+            className="flex-1 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors shadow-md hover:shadow-lg"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
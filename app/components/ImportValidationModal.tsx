@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  defaultValidationChoice,
+  hasUnitCorrections,
+  hasValidationErrors,
+  needsReview,
+  ValidationChoice,
+  ValidationReview,
+} from '@/lib/validation';
+
+interface ImportValidationModalProps {
+  title: string;
+  reviews: ValidationReview<unknown>[]; // Every incoming record; only the ones with issues are listed
+  onConfirm: (choices: Record<string, ValidationChoice>) => void;
+  onCancel: () => void;
+}
+
+const CHOICE_LABELS: Record<ValidationChoice, string> = {
+  import: 'Import corrected',
+  importUncorrected: 'Import without unit fixes',
+  skip: 'Skip',
+};
+
+// Field-level problems found in an import: one card per record with its errors and warnings, and what to do with it
+export default function ImportValidationModal({ title, reviews, onConfirm, onCancel }: ImportValidationModalProps) {
+  const flagged = reviews.filter(needsReview);
+  const [choices, setChoices] = useState<Record<string, ValidationChoice>>(() =>
+    Object.fromEntries(flagged.map((review) => [review.key, defaultValidationChoice(review)]))
+  );
+
+  const choicesFor = (review: ValidationReview<unknown>): ValidationChoice[] =>
+    hasUnitCorrections(review) ? ['import', 'importUncorrected', 'skip'] : ['import', 'skip'];
+
+  const cleanCount = reviews.length - flagged.length;
+  const importCount = cleanCount + flagged.filter((review) => choices[review.key] !== 'skip').length;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-[9999] backdrop-blur-sm"
+      onClick={(e) => e.target === e.currentTarget && onCancel()}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl p-6 max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto border border-gray-200 dark:border-gray-700"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">{title}</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            {flagged.length} of {reviews.length} record{reviews.length === 1 ? '' : 's'} in the file need
+            {flagged.length === 1 ? 's' : ''} a look. Records with errors are skipped unless you choose otherwise.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+          <span className="text-gray-700 dark:text-gray-300 font-medium">For all:</span>
+          {(['import', 'skip'] as ValidationChoice[]).map((choice) => (
+            <button
+              key={choice}
+              onClick={() => setChoices(Object.fromEntries(flagged.map((review) => [review.key, choice])))}
+              className="px-2 py-1 text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              {CHOICE_LABELS[choice]}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-4">
+          {flagged.map((review) => {
+            const hasErrors = hasValidationErrors(review.corrected.issues);
+            return (
+              <div
+                key={review.key}
+                className={`border rounded-lg p-3 ${
+                  hasErrors ? 'border-red-200 dark:border-red-800' : 'border-amber-200 dark:border-amber-800'
+                }`}
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                  <div className="font-semibold text-gray-900 dark:text-white">{review.label}</div>
+                  <div className="flex flex-wrap gap-3 text-sm">
+                    {choicesFor(review).map((choice) => (
+                      <label key={choice} className="flex items-center gap-1 text-gray-700 dark:text-gray-300 cursor-pointer">
+                        <input
+                          type="radio"
+                          name={`choice-${review.key}`}
+                          checked={choices[review.key] === choice}
+                          onChange={() => setChoices((prev) => ({ ...prev, [review.key]: choice }))}
+                        />
+                        {CHOICE_LABELS[choice]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <ul className="text-xs space-y-1">
+                  {review.corrected.issues.map((issue, index) => (
+                    <li
+                      key={`${issue.field}-${index}`}
+                      className={
+                        issue.severity === 'error' ? 'text-red-700 dark:text-red-300' : 'text-amber-700 dark:text-amber-300'
+                      }
+                    >
+                      <span className="font-medium">{issue.severity === 'error' ? 'Error' : 'Warning'}</span> -{' '}
+                      <span className="font-mono">{issue.field}</span>: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-3 mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(choices)}
+            disabled={importCount === 0}
+            className="flex-1 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Continue with {importCount} record{importCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
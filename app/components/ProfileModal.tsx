@@ -2,6 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import profileStorage, { UserProfile } from '@/lib/profileStorage';
+import { getSyncToken, setSyncToken } from '@/lib/syncClient';
+import { STATE_TAX_RULES } from '@/lib/taxRules';
+import { TcoInputs, FuelType } from '@/lib/types';
 
 interface ProfileModalProps {
   isOpen: boolean;
@@ -10,10 +13,12 @@ interface ProfileModalProps {
 
 export default function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
   const [profile, setProfile] = useState<UserProfile>(profileStorage.getProfile());
+  const [syncToken, setSyncTokenValue] = useState('');
 
   useEffect(() => {
     if (isOpen) {
-      setProfile(profileStorage.getProfile());
+      profileStorage.loadProfile().then(setProfile);
+      getSyncToken().then(setSyncTokenValue);
     }
   }, [isOpen]);
 
@@ -35,8 +40,9 @@ export default function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
     };
   }, [isOpen, onClose]);
 
-  const handleSave = () => {
-    profileStorage.saveProfile(profile);
+  const handleSave = async () => {
+    await profileStorage.saveProfile(profile);
+    await setSyncToken(syncToken);
     onClose();
   };
 
@@ -47,6 +53,13 @@ export default function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
     }));
   };
 
+  const handleTcoChange = (field: keyof TcoInputs, value: number | FuelType) => {
+    setProfile((prev) => ({
+      ...prev,
+      tcoDefaults: { ...prev.tcoDefaults, [field]: value },
+    }));
+  };
+
   const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
     if (e.target === e.currentTarget) {
       onClose();
@@ -133,6 +146,10 @@ export default function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
               maxLength={2}
               className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-all uppercase"
             />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 flex items-center gap-1">
+              <span className="text-blue-500">💡</span>
+              Selects the sales tax rules for new cars ({Object.keys(STATE_TAX_RULES).join(', ')}; other states use default rules)
+            </p>
           </div>
 
           <div>
@@ -221,6 +238,123 @@ export default function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
             </p>
           </div>
 
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              Target Monthly Payment ($)
+            </label>
+            <input
+              type="number"
+              step="1"
+              min="0"
+              value={profile.targetMonthlyPayment || ''}
+              onChange={(e) => handleChange('targetMonthlyPayment', parseFloat(e.target.value) || 0)}
+              className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-all"
+              placeholder="e.g., 550"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 flex items-center gap-1">
+              <span className="text-blue-500">💡</span>
+              Your monthly budget; listings show the max price it buys with your default APR, term and down payment
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              Typical Fees ($)
+            </label>
+            <div className="grid grid-cols-3 gap-3">
+              {(
+                [
+                  ['typicalDealerFees', 'Dealer'],
+                  ['typicalGovernmentFees', 'Government'],
+                  ['typicalOtherFees', 'Other'],
+                ] as const
+              ).map(([field, label]) => (
+                <div key={field}>
+                  <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">{label}</label>
+                  <input
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={profile[field]}
+                    onChange={(e) => handleChange(field, parseFloat(e.target.value) || 0)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-all"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 flex items-center gap-1">
+              <span className="text-blue-500">💡</span>
+              Fees assumed when working out the max price for a monthly budget
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              Expected Investment Return (%)
+            </label>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              max="100"
+              value={profile.expectedInvestmentReturn ?? ''}
+              onChange={(e) => handleChange('expectedInvestmentReturn', parseFloat(e.target.value) || 0)}
+              className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-all"
+              placeholder="5.0"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 flex items-center gap-1">
+              <span className="text-blue-500">💡</span>
+              Annual return you expect on cash you don&apos;t spend on the car; used to weigh paying cash against financing
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              Ownership Cost Defaults (TCO)
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              {(
+                [
+                  ['ownershipYears', 'Horizon (years)', '1'],
+                  ['annualMiles', 'Miles per year', '1000'],
+                  ['insurancePerYear', 'Insurance / year ($)', '1'],
+                  ['fuelEfficiency', 'MPG or mi/kWh', '0.1'],
+                  ['energyPrice', '$ per gal or kWh', '0.01'],
+                  ['maintenancePerYear', 'Maintenance / year ($)', '1'],
+                  ['repairsPerYear', 'Repairs / year after warranty ($)', '1'],
+                  ['registrationPerYear', 'Registration / year ($)', '1'],
+                ] as const
+              ).map(([field, label, step]) => (
+                <div key={field}>
+                  <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">{label}</label>
+                  <input
+                    type="number"
+                    step={step}
+                    min="0"
+                    value={profile.tcoDefaults[field]}
+                    onChange={(e) => handleTcoChange(field, parseFloat(e.target.value) || 0)}
+                    className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-all"
+                  />
+                </div>
+              ))}
+              <div>
+                <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Fuel type</label>
+                <select
+                  value={profile.tcoDefaults.fuelType}
+                  onChange={(e) => handleTcoChange('fuelType', e.target.value as FuelType)}
+                  className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-all"
+                >
+                  <option value="gas">Gas</option>
+                  <option value="electric">Electric</option>
+                </select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 flex items-center gap-1">
+              <span className="text-blue-500">💡</span>
+              Used for the total cost of ownership projection; each car can override these
+            </p>
+          </div>
+
           <div>
             <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
               Fee Recommendations
@@ -237,6 +371,24 @@ export default function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
               Custom recommendations will appear in the car form under fee configurations
             </p>
           </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              Sync Token
+            </label>
+            <input
+              type="password"
+              value={syncToken}
+              onChange={(e) => setSyncTokenValue(e.target.value)}
+              placeholder="Leave empty to keep data on this device only"
+              autoComplete="off"
+              className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-all"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 flex items-center gap-1">
+              <span className="text-blue-500">💡</span>
+              Must match CPC_SYNC_TOKEN on the server; saved on this device only
+            </p>
+          </div>
         </div>
 
         <div className="flex gap-3 mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import { Car } from '@/lib/types';
+import { buildAprSteps, calculateSensitivityGrid, SENSITIVITY_TERMS } from '@/lib/carCalculations';
+import profileStorage from '@/lib/profileStorage';
+
+interface SensitivityGridProps {
+  car: Car; // Car with preview overrides applied
+  centerApr: number; // APR the rows are centered on (the saved APR, so the grid doesn't shift when a cell is applied)
+  onApplyOverride?: (apr: string, term: string) => void;
+}
+
+export default function SensitivityGrid({ car, centerApr, onApplyOverride }: SensitivityGridProps) {
+  // Inputs are kept as strings so partially typed values (e.g., "0.") aren't reformatted while typing
+  const [aprStep, setAprStep] = useState<string>('0.5');
+  const [stepsEachSide, setStepsEachSide] = useState<string>('3');
+  const [budget, setBudget] = useState<string>(() => {
+    const target = profileStorage.getProfile().targetMonthlyPayment;
+    return target ? target.toString() : '';
+  });
+
+  const aprs = buildAprSteps(
+    centerApr,
+    (parseFloat(aprStep) || 0.5) / 100,
+    Math.min(Math.max(Math.round(parseFloat(stepsEachSide) || 0), 0), 10)
+  );
+  const grid = calculateSensitivityGrid(car, aprs, SENSITIVITY_TERMS);
+  const budgetAmount = parseFloat(budget) || 0;
+
+  const formatCurrency = (value: number) =>
+    `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const inputClassName =
+    'w-16 px-2 py-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+  const handleNumberChange = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const val = e.target.value;
+    if (val === '' || /^\d*\.?\d*$/.test(val)) {
+      setter(val);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-3 mb-3 text-xs text-gray-600 dark:text-gray-400">
+        <label className="flex items-center gap-1">
+          APR Step (%)
+          <input type="text" value={aprStep} onChange={handleNumberChange(setAprStep)} className={inputClassName} />
+        </label>
+        <label className="flex items-center gap-1">
+          Steps Each Side
+          <input type="text" value={stepsEachSide} onChange={handleNumberChange(setStepsEachSide)} className={inputClassName} />
+        </label>
+        <label className="flex items-center gap-1">
+          Payment Budget ($)
+          <input type="text" value={budget} onChange={handleNumberChange(setBudget)} placeholder="none" className={inputClassName} />
+        </label>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-left text-gray-700 dark:text-gray-300">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              <th className="py-1 pr-2">APR \ Term</th>
+              {SENSITIVITY_TERMS.map((term) => (
+                <th key={term} className="py-1 px-2">{term}m</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {grid.map((row) => (
+              <tr key={row[0].apr} className="border-b border-gray-100 dark:border-gray-700/50">
+                <td className="py-1 pr-2 font-semibold">{(row[0].apr * 100).toFixed(2)}%</td>
+                {row.map((cell) => {
+                  const isSelected = Math.abs(cell.apr - car.apr) < 1e-6 && cell.termLength === car.termLength;
+                  const withinBudget = budgetAmount > 0 && cell.monthlyPayment <= budgetAmount;
+                  return (
+                    <td key={cell.termLength} className="p-0.5">
+                      <button
+                        onClick={() => onApplyOverride?.((cell.apr * 100).toFixed(2), cell.termLength.toString())}
+                        title="Preview this APR and term"
+                        className={`w-full text-left px-2 py-1 rounded border transition-colors ${
+                          isSelected
+                            ? 'border-blue-500 ring-1 ring-blue-500'
+                            : 'border-transparent'
+                        } ${
+                          withinBudget
+                            ? 'bg-green-50 dark:bg-green-900/20 hover:bg-green-100 dark:hover:bg-green-900/40'
+                            : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                        }`}
+                      >
+                        <div className={`font-semibold ${withinBudget ? 'text-green-700 dark:text-green-400' : 'text-gray-900 dark:text-white'}`}>
+                          {formatCurrency(cell.monthlyPayment)}/mo
+                        </div>
+                        <div className="text-[10px] text-gray-500 dark:text-gray-400">Int {formatCurrency(cell.totalInterest)}</div>
+                        <div className="text-[10px] text-gray-500 dark:text-gray-400">Total {formatCurrency(cell.totalCost)}</div>
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[10px] text-gray-500 dark:text-gray-400 mt-2">
+        {budgetAmount > 0 ? 'Green cells fit the payment budget. ' : ''}Click a cell to preview it as the APR and term override.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import {
+  dismissMigrationFailures,
+  getMigrationFailures,
+  StorageMigrationFailure,
+  subscribeToMigrationFailures,
+} from '@/lib/storageSchema';
+
+const NO_FAILURES: StorageMigrationFailure[] = [];
+
+// Shows saved data that couldn't be upgraded to the current schema, so it isn't silently treated as empty
+export default function StorageMigrationAlert() {
+  const failures = useSyncExternalStore(subscribeToMigrationFailures, getMigrationFailures, () => NO_FAILURES);
+
+  if (failures.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-red-50 dark:bg-red-900/20 border-b border-red-200 dark:border-red-800 px-4 py-3">
+      <div className="max-w-7xl mx-auto flex items-start justify-between gap-4">
+        <div className="text-sm text-red-800 dark:text-red-300">
+          <p className="font-semibold mb-1">Some saved data couldn&apos;t be loaded</p>
+          <ul className="list-disc list-inside space-y-1">
+            {failures.map((failure) => (
+              <li key={`${failure.key}-${failure.fromVersion}-${failure.toVersion}`}>
+                {failure.message} ({failure.key}, schema v{failure.fromVersion} to v{failure.toVersion})
+                {failure.backupKey && (
+                  <span className="text-red-700 dark:text-red-400">
+                    {' '}
+                    - the original was kept in local storage under &quot;{failure.backupKey}&quot;
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+        <button
+          onClick={dismissMigrationFailures}
+          className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 transition-colors flex-shrink-0"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import {
+  dismissStoredRecordReports,
+  formatIssue,
+  getStoredRecordReports,
+  StoredRecordReport,
+  subscribeToStoredRecordReports,
+} from '@/lib/validation';
+
+const NO_REPORTS: StoredRecordReport[] = [];
+
+// Lists saved records that failed validation when loaded, with each field that was corrected or looks wrong
+export default function StoredRecordAlert() {
+  const reports = useSyncExternalStore(subscribeToStoredRecordReports, getStoredRecordReports, () => NO_REPORTS);
+
+  if (reports.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800 px-4 py-3">
+      <div className="max-w-7xl mx-auto flex items-start justify-between gap-4">
+        <div className="text-sm text-amber-800 dark:text-amber-300">
+          <p className="font-semibold mb-1">Some saved records had problems when they were loaded</p>
+          <ul className="list-disc list-inside space-y-1">
+            {reports.map((report, index) => (
+              <li key={`${report.store}-${report.label}-${index}`}>
+                {report.store} - {report.label}: {report.issues.map(formatIssue).join('; ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+        <button
+          onClick={dismissStoredRecordReports}
+          className="px-3 py-1 text-sm bg-amber-600 text-white rounded hover:bg-amber-700 transition-colors flex-shrink-0"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+}
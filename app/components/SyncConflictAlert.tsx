@@ -0,0 +1,45 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { dismissSyncConflicts, getSyncConflicts, subscribeToSyncConflicts } from '@/lib/syncClient';
+import { SyncConflict } from '@/lib/types';
+
+const NO_CONFLICTS: SyncConflict[] = [];
+
+// Records saved before this device first synced have no edit time (the epoch)
+const formatEditTime = (updatedAt: string) =>
+  new Date(updatedAt).getTime() === 0 ? 'before syncing' : new Date(updatedAt).toLocaleString();
+
+// Lists records edited on this device and another one since the last sync, and which edit was kept
+export default function SyncConflictAlert() {
+  const conflicts = useSyncExternalStore(subscribeToSyncConflicts, getSyncConflicts, () => NO_CONFLICTS);
+
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800 px-4 py-3">
+      <div className="max-w-7xl mx-auto flex items-start justify-between gap-4">
+        <div className="text-sm text-amber-800 dark:text-amber-300">
+          <p className="font-semibold mb-1">Some records were changed on more than one device</p>
+          <ul className="list-disc list-inside space-y-1">
+            {conflicts.map((conflict) => (
+              <li key={`${conflict.collection}-${conflict.id}-${conflict.serverUpdatedAt}`}>
+                {conflict.label || `${conflict.collection} ${conflict.id}`}: kept the{' '}
+                {conflict.winner === 'local' ? 'edit from this device' : 'edit from another device'} (this device{' '}
+                {formatEditTime(conflict.localUpdatedAt)}, other device {formatEditTime(conflict.serverUpdatedAt)})
+              </li>
+            ))}
+          </ul>
+        </div>
+        <button
+          onClick={dismissSyncConflicts}
+          className="px-3 py-1 text-sm bg-amber-600 text-white rounded hover:bg-amber-700 transition-colors flex-shrink-0"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+}
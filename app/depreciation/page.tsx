@@ -0,0 +1,287 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import depreciationStorage from '@/lib/depreciationStorage';
+import {
+  DepreciationCurve,
+  DEFAULT_DEPRECIATION_CURVES,
+  GENERIC_DEPRECIATION_CURVE,
+  AVERAGE_ANNUAL_MILES,
+  matchesCurve,
+  calculateRetention,
+} from '@/lib/depreciation';
+
+const EMPTY_FORM = { make: '', model: '', annualRates: '', mileageAdjustmentPer1k: '' };
+
+const formatRates = (rates: number[]) => rates.map((rate) => `${rate}%`).join(' / ');
+
+export default function DepreciationPage() {
+  const [userCurves, setUserCurves] = useState<DepreciationCurve[]>([]);
+  const [editingCurve, setEditingCurve] = useState<DepreciationCurve | null>(null);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const loadCurves = async () => {
+    setUserCurves(await depreciationStorage.getAllCurves());
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    depreciationStorage.getAllCurves().then((curves) => {
+      if (!cancelled) setUserCurves(curves);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleAdd = () => {
+    setFormData(EMPTY_FORM);
+    setEditingCurve(null);
+    setShowAddForm(true);
+  };
+
+  const handleEdit = (curve: DepreciationCurve) => {
+    setFormData({
+      make: curve.make,
+      model: curve.model || '',
+      annualRates: curve.annualRates.join(', '),
+      mileageAdjustmentPer1k: curve.mileageAdjustmentPer1k.toString(),
+    });
+    setEditingCurve(curve);
+    setShowAddForm(true);
+  };
+
+  const handleSave = async () => {
+    const annualRates = formData.annualRates
+      .split(',')
+      .map((rate) => parseFloat(rate.trim()))
+      .filter((rate) => !isNaN(rate));
+    const mileageAdjustment = parseFloat(formData.mileageAdjustmentPer1k);
+    if (
+      !formData.make.trim() ||
+      annualRates.length === 0 ||
+      annualRates.some((rate) => rate < 0 || rate >= 100) ||
+      isNaN(mileageAdjustment) ||
+      mileageAdjustment < 0
+    ) {
+      alert('Please enter a make, yearly depreciation rates between 0 and 100% separated by commas, and a mileage adjustment of 0 or more');
+      return;
+    }
+
+    // Renaming the make/model of a custom curve replaces the old entry
+    if (editingCurve && userCurves.some((c) => c === editingCurve) && !matchesCurve(editingCurve, formData.make, formData.model)) {
+      await depreciationStorage.deleteCurve(editingCurve.make, editingCurve.model);
+    }
+
+    await depreciationStorage.saveCurve({
+      make: formData.make.trim(),
+      model: formData.model.trim() || undefined,
+      annualRates,
+      mileageAdjustmentPer1k: mileageAdjustment,
+    });
+
+    await loadCurves();
+    setShowAddForm(false);
+    setEditingCurve(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleDelete = async (curve: DepreciationCurve) => {
+    const label = `${curve.make}${curve.model ? ` ${curve.model}` : ''}`;
+    if (confirm(`Delete custom depreciation curve for ${label}? The built-in default will be used instead.`)) {
+      await depreciationStorage.deleteCurve(curve.make, curve.model);
+      await loadCurves();
+    }
+  };
+
+  const handleCancel = () => {
+    setShowAddForm(false);
+    setEditingCurve(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  // Built-in curves that haven't been overridden by the user
+  const defaultCurves = DEFAULT_DEPRECIATION_CURVES.filter(
+    (d) => !userCurves.some((u) => matchesCurve(u, d.make, d.model))
+  );
+  const allCurves = [
+    ...userCurves.map((curve) => ({ curve, custom: true })),
+    ...defaultCurves.map((curve) => ({ curve, custom: false })),
+  ].sort(
+    (a, b) =>
+      a.curve.make.localeCompare(b.curve.make) || (a.curve.model || '').localeCompare(b.curve.model || '')
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        {/* Header */}
+        <div className="mb-6">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-white">
+              Depreciation Curves
+            </h1>
+            <div className="flex flex-wrap gap-2 items-center md:w-3/4 md:justify-end">
+              <Link
+                href="/"
+                className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 font-medium transition-all shadow-sm hover:shadow-md text-sm whitespace-nowrap self-start md:self-auto"
+              >
+                Back to Main
+              </Link>
+            </div>
+          </div>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Set how fast each make or model loses value. Projected resale value starts from the listed price and follows the curve
+            for the car&apos;s age, adjusted for miles driven above or below {AVERAGE_ANNUAL_MILES.toLocaleString()} per year.
+            A model-specific curve wins over a make-wide one; custom curves win over the built-in defaults.
+          </p>
+        </div>
+
+        {/* Add/Edit Form */}
+        {showAddForm && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+              {editingCurve ? 'Edit Depreciation Curve' : 'Add Depreciation Curve'}
+            </h2>
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Make
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.make}
+                    onChange={(e) => setFormData({ ...formData, make: e.target.value })}
+                    placeholder="e.g., Ford, Toyota"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Model (optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.model}
+                    onChange={(e) => setFormData({ ...formData, model: e.target.value })}
+                    placeholder="Leave blank for all models"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Value Lost per Year (%)
+                </label>
+                <input
+                  type="text"
+                  value={formData.annualRates}
+                  onChange={(e) => setFormData({ ...formData, annualRates: e.target.value })}
+                  placeholder="e.g., 20, 15, 13, 11, 10 (first year first; the last rate repeats)"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Mileage Adjustment (% of value per 1,000 miles over average)
+                </label>
+                <input
+                  type="number"
+                  step="0.05"
+                  min="0"
+                  value={formData.mileageAdjustmentPer1k}
+                  onChange={(e) => setFormData({ ...formData, mileageAdjustmentPer1k: e.target.value })}
+                  placeholder="e.g., 0.4"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                />
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={handleSave}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={handleCancel}
+                  className="flex-1 px-4 py-2 bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 font-medium transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Curves List */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">Curves</h2>
+            {!showAddForm && (
+              <button
+                onClick={handleAdd}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium transition-colors"
+              >
+                + Add Curve
+              </button>
+            )}
+          </div>
+
+          <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3 mb-4 text-sm text-gray-700 dark:text-gray-300">
+            <span className="font-semibold">Generic (all other makes):</span> {formatRates(GENERIC_DEPRECIATION_CURVE.annualRates)} per year,
+            {' '}{GENERIC_DEPRECIATION_CURVE.mileageAdjustmentPer1k}% per 1,000 extra miles
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {allCurves.map(({ curve, custom }) => (
+              <div
+                key={`${curve.make}-${curve.model || ''}-${custom ? 'custom' : 'default'}`}
+                className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3 flex items-center justify-between gap-3"
+              >
+                <div>
+                  <div className="text-sm font-medium text-gray-900 dark:text-white">
+                    {curve.make}{curve.model ? ` ${curve.model}` : ' (all models)'}
+                    <span
+                      className={`ml-2 px-1.5 py-0.5 text-xs rounded ${
+                        custom
+                          ? 'bg-teal-100 dark:bg-teal-900 text-teal-700 dark:text-teal-300'
+                          : 'bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-300'
+                      }`}
+                    >
+                      {custom ? 'Custom' : 'Default'}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                    {formatRates(curve.annualRates)} per year • {curve.mileageAdjustmentPer1k}% per 1,000 extra miles
+                  </div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">
+                    Keeps {(calculateRetention(3, curve) * 100).toFixed(0)}% after 3 yrs, {(calculateRetention(5, curve) * 100).toFixed(0)}% after 5 yrs
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleEdit(curve)}
+                    className="px-2 py-1 text-xs bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 rounded hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors"
+                  >
+                    {custom ? 'Edit' : 'Override'}
+                  </button>
+                  {custom && (
+                    <button
+                      onClick={() => handleDelete(curve)}
+                      className="px-2 py-1 text-xs bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300 rounded hover:bg-red-200 dark:hover:bg-red-800 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import StorageMigrationAlert from "./components/StorageMigrationAlert";
+import StoredRecordAlert from "./components/StoredRecordAlert";
+import SyncConflictAlert from "./components/SyncConflictAlert";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -27,6 +30,9 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
+        <StorageMigrationAlert />
+        <StoredRecordAlert />
+        <SyncConflictAlert />
         {children}
       </body>
     </html>
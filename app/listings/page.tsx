@@ -7,12 +7,27 @@ import profileStorage from '@/lib/profileStorage';
 import makeAprStorage from '@/lib/makeAprStorage';
 import ProfileModal from '@/app/components/ProfileModal';
 import { Car } from '@/lib/types';
-import { calculateMonthlyPayment } from '@/lib/carCalculations';
+import { calculateMonthlyPayment, calculateTax, calculateMaxAffordablePrice } from '@/lib/carCalculations';
+import { readVersioned, StorageMigration, writeVersioned } from '@/lib/storageSchema';
 
 const FILTERS_STORAGE_KEY = 'car-listings-filters';
 const SEARCH_RESULTS_STORAGE_KEY = 'car-listings-search-results';
 const SEARCH_CACHE_EXPIRY = 5 * 60 * 1000; // 5 minutes in milliseconds
 
+// Saved filters are versioned; cached search results expire on their own and aren't
+const FILTER_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Version the saved listing filters',
+    migrate: (filters: Record<string, unknown>) => {
+      if (filters === null || typeof filters !== 'object' || Array.isArray(filters)) {
+        throw new Error('Expected a filters object');
+      }
+      return filters;
+    },
+  },
+];
+
 const defaultFilters = {
   make: '',
   model: '',
@@ -88,22 +103,66 @@ export default function ListingsPage() {
   };
 
   // Helper function to calculate monthly payment with taxes
-  // Uses default values: 4.5% APR, 36 months, 0 down payment, 7% tax rate
-  const calculateMonthlyPaymentWithTax = (price: number, apr: number = 0.045, termMonths: number = 36, downPayment: number = 0, taxRate: number = 7): number => {
+  // Uses default values: 4.5% APR, 36 months, 0 down payment; tax uses the profile's rate and state rules
+  const calculateMonthlyPaymentWithTax = (price: number, apr: number = 0.045, termMonths: number = 36, downPayment: number = 0): number => {
     if (!price || price === 0) return 0;
-    const tax = (price * taxRate) / 100;
+    const profile = profileStorage.getProfile();
+    const tax = calculateTax({
+      listedPrice: price,
+      negotiatedPrice: price,
+      taxRate: profile.taxRate,
+      flatTaxFee: profile.flatTaxFee,
+      taxState: profile.state,
+      tax: 0,
+    } as Car);
     const principal = price + tax - downPayment;
     const monthlyPayment = calculateMonthlyPayment(principal, apr, termMonths);
     return monthlyPayment;
   };
 
-  // Load filters from localStorage on mount
-  const loadFiltersFromStorage = () => {
+  // Max price the profile's monthly budget buys, using the same APR/term/down payment as adding a listing
+  const calculateMaxPriceForBudget = (make: string): number | null => {
+    const profile = profileStorage.getProfile();
+    if (!profile.targetMonthlyPayment) return null;
+    const termLength = profile.defaultTermLength || 60;
+    const makeSpecificApr = makeAprStorage.getRate(make, termLength);
+    return calculateMaxAffordablePrice({
+      targetMonthlyPayment: profile.targetMonthlyPayment,
+      apr: makeSpecificApr !== null ? makeSpecificApr : (profile.defaultApr || 0.045),
+      termLength,
+      downPayment: profile.defaultDownPayment || 0,
+      taxRate: profile.taxRate || 6,
+      flatTaxFee: profile.flatTaxFee || 0,
+      taxState: profile.state,
+      dealerFees: profile.typicalDealerFees || 0,
+      governmentFees: profile.typicalGovernmentFees || 0,
+      otherFees: profile.typicalOtherFees || 0,
+    }).maxNegotiatedPrice;
+  };
+
+  const renderMaxPriceHint = (price: number, make: string) => {
+    const maxPrice = calculateMaxPriceForBudget(make);
+    if (maxPrice === null) return null;
+    const withinBudget = price <= maxPrice;
+    return (
+      <div className="flex justify-between items-center text-xs">
+        <span className="text-gray-500 dark:text-gray-400">
+          Max price (${profileStorage.getProfile().targetMonthlyPayment.toLocaleString()}/mo):
+        </span>
+        <span className={`font-semibold ${withinBudget ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          ${maxPrice.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+          {withinBudget ? ' ✓' : ` (over by $${(price - maxPrice).toLocaleString(undefined, { maximumFractionDigits: 0 })})`}
+        </span>
+      </div>
+    );
+  };
+
+  // Load saved filters on mount
+  const loadFiltersFromStorage = async (): Promise<typeof defaultFilters> => {
     if (typeof window !== 'undefined') {
       try {
-        const saved = localStorage.getItem(FILTERS_STORAGE_KEY);
-        if (saved) {
-          const loaded = JSON.parse(saved);
+        const loaded = await readVersioned<Record<string, unknown>>(FILTERS_STORAGE_KEY, FILTER_MIGRATIONS);
+        if (loaded) {
           // Ensure all values are properly initialized to prevent controlled/uncontrolled warning
           return {
             make: typeof loaded.make === 'string' ? loaded.make : '',
@@ -124,13 +183,15 @@ export default function ListingsPage() {
           };
         }
       } catch (error) {
-        console.error('Error loading filters from localStorage:', error);
+        console.error('Error loading filters from storage:', error);
       }
     }
     return defaultFilters;
   };
 
-  const [filters, setFilters] = useState(loadFiltersFromStorage);
+  const [filters, setFilters] = useState(defaultFilters);
+  // Filters aren't saved until the stored ones are loaded, so the defaults don't overwrite them
+  const [filtersLoaded, setFiltersLoaded] = useState(false);
   
   const [listings, setListings] = useState<Listing[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -142,6 +203,14 @@ export default function ListingsPage() {
   const [showRawJson, setShowRawJson] = useState(false);
   const [showProfileModal, setShowProfileModal] = useState(false);
 
+  // Load saved filters, plus the profile and make APR rates used for payment and budget hints
+  useEffect(() => {
+    Promise.all([loadFiltersFromStorage(), profileStorage.loadProfile(), makeAprStorage.getAllRates()]).then(([savedFilters]) => {
+      setFilters(savedFilters);
+      setFiltersLoaded(true);
+    });
+  }, []);
+
   // Load cached search results on mount
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -163,16 +232,14 @@ export default function ListingsPage() {
     }
   }, []); // Only run on mount
 
-  // Save filters to localStorage whenever they change
+  // Save filters whenever they change
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      try {
-        localStorage.setItem(FILTERS_STORAGE_KEY, JSON.stringify(filters));
-      } catch (error) {
-        console.error('Error saving filters to localStorage:', error);
-      }
+    if (typeof window !== 'undefined' && filtersLoaded) {
+      writeVersioned(FILTERS_STORAGE_KEY, filters, FILTER_MIGRATIONS).catch((error) => {
+        console.error('Error saving filters to storage:', error);
+      });
     }
-  }, [filters]);
+  }, [filters, filtersLoaded]);
 
   const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
@@ -183,14 +250,6 @@ export default function ListingsPage() {
         ...prev, 
         [name]: type === 'checkbox' ? checked : value 
       };
-      // Save to localStorage immediately
-      if (typeof window !== 'undefined') {
-        try {
-          localStorage.setItem(FILTERS_STORAGE_KEY, JSON.stringify(updated));
-        } catch (error) {
-          console.error('Error saving filters to localStorage:', error);
-        }
-      }
       return updated;
     });
   };
@@ -333,7 +392,7 @@ export default function ListingsPage() {
     handleSearch(1);
   };
 
-  const handleAddToList = (listing: Listing) => {
+  const handleAddToList = async (listing: Listing) => {
     try {
       // Build notes with address and dealership info
       const notesParts: string[] = [];
@@ -428,14 +487,9 @@ export default function ListingsPage() {
       const makeSpecificApr = makeAprStorage.getRate(listing.vehicle.make, defaultTermLength);
       const finalApr = makeSpecificApr !== null ? makeSpecificApr : (profile.defaultApr || 0.045);
       
-      // Calculate tax using profile defaults
-      // In Florida: Tax is calculated on Negotiated Price + Dealer Fees + Other Fees (Government fees are NOT taxable)
+      // Calculate tax using profile defaults and the profile state's tax rules
       const taxRate = profile.taxRate || 6;
       const flatTaxFee = profile.flatTaxFee || 0;
-      // Note: When adding from listing, fees are 0, so tax is just on negotiated price initially
-      // User will need to add fees in the form, which will recalculate tax
-      const taxableAmount = finalNegotiatedPrice; // + dealerFees + otherFees (will be 0 initially)
-      const tax = (taxableAmount * taxRate) / 100 + flatTaxFee;
       
       // Create a new car object
       const newCar: Car = {
@@ -454,22 +508,25 @@ export default function ListingsPage() {
         notes: notesParts.join(' | '),
         taxRate: taxRate,
         flatTaxFee: flatTaxFee,
-        tax: tax,
+        taxState: profile.state,
+        tax: 0,
         creditScore: profile.creditScore || 0,
         mileage: listing.retailListing?.miles !== undefined ? listing.retailListing.miles : 0,
         seats: listing.vehicle.seats,
         downPayment: profile.defaultDownPayment || 0,
-        dealerFees: 0,
-        governmentFees: 0,
-        otherFees: 0,
+        fees: [],
         repName: '',
         repPhone: '',
         carfaxUrl: listing.retailListing?.carfaxUrl || listing.carfaxUrl || '',
         vdpUrl: (listing.retailListing as any)?.vdp || listing.retailListing?.vdpUrl || (listing as any)?.vdp || listing.vdpUrl || '',
       };
       
+      // Note: When adding from listing, fees are 0, so tax is just on the price initially
+      // User will need to add fees in the form, which will recalculate tax
+      newCar.tax = calculateTax(newCar);
+      
       // Add to car storage
-      carStorage.saveCar(newCar);
+      await carStorage.saveCar(newCar);
       
       // Optionally redirect to main page
       // window.location.href = '/';
@@ -771,14 +828,6 @@ export default function ListingsPage() {
                 type="button"
                 onClick={() => {
                   setFilters(defaultFilters);
-                  // Clear from localStorage
-                  if (typeof window !== 'undefined') {
-                    try {
-                      localStorage.setItem(FILTERS_STORAGE_KEY, JSON.stringify(defaultFilters));
-                    } catch (error) {
-                      console.error('Error clearing filters from localStorage:', error);
-                    }
-                  }
                   setListings([]);
                   setHasSearched(false);
                   setError('');
@@ -918,6 +967,7 @@ export default function ListingsPage() {
                             ${calculateMonthlyPaymentWithTax(listing.retailListing.price).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                           </span>
                         </div>
+                        {renderMaxPriceHint(listing.retailListing.price, listing.vehicle.make)}
                       </>
                     ) : null}
                     
@@ -1110,6 +1160,9 @@ export default function ListingsPage() {
                         ${calculateMonthlyPaymentWithTax(selectedListing.retailListing.price).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                       </span>
                     </div>
+                    <div className="mt-1">
+                      {renderMaxPriceHint(selectedListing.retailListing.price, selectedListing.vehicle.make)}
+                    </div>
                   </div>
                 )}
                 <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
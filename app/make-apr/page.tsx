@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import makeAprStorage, { MakeAprRate } from '@/lib/makeAprStorage';
+import { subscribeToRemoteChanges } from '@/lib/syncClient';
 
 const COMMON_TERM_LENGTHS = [36, 48, 60, 66, 72, 84];
 
@@ -20,10 +21,14 @@ export default function MakeAprPage() {
 
   useEffect(() => {
     loadRates();
+    // Pick up rates changed on another device
+    return subscribeToRemoteChanges((collections) => {
+      if (collections.includes('makeAprRates')) loadRates();
+    });
   }, []);
 
-  const loadRates = () => {
-    const allRates = makeAprStorage.getAllRates();
+  const loadRates = async () => {
+    const allRates = await makeAprStorage.getAllRates();
     const allMakes = makeAprStorage.getAllMakes();
     setRates(allRates);
     setMakes(allMakes);
@@ -45,29 +50,29 @@ export default function MakeAprPage() {
     setShowAddForm(true);
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     const aprValue = parseFloat(formData.apr);
     if (!formData.make.trim() || isNaN(aprValue) || aprValue < 0 || aprValue > 100) {
       alert('Please enter a valid make and APR (0-100%)');
       return;
     }
 
-    makeAprStorage.saveRate({
+    await makeAprStorage.saveRate({
       make: formData.make.trim(),
       termLength: formData.termLength,
       apr: aprValue / 100, // Convert percentage to decimal
     });
 
-    loadRates();
+    await loadRates();
     setShowAddForm(false);
     setEditingRate(null);
     setFormData({ make: '', termLength: 60, apr: '' });
   };
 
-  const handleDelete = (make: string, termLength: number) => {
+  const handleDelete = async (make: string, termLength: number) => {
     if (confirm(`Delete APR rate for ${make} at ${termLength} months?`)) {
-      makeAprStorage.deleteRate(make, termLength);
-      loadRates();
+      await makeAprStorage.deleteRate(make, termLength);
+      await loadRates();
     }
   };
 
@@ -7,10 +7,57 @@ import CarCard from './components/CarCard';
 import CarForm from './components/CarForm';
 import CarChart from './components/CarChart';
 import ProfileModal from './components/ProfileModal';
-import profileStorage from '@/lib/profileStorage';
-import makeAprStorage from '@/lib/makeAprStorage';
+import AffordabilityCalculator from './components/AffordabilityCalculator';
+import ImportMergeModal from './components/ImportMergeModal';
+import ImportValidationModal from './components/ImportValidationModal';
+import profileStorage, { UserProfile } from '@/lib/profileStorage';
+import makeAprStorage, { MakeAprRate } from '@/lib/makeAprStorage';
+import depreciationStorage from '@/lib/depreciationStorage';
+import { subscribeToRemoteChanges } from '@/lib/syncClient';
+import {
+  describeCar,
+  MergeConflict,
+  MergeResolution,
+  planCarMerge,
+  planProfileMerge,
+  planRateMerge,
+  resolveCarMerge,
+  resolveProfileMerge,
+  resolveRateMerge,
+} from '@/lib/importMerge';
+import {
+  needsReview,
+  resolveValidationReview,
+  reviewRecords,
+  validateCar,
+  validateMakeAprRate,
+  validateProfile,
+  ValidationChoice,
+  ValidationReview,
+} from '@/lib/validation';
 import Link from 'next/link';
 
+// A merge import waiting for the user to resolve conflicts in the preview
+interface PendingImport {
+  title: string;
+  summary: string;
+  conflicts: MergeConflict<unknown>[];
+  apply: (resolutions: Record<string, MergeResolution>) => Promise<void>;
+}
+
+// An import with invalid records waiting for the user to choose what to do with each one
+interface PendingValidation {
+  title: string;
+  reviews: ValidationReview<unknown>[];
+  apply: (choices: Record<string, ValidationChoice>) => Promise<void>;
+}
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Rows the merge plan dropped because a later row in the file has the same key
+const describeDuplicates = (count: number, sameWhat: string) =>
+  count > 0 ? ` ${pluralize(count, 'duplicate row')} with the same ${sameWhat} as a later row will be skipped.` : '';
+
 export default function Home() {
   const [cars, setCars] = useState<Car[]>([]);
   const [selectedCar, setSelectedCar] = useState<Car | null>(null);
@@ -20,55 +67,64 @@ export default function Home() {
   const [aprOverride, setAprOverride] = useState<string>('');
   const [termOverride, setTermOverride] = useState<string>('');
   const [showProfileModal, setShowProfileModal] = useState(false);
+  const [showAffordability, setShowAffordability] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [pendingValidation, setPendingValidation] = useState<PendingValidation | null>(null);
 
   useEffect(() => {
     loadCars();
-    
-    // Check if there's a listing to add from the listings page
-    const listingData = sessionStorage.getItem('listingToAdd');
-    if (listingData) {
-      try {
-        const listing = JSON.parse(listingData);
-        // Get profile defaults
-        const profile = profileStorage.getProfile();
-        // Create a partial car object from the listing
-        const partialCar: Partial<Car> = {
-          vin: listing.vin,
-          make: listing.make,
-          model: listing.model,
-          year: listing.year,
-          tier: listing.tier || '',
-          mileage: listing.mileage || 0,
-          dealership: listing.dealership || '',
-          listedPrice: listing.listedPrice || 0,
-          // Set defaults for required fields
-          id: '',
-          negotiatedPrice: listing.listedPrice || 0,
-          apr: 0,
-          buyRateApr: 0,
-          termLength: profile.defaultTermLength || 60,
-          notes: '',
-          taxRate: profile.taxRate || 0,
-          flatTaxFee: profile.flatTaxFee || 0,
-          tax: 0,
-          creditScore: profile.creditScore || 0,
-          seats: 0,
-          downPayment: profile.defaultDownPayment || 0,
-          dealerFees: 0,
-          governmentFees: 0,
-          otherFees: 0,
-          repName: '',
-          repPhone: '',
-        };
-        
-        setEditingCar(partialCar as Car);
-        setShowForm(true);
-        sessionStorage.removeItem('listingToAdd');
-      } catch (error) {
-        console.error('Error parsing listing data:', error);
-        sessionStorage.removeItem('listingToAdd');
+
+    const addListingFromSession = async () => {
+      // Check if there's a listing to add from the listings page
+      const listingData = sessionStorage.getItem('listingToAdd');
+      if (listingData) {
+        try {
+          const listing = JSON.parse(listingData);
+          // Get profile defaults
+          const profile = await profileStorage.loadProfile();
+          // Create a partial car object from the listing
+          const partialCar: Partial<Car> = {
+            vin: listing.vin,
+            make: listing.make,
+            model: listing.model,
+            year: listing.year,
+            tier: listing.tier || '',
+            mileage: listing.mileage || 0,
+            dealership: listing.dealership || '',
+            listedPrice: listing.listedPrice || 0,
+            // Set defaults for required fields
+            id: '',
+            negotiatedPrice: listing.listedPrice || 0,
+            apr: 0,
+            buyRateApr: 0,
+            termLength: profile.defaultTermLength || 60,
+            notes: '',
+            taxRate: profile.taxRate || 0,
+            flatTaxFee: profile.flatTaxFee || 0,
+            tax: 0,
+            creditScore: profile.creditScore || 0,
+            seats: 0,
+            downPayment: profile.defaultDownPayment || 0,
+            fees: [],
+            repName: '',
+            repPhone: '',
+          };
+          
+          setEditingCar(partialCar as Car);
+          setShowForm(true);
+          sessionStorage.removeItem('listingToAdd');
+        } catch (error) {
+          console.error('Error parsing listing data:', error);
+          sessionStorage.removeItem('listingToAdd');
+        }
       }
-    }
+    };
+    addListingFromSession();
+
+    // Pick up cars and profile changes made on another device
+    return subscribeToRemoteChanges((collections) => {
+      if (collections.includes('cars') || collections.includes('profile')) loadCars();
+    });
   }, []);
 
   // Refresh selected car when cars array updates (e.g., after editing)
@@ -88,8 +144,13 @@ export default function Home() {
     }
   }, [selectedCar?.id]);
 
-  const loadCars = () => {
-    const allCars = carStorage.getAllCars();
+  const loadCars = async () => {
+    // Car details read the profile and depreciation curves while rendering, so load them with the cars
+    const [allCars] = await Promise.all([
+      carStorage.getAllCars(),
+      profileStorage.loadProfile(),
+      depreciationStorage.getAllCurves(),
+    ]);
     setCars(allCars);
     
     // Try to restore previously selected car from localStorage
@@ -118,10 +179,10 @@ export default function Home() {
     setShowForm(true);
   };
 
-  const handleDeleteCar = (carId: string) => {
+  const handleDeleteCar = async (carId: string) => {
     if (confirm('Are you sure you want to delete this car?')) {
-      carStorage.deleteCar(carId);
-      loadCars();
+      await carStorage.deleteCar(carId);
+      await loadCars();
       if (selectedCar?.id === carId) {
         const remainingCars = cars.filter((c) => c.id !== carId);
         setSelectedCar(remainingCars.length > 0 ? remainingCars[0] : null);
@@ -144,9 +205,8 @@ export default function Home() {
     setSelectedCar(car);
   };
 
-  const handleExportProfileAndMakeApr = () => {
-    const profile = profileStorage.getProfile();
-    const makeAprRates = makeAprStorage.getAllRates();
+  const handleExportProfileAndMakeApr = async () => {
+    const [profile, makeAprRates] = await Promise.all([profileStorage.loadProfile(), makeAprStorage.getAllRates()]);
     
     const exportData = {
       profile,
@@ -166,6 +226,19 @@ export default function Home() {
     URL.revokeObjectURL(url);
   };
 
+  // Imports with invalid records are reviewed record by record first; clean imports go straight to the merge
+  const reviewImport = async (
+    title: string,
+    reviews: ValidationReview<unknown>[],
+    planMerge: (choices: Record<string, ValidationChoice>) => Promise<void>
+  ) => {
+    if (reviews.some(needsReview)) {
+      setPendingValidation({ title, reviews, apply: planMerge });
+    } else {
+      await planMerge({});
+    }
+  };
+
   const handleImportProfileAndMakeApr = () => {
     const input = document.createElement('input');
     input.type = 'file';
@@ -174,7 +247,7 @@ export default function Home() {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
         const reader = new FileReader();
-        reader.onload = (event) => {
+        reader.onload = async (event) => {
           try {
             const json = event.target?.result as string;
             const data = JSON.parse(json);
@@ -184,37 +257,19 @@ export default function Home() {
               return;
             }
             
-            if (
-              confirm(
-                'This will replace your current profile settings and make APR rates. Are you sure you want to continue?'
-              )
-            ) {
-              // Import profile if present
-              if (data.profile) {
-                profileStorage.saveProfile(data.profile);
-              }
-              
-              // Import make APR rates if present
-              if (data.makeAprRates && Array.isArray(data.makeAprRates)) {
-                // Clear existing rates and import new ones
-                const existingRates = makeAprStorage.getAllRates();
-                existingRates.forEach((rate) => {
-                  makeAprStorage.deleteRate(rate.make, rate.termLength);
-                });
-                
-                data.makeAprRates.forEach((rate: { make: string; termLength: number; apr: number }) => {
-                  if (rate.make && rate.termLength && typeof rate.apr === 'number') {
-                    makeAprStorage.saveRate({
-                      make: rate.make,
-                      termLength: rate.termLength,
-                      apr: rate.apr,
-                    });
-                  }
-                });
-              }
-              
-              alert('Profile and Make APR rates imported successfully!');
-            }
+            const profileReviews = reviewRecords('profile', data.profile ? [data.profile] : [], validateProfile, () => 'Profile settings');
+            const rateReviews = reviewRecords(
+              'rate',
+              Array.isArray(data.makeAprRates) ? data.makeAprRates : [],
+              validateMakeAprRate,
+              (rate) => `${rate.make || 'Unknown make'} ${rate.termLength} months`
+            );
+            const planImport = async (choices: Record<string, ValidationChoice>) => {
+              const [incomingProfile] = resolveValidationReview(profileReviews, choices);
+              const incomingRates = resolveValidationReview(rateReviews, choices);
+              await planProfileAndRateImport(incomingProfile, incomingRates);
+            };
+            await reviewImport('Import Profile & Make APR Rates', [...profileReviews, ...rateReviews], planImport);
           } catch (error) {
             alert('Error importing file: ' + (error as Error).message);
           }
@@ -225,9 +280,55 @@ export default function Home() {
     input.click();
   };
 
-  const handleExportAll = () => {
+  // Validated records are merged with what's saved; conflicts go to the merge preview
+  const planProfileAndRateImport = async (
+    incomingProfile: Partial<UserProfile> | undefined,
+    incomingRates: MakeAprRate[]
+  ) => {
+    const [profile, rates] = await Promise.all([profileStorage.loadProfile(), makeAprStorage.getAllRates()]);
+    const profilePlan = planProfileMerge(profile, incomingProfile || {});
+    const ratePlan = planRateMerge(rates, incomingRates);
+    
+    setPendingImport({
+      title: 'Import Profile & Make APR Rates',
+      summary: `${pluralize(ratePlan.added.length, 'new rate')} will be added; ${pluralize(
+        ratePlan.unchanged,
+        'rate'
+      )} already match.${describeDuplicates(ratePlan.duplicates, 'make and term')}${
+        incomingProfile && profilePlan.unchanged ? ' The profile already matches.' : ''
+      }`,
+      conflicts: [...profilePlan.conflicts, ...ratePlan.conflicts],
+      apply: async (resolutions) => {
+        const importedProfile = resolveProfileMerge(profilePlan, resolutions);
+        if (importedProfile) {
+          await profileStorage.saveProfile(importedProfile);
+        }
+        for (const rate of resolveRateMerge(ratePlan, resolutions)) {
+          await makeAprStorage.saveRate(rate);
+        }
+      },
+    });
+  };
+
+  const planCarImport = async (incoming: Car[]) => {
+    const plan = planCarMerge(await carStorage.getAllCars(), incoming);
+    setPendingImport({
+      title: 'Import Cars',
+      summary: `${pluralize(plan.added.length, 'new car')} will be added; ${pluralize(
+        plan.unchanged,
+        'car'
+      )} already match.${describeDuplicates(plan.duplicates, 'ID or VIN')} Saved cars missing from the file are kept.`,
+      conflicts: plan.conflicts,
+      apply: async (resolutions) => {
+        await carStorage.saveCars(resolveCarMerge(plan, resolutions));
+        await loadCars();
+      },
+    });
+  };
+
+  const handleExportAll = async () => {
     try {
-      const json = carStorage.exportAllCars();
+      const json = await carStorage.exportAllCars();
       const blob = new Blob([json], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -250,18 +351,11 @@ export default function Home() {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
         const reader = new FileReader();
-        reader.onload = (event) => {
+        reader.onload = async (event) => {
           try {
             const json = event.target?.result as string;
-            if (
-              confirm(
-                'This will replace all current cars. Are you sure you want to continue?'
-              )
-            ) {
-              carStorage.importAllCars(json);
-              loadCars();
-              setSelectedCar(null);
-            }
+            const reviews = reviewRecords('car', carStorage.parseCarsImport(json), validateCar, describeCar);
+            await reviewImport('Import Cars', reviews, (choices) => planCarImport(resolveValidationReview(reviews, choices)));
           } catch (error) {
             alert('Error importing cars: ' + (error as Error).message);
           }
@@ -311,6 +405,12 @@ export default function Home() {
               >
                 Make APR Rates
               </Link>
+              <Link
+                href="/depreciation"
+                className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 font-medium transition-all shadow-sm hover:shadow-md text-sm whitespace-nowrap"
+              >
+                Depreciation
+              </Link>
             </div>
           </div>
         </div>
@@ -347,8 +447,16 @@ export default function Home() {
           >
             Import Profile & Make APR
           </button>
+          <button
+            onClick={() => setShowAffordability((prev) => !prev)}
+            className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 font-medium transition-colors"
+          >
+            What Can I Afford?
+          </button>
         </div>
 
+        {showAffordability && <AffordabilityCalculator onClose={() => setShowAffordability(false)} />}
+
         {cars.length === 0 ? (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 text-center text-gray-500 dark:text-gray-400">
             No cars added yet. Click &quot;Add New Car&quot; to get started.
@@ -415,6 +523,39 @@ export default function Home() {
         isOpen={showProfileModal}
         onClose={() => setShowProfileModal(false)}
       />
+
+      {pendingValidation && (
+        <ImportValidationModal
+          title={pendingValidation.title}
+          reviews={pendingValidation.reviews}
+          onCancel={() => setPendingValidation(null)}
+          onConfirm={async (choices) => {
+            setPendingValidation(null);
+            try {
+              await pendingValidation.apply(choices);
+            } catch (error) {
+              alert('Error importing: ' + (error as Error).message);
+            }
+          }}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportMergeModal
+          title={pendingImport.title}
+          summary={pendingImport.summary}
+          conflicts={pendingImport.conflicts}
+          onCancel={() => setPendingImport(null)}
+          onConfirm={async (resolutions) => {
+            try {
+              await pendingImport.apply(resolutions);
+            } catch (error) {
+              alert('Error importing: ' + (error as Error).message);
+            }
+            setPendingImport(null);
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -1,55 +1,420 @@
-import { Car, PaymentScheduleEntry, CarCalculations } from './types';
+import { Car, PaymentScheduleEntry, CarCalculations, LeaseCalculations, LeaseBuyoutCalculations, LeaseEndOption, PrepaymentCalculations, RefinanceCalculations, TcoInputs, TcoCalculations, TcoYearEntry, ValueProjectionEntry, NegativeEquityCalculations, GapRecommendation, AffordabilityInputs, AffordabilityCalculations, QuotedPaymentCalculations, CashVsFinanceCalculations, FeeItem, FeeCategory, Incentive, AddOn, AddOnImpact, DownPaymentSweepEntry, DownPaymentOptimization, SensitivityCell } from './types';
+import { getTaxRule, applyTaxRate, StateTaxRule } from './taxRules';
+import { DepreciationCurve, calculateRetention, calculateMileageFactor } from './depreciation';
 
+// A balloon is still owed after the last regular payment and is paid on top of it
 export function calculateMonthlyPayment(
   principal: number,
   apr: number,
-  termMonths: number
+  termMonths: number,
+  balloon: number = 0
 ): number {
+  // Nothing to amortize (cash deals have no term)
+  if (termMonths <= 0) {
+    return 0;
+  }
   if (apr === 0) {
-    return principal / termMonths;
+    return (principal - balloon) / termMonths;
   }
   
   const monthlyRate = apr / 12;
   const payment =
-    (principal * monthlyRate * Math.pow(1 + monthlyRate, termMonths)) /
+    ((principal * Math.pow(1 + monthlyRate, termMonths) - balloon) * monthlyRate) /
     (Math.pow(1 + monthlyRate, termMonths) - 1);
   
   return payment;
 }
 
-export function calculatePaymentSchedule(car: Car): PaymentScheduleEntry[] {
-  // Calculate total fees by category
-  const totalDealerFees = car.dealerFees || 0;
-  const totalGovernmentFees = car.governmentFees || 0;
-  const totalOtherFees = car.otherFees || 0;
-  const totalFees = totalDealerFees + totalGovernmentFees + totalOtherFees;
-  
-  // In Florida: Tax is calculated on Negotiated Price + Dealer Fees + Other Fees
-  // Government fees are NOT taxable
-  const taxableAmount = car.negotiatedPrice + totalDealerFees + totalOtherFees;
+// Reverse of calculateMonthlyPayment: the loan amount a monthly payment pays off over the term
+export function calculateMaxPrincipal(
+  monthlyPayment: number,
+  apr: number,
+  termMonths: number
+): number {
+  if (monthlyPayment <= 0 || termMonths <= 0) {
+    return 0;
+  }
+  if (apr === 0) {
+    return monthlyPayment * termMonths;
+  }
+
+  const monthlyRate = apr / 12;
+  return (monthlyPayment * (1 - Math.pow(1 + monthlyRate, -termMonths))) / monthlyRate;
+}
+
+// Inverse of calculateMonthlyPayment: the APR at which the payment pays off the principal over the term.
+// `paymentAt` gives the payment for an APR (loans with a balloon or deferral pass their own).
+// Returns null when no non-negative APR works (the payment is below the 0% payment) or it's above 100%.
+export function calculateImpliedApr(
+  principal: number,
+  termMonths: number,
+  monthlyPayment: number,
+  paymentAt: (apr: number) => number = (apr) => calculateMonthlyPayment(principal, apr, termMonths)
+): number | null {
+  if (principal <= 0 || termMonths <= 0 || monthlyPayment <= 0) {
+    return null;
+  }
+  if (paymentAt(0) > monthlyPayment + 0.005) {
+    return null;
+  }
+
+  // Payment rises with APR, so bisect between 0% and 100%
+  let low = 0;
+  let high = 1;
+  if (paymentAt(high) < monthlyPayment) {
+    return null;
+  }
+  for (let iteration = 0; iteration < 100 && high - low > 1e-9; iteration++) {
+    const mid = (low + high) / 2;
+    if (paymentAt(mid) < monthlyPayment) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+// Highest negotiated price whose payment (price + fees + tax - down, financed) fits the target payment
+export function calculateMaxAffordablePrice(inputs: AffordabilityInputs): AffordabilityCalculations {
+  const maxFinancedAmount = calculateMaxPrincipal(inputs.targetMonthlyPayment, inputs.apr, inputs.termLength);
+  const totalFees = (inputs.dealerFees || 0) + (inputs.governmentFees || 0) + (inputs.otherFees || 0);
+  const fees = convertLegacyFees(inputs);
+  const taxAt = (price: number) =>
+    calculateTax({
+      listedPrice: price,
+      negotiatedPrice: price,
+      taxRate: inputs.taxRate,
+      flatTaxFee: inputs.flatTaxFee,
+      taxState: inputs.taxState,
+      fees,
+      tax: 0,
+    } as Car);
+  const financedAt = (price: number) => price + totalFees + taxAt(price) - (inputs.downPayment || 0);
+
+  // Financed amount only grows with price, but state tax rules (surtax caps, untaxed fees) aren't a single
+  // formula, so bisect for the price instead of solving algebraically
+  let low = 0;
+  let high = maxFinancedAmount + (inputs.downPayment || 0);
+  if (financedAt(low) > maxFinancedAmount) {
+    high = 0;
+  }
+  for (let iteration = 0; iteration < 60 && high - low > 0.005; iteration++) {
+    const mid = (low + high) / 2;
+    if (financedAt(mid) <= maxFinancedAmount) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  const maxNegotiatedPrice = Math.floor(low * 100) / 100;
+  const tax = maxNegotiatedPrice > 0 ? taxAt(maxNegotiatedPrice) : 0;
+  return {
+    maxFinancedAmount,
+    maxNegotiatedPrice,
+    tax,
+    totalFees,
+    outTheDoorPrice: maxNegotiatedPrice + totalFees + tax,
+  };
+}
+
+const LEGACY_FEE_NAMES: Record<FeeCategory, string> = {
+  dealer: 'Dealer Fees',
+  government: 'Government Fees',
+  other: 'Other Fees',
+};
+
+// One line item per category for lump-sum fees (cars saved before fees were itemized)
+export function convertLegacyFees(lumpSums: { dealerFees?: number; governmentFees?: number; otherFees?: number }): FeeItem[] {
+  const amounts: Record<FeeCategory, number> = {
+    dealer: lumpSums.dealerFees || 0,
+    government: lumpSums.governmentFees || 0,
+    other: lumpSums.otherFees || 0,
+  };
+  return (Object.keys(amounts) as FeeCategory[])
+    .filter(category => amounts[category] > 0)
+    .map(category => ({
+      name: LEGACY_FEE_NAMES[category],
+      amount: amounts[category],
+      category,
+      negotiable: category !== 'government',
+      status: 'required',
+    }));
+}
+
+// Fees actually charged (refused fees are left out of every total)
+export function getChargedFees(car: Car): FeeItem[] {
+  return (car.fees || []).filter(fee => fee.status !== 'refused' && fee.amount > 0);
+}
+
+export function isFeeTaxable(fee: FeeItem, rule: StateTaxRule): boolean {
+  return fee.taxable ?? rule.taxableFees[fee.category];
+}
+
+// Category totals of the charged fees
+export function calculateFeeTotals(car: Car) {
+  const sumCategory = (category: FeeCategory) =>
+    getChargedFees(car)
+      .filter(fee => fee.category === category)
+      .reduce((sum, fee) => sum + fee.amount, 0);
+  const dealerFees = sumCategory('dealer');
+  const governmentFees = sumCategory('government');
+  const otherFees = sumCategory('other');
+  const refusedFees = (car.fees || [])
+    .filter(fee => fee.status === 'refused')
+    .reduce((sum, fee) => sum + fee.amount, 0);
+  return { dealerFees, governmentFees, otherFees, totalFees: dealerFees + governmentFees + otherFees, refusedFees };
+}
+
+// Add-on totals, split by whether they're rolled into the loan or paid at signing
+export function calculateAddOnTotals(car: Car) {
+  const addOns = (car.addOns || []).filter(addOn => addOn.price > 0);
+  const totalAddOns = addOns.reduce((sum, addOn) => sum + addOn.price, 0);
+  const financedAddOns = addOns.filter(addOn => addOn.financed).reduce((sum, addOn) => sum + addOn.price, 0);
+  const taxableAddOns = addOns.filter(addOn => addOn.taxable).reduce((sum, addOn) => sum + addOn.price, 0);
+  return { totalAddOns, financedAddOns, upfrontAddOns: totalAddOns - financedAddOns, taxableAddOns };
+}
+
+export function calculateTradeIn(car: Car) {
+  const tradeInValue = car.tradeInValue || 0;
+  const tradeInPayoff = car.tradeInPayoff || 0;
+  const tradeInEquity = tradeInValue - tradeInPayoff;
+  // Negative equity (owing more than the trade is worth) gets rolled into the new loan
+  const negativeEquity = Math.max(0, -tradeInEquity);
+  return { tradeInValue, tradeInPayoff, tradeInEquity, negativeEquity };
+}
+
+export function isIncentiveTaxable(incentive: Incentive, rule: StateTaxRule): boolean {
+  return incentive.taxable ?? rule.rebatesTaxable;
+}
+
+export function calculateIncentives(car: Car) {
+  const rule = getTaxRule(car.taxState);
+  const incentives = (car.incentives || []).filter(incentive => incentive.amount > 0);
+  const totalIncentives = incentives.reduce((sum, incentive) => sum + incentive.amount, 0);
+  // Only non-taxable incentives taken off the price before tax reduce the taxable amount
+  const nonTaxableIncentives = incentives
+    .filter(incentive => !isIncentiveTaxable(incentive, rule) && incentive.appliedBeforeTax)
+    .reduce((sum, incentive) => sum + incentive.amount, 0);
+  return { totalIncentives, nonTaxableIncentives, taxableIncentives: totalIncentives - nonTaxableIncentives };
+}
+
+export function calculateTaxableAmount(car: Car): number {
+  const rule = getTaxRule(car.taxState);
+  // Ad valorem states (e.g., Georgia TAVT) tax the fair market value rather than the sale price
+  // Lease buyouts are taxed on the residual + purchase option fee; remaining lease payments carry their own tax
+  let price = car.negotiatedPrice;
+  if (rule.adValorem) {
+    price = car.listedPrice > 0 ? car.listedPrice : car.negotiatedPrice;
+  } else if (car.dealType === 'buyout') {
+    price = (car.residualValue || 0) + (car.purchaseOptionFee || 0);
+  }
+  const taxableFees = getChargedFees(car)
+    .filter(fee => isFeeTaxable(fee, rule))
+    .reduce((sum, fee) => sum + fee.amount, 0);
+  const { taxableAddOns } = calculateAddOnTotals(car);
+  // Non-taxable incentives come off before tax (fair market value isn't reduced by rebates)
+  const { nonTaxableIncentives } = calculateIncentives(car);
+  let taxableAmount = Math.max(0, price + taxableFees + taxableAddOns - (rule.adValorem ? 0 : nonTaxableIncentives));
+  // States with a trade-in credit only tax the difference between the price and the trade-in value
+  const tradeInTaxCredit = car.tradeInTaxCredit ?? rule.tradeInCredit;
+  if (tradeInTaxCredit && car.tradeInValue && car.tradeInValue > 0) {
+    taxableAmount = Math.max(0, taxableAmount - car.tradeInValue);
+  }
+  return taxableAmount;
+}
+
+export function calculateTax(car: Car): number {
+  const taxableAmount = calculateTaxableAmount(car);
   
   // Ensure tax is calculated from taxRate if taxRate exists
   let calculatedTax = car.tax;
   if (car.taxRate && car.taxRate > 0 && taxableAmount > 0) {
-    calculatedTax = (taxableAmount * car.taxRate) / 100 + (car.flatTaxFee || 0);
+    calculatedTax = applyTaxRate(taxableAmount, car.taxRate, getTaxRule(car.taxState)) + (car.flatTaxFee || 0);
   } else if (car.flatTaxFee && car.flatTaxFee > 0) {
     calculatedTax = car.flatTaxFee;
   }
-  
-  // Principal = Negotiated Price + All Fees + Tax - Down Payment
-  const principal = car.negotiatedPrice + totalFees + calculatedTax - car.downPayment;
-  const monthlyRate = car.apr / 12;
-  const monthlyPayment = calculateMonthlyPayment(principal, car.apr, car.termLength);
+  return calculatedTax;
+}
+
+// Tax and fees the buyer pays at signing instead of rolling into the loan (everything is financed by default)
+export function calculateUpfrontCosts(car: Car, calculatedTax: number) {
+  const paidUpfront = car.paidUpfront || {};
+  const { dealerFees, governmentFees, otherFees } = calculateFeeTotals(car);
+  const upfrontTax = paidUpfront.tax ? calculatedTax : 0;
+  const upfrontFees =
+    (paidUpfront.dealerFees ? dealerFees : 0) +
+    (paidUpfront.governmentFees ? governmentFees : 0) +
+    (paidUpfront.otherFees ? otherFees : 0);
+  return { upfrontTax, upfrontFees, upfrontCosts: upfrontTax + upfrontFees };
+}
+
+// Principal = Negotiated Price + All Fees + Financed Add-Ons + Tax - Upfront Costs - Down Payment - Trade-In Equity - Incentives
+// (negative trade-in equity increases the principal)
+function calculatePrincipal(car: Car, calculatedTax: number): number {
+  const { totalFees } = calculateFeeTotals(car);
+  const { financedAddOns } = calculateAddOnTotals(car);
+  const { upfrontCosts } = calculateUpfrontCosts(car, calculatedTax);
+  const { tradeInEquity } = calculateTradeIn(car);
+  const { totalIncentives } = calculateIncentives(car);
+  return car.negotiatedPrice + totalFees + financedAddOns + calculatedTax - upfrontCosts - car.downPayment - tradeInEquity - totalIncentives;
+}
+
+// Standard amortization: fixed payment, interest on the remaining balance each month.
+// A balloon is paid with the final payment; interest accrued during a deferred first payment is added to the balance.
+function buildAmortizationSchedule(
+  principal: number,
+  apr: number,
+  termMonths: number,
+  balloon: number = 0,
+  deferralInterest: number = 0
+): PaymentScheduleEntry[] {
+  const monthlyRate = apr / 12;
+  const monthlyPayment = calculateMonthlyPayment(principal + deferralInterest, apr, termMonths, balloon);
   
   const schedule: PaymentScheduleEntry[] = [];
-  let remainingBalance = principal;
+  let remainingBalance = principal + deferralInterest;
   let cumulativePrincipal = 0;
   let cumulativeInterest = 0;
 
-  for (let month = 1; month <= car.termLength; month++) {
+  for (let month = 1; month <= termMonths; month++) {
     const interestPayment = remainingBalance * monthlyRate;
-    const principalPayment = monthlyPayment - interestPayment;
+    const principalPayment = monthlyPayment - interestPayment + (month === termMonths ? balloon : 0);
+    // The deferral interest is reported with the first payment so principal paid adds up to the amount financed
+    const deferredInterest = month === 1 ? deferralInterest : 0;
     
+    remainingBalance -= principalPayment;
+    cumulativePrincipal += principalPayment - deferredInterest;
+    cumulativeInterest += interestPayment + deferredInterest;
+
+    schedule.push({
+      month,
+      principalPaid: principalPayment - deferredInterest,
+      interestPaid: interestPayment + deferredInterest,
+      cumulativePrincipal,
+      cumulativeInterest,
+      remainingBalance: Math.max(0, remainingBalance),
+    });
+  }
+
+  return schedule;
+}
+
+// Parses a YYYY-MM-DD form value as a local date
+function parseDateInput(value?: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value || '');
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+}
+
+// Formats a local date back into a YYYY-MM-DD form value
+function formatDateInput(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Same day of month N months later, clamped to the end of shorter months (Jan 31 -> Feb 28)
+function addMonths(date: Date, months: number): Date {
+  const lastDayOfTargetMonth = new Date(date.getFullYear(), date.getMonth() + months + 1, 0).getDate();
+  return new Date(date.getFullYear(), date.getMonth() + months, Math.min(date.getDate(), lastDayOfTargetMonth));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+// Whole days between two local dates (rounded so DST shifts don't drop a day)
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+// Due date of the first payment: the contract's first payment date, the end of a deferral, or the first of next month
+function getFirstPaymentDueDate(car: Car): Date {
+  const today = new Date();
+  const firstPaymentDate = parseDateInput(car.firstPaymentDate);
+  if (firstPaymentDate) {
+    return firstPaymentDate;
+  }
+  if ((car.firstPaymentDeferralDays || 0) > 0) {
+    return addDays(parseDateInput(car.contractDate) || new Date(new Date().setHours(0, 0, 0, 0)), car.firstPaymentDeferralDays || 0);
+  }
+  return new Date(today.getFullYear(), today.getMonth() + 1, 1);
+}
+
+// Days until the first payment on a standard loan; a deferral only adds interest beyond this
+const STANDARD_FIRST_PAYMENT_DAYS = 30;
+
+// Days from signing to the first payment of a deferred loan, measured to the same due date the schedule uses
+// (a first payment date on the contract wins over the day count)
+function getDeferralDays(car: Car): number {
+  if ((car.firstPaymentDeferralDays || 0) <= 0) {
+    return 0;
+  }
+  const contractDate = parseDateInput(car.contractDate);
+  return contractDate
+    ? Math.max(0, daysBetween(contractDate, getFirstPaymentDueDate(car)))
+    : car.firstPaymentDeferralDays || 0;
+}
+
+// Months from signing to the first payment: one on a standard loan, longer with a deferral
+function getMonthsToFirstPayment(car: Car): number {
+  const deferralDays = getDeferralDays(car);
+  return deferralDays > 0 ? (deferralDays * 12) / 365 : 1;
+}
+
+// Simple interest accrued on the amount financed while the first payment is deferred past the usual month
+export function calculateDeferralInterest(car: Car, principal: number): number {
+  const extraDays = Math.max(0, getDeferralDays(car) - STANDARD_FIRST_PAYMENT_DAYS);
+  return (principal * car.apr * extraDays) / 365;
+}
+
+// Regular monthly payment on a loan, allowing for a balloon and a deferred first payment
+function calculateLoanPayment(car: Car, principal: number, apr: number = car.apr): number {
+  return calculateMonthlyPayment(
+    principal + calculateDeferralInterest({ ...car, apr }, principal),
+    apr,
+    car.termLength,
+    car.balloonPayment || 0
+  );
+}
+
+// Payments beyond the scheduled one (prepayment schedules)
+interface ExtraPayments {
+  monthlyPayment: number; // Scheduled payment + round-up + recurring extra principal
+  lumpSumFor: (month: number) => number;
+}
+
+// Daily simple interest: each payment covers the interest accrued over the actual days since the last payment,
+// so paying late costs extra interest and paying early saves some. The final payment settles whatever is left.
+function buildDailySimpleInterestSchedule(car: Car, principal: number, extras?: ExtraPayments): PaymentScheduleEntry[] {
+  const contractDate = parseDateInput(car.contractDate) || new Date(new Date().setHours(0, 0, 0, 0));
+  const firstDueDate = parseDateInput(car.firstPaymentDate) ||
+    ((car.firstPaymentDeferralDays || 0) > 0 ? addDays(contractDate, car.firstPaymentDeferralDays || 0) : addMonths(contractDate, 1));
+  const dailyRate = car.apr / 365;
+  // Interest accrues from the contract date, so a deferral is covered by the actual days; the balloon rides on the last payment
+  const scheduledPayment = calculateLoanPayment(car, principal);
+  const monthlyPayment = extras ? extras.monthlyPayment : scheduledPayment;
+  const daysLateByMonth = new Map((car.paymentTimings || []).map(timing => [timing.month, timing.daysLate]));
+
+  const schedule: PaymentScheduleEntry[] = [];
+  let remainingBalance = principal;
+  let unpaidInterest = 0; // Interest a payment didn't cover (not capitalized, paid first next time)
+  let lastPaymentDate = contractDate;
+  let cumulativePrincipal = 0;
+  let cumulativeInterest = 0;
+
+  for (let month = 1; month <= car.termLength && remainingBalance > 0.005; month++) {
+    const dueDate = addMonths(firstDueDate, month - 1);
+    const paidDate = addDays(dueDate, daysLateByMonth.get(month) || 0);
+    const daysOfInterest = Math.max(0, daysBetween(lastPaymentDate, paidDate));
+    const accruedInterest = unpaidInterest + remainingBalance * dailyRate * daysOfInterest;
+
+    const regularPayment = Math.min(monthlyPayment + (extras ? extras.lumpSumFor(month) : 0), remainingBalance + accruedInterest);
+    const payment = month === car.termLength ? remainingBalance + accruedInterest : regularPayment;
+    const interestPayment = Math.min(payment, accruedInterest);
+    const principalPayment = payment - interestPayment;
+
+    unpaidInterest = accruedInterest - interestPayment;
     remainingBalance -= principalPayment;
     cumulativePrincipal += principalPayment;
     cumulativeInterest += interestPayment;
@@ -61,34 +426,434 @@ export function calculatePaymentSchedule(car: Car): PaymentScheduleEntry[] {
       cumulativePrincipal,
       cumulativeInterest,
       remainingBalance: Math.max(0, remainingBalance),
+      dueDate,
+      paidDate,
+      daysOfInterest,
+      ...(extras ? { extraPrincipal: Math.min(principalPayment, Math.max(0, regularPayment - scheduledPayment)) } : {}),
     });
+    if (paidDate > lastPaymentDate) {
+      lastPaymentDate = paidDate;
+    }
   }
 
   return schedule;
 }
 
+export function calculatePaymentSchedule(car: Car): PaymentScheduleEntry[] {
+  const principal = calculatePrincipal(car, calculateTax(car));
+  if (car.interestMethod === 'dailySimple') {
+    return buildDailySimpleInterestSchedule(car, principal);
+  }
+  const firstDueDate = getFirstPaymentDueDate(car);
+  return buildAmortizationSchedule(
+    principal,
+    car.apr,
+    car.termLength,
+    car.balloonPayment || 0,
+    calculateDeferralInterest(car, principal)
+  ).map(entry => ({
+    ...entry,
+    dueDate: addMonths(firstDueDate, entry.month - 1),
+  }));
+}
+
+// Payoff date: the last payment's due date when the contract dates are known,
+// otherwise first day of next month + number of payments
+function calculatePayoffDate(car: Car, months: number): Date {
+  if (parseDateInput(car.firstPaymentDate) || (car.firstPaymentDeferralDays || 0) > 0) {
+    return addMonths(getFirstPaymentDueDate(car), months - 1);
+  }
+  const today = new Date();
+  const firstDayNextMonth = new Date(today.getFullYear(), today.getMonth() + 1, 1);
+  const payoffDate = new Date(firstDayNextMonth);
+  payoffDate.setMonth(payoffDate.getMonth() + months);
+  return payoffDate;
+}
+
+export function hasPrepayments(car: Car): boolean {
+  return (car.extraMonthlyPayment || 0) > 0 ||
+    (car.roundUpPaymentTo || 0) > 0 ||
+    (car.lumpSumPayments || []).some(lumpSum => lumpSum.amount > 0);
+}
+
+// Monthly accrual with extra payments; the balloon (if any) is settled with the final payment
+function buildPrepaymentAmortizationSchedule(
+  car: Car,
+  principal: number,
+  extras: ExtraPayments
+): PaymentScheduleEntry[] {
+  const monthlyRate = car.apr / 12;
+  const scheduledPayment = calculateLoanPayment(car, principal);
+  const deferralInterest = calculateDeferralInterest(car, principal);
+
+  const schedule: PaymentScheduleEntry[] = [];
+  let remainingBalance = principal + deferralInterest;
+  let cumulativePrincipal = 0;
+  let cumulativeInterest = 0;
+
+  for (let month = 1; month <= car.termLength && remainingBalance > 0.005; month++) {
+    const interestPayment = remainingBalance * monthlyRate;
+    // Never pay more principal than is owed; whatever is left (a balloon) is settled with the final payment
+    let principalPayment = Math.min(remainingBalance, extras.monthlyPayment - interestPayment + extras.lumpSumFor(month));
+    const extraPrincipal = Math.max(0, principalPayment - (scheduledPayment - interestPayment));
+    if (month === car.termLength) {
+      principalPayment = remainingBalance;
+    }
+    // Same as the standard schedule: deferral interest is reported with the first payment
+    const deferredInterest = month === 1 ? deferralInterest : 0;
+
+    remainingBalance -= principalPayment;
+    cumulativePrincipal += principalPayment - deferredInterest;
+    cumulativeInterest += interestPayment + deferredInterest;
+
+    schedule.push({
+      month,
+      principalPaid: principalPayment - deferredInterest,
+      interestPaid: interestPayment + deferredInterest,
+      cumulativePrincipal,
+      cumulativeInterest,
+      remainingBalance: Math.max(0, remainingBalance),
+      extraPrincipal,
+    });
+  }
+
+  return schedule;
+}
+
+// Extra payments are applied with the same interest accrual as the standard schedule, so the savings compare like with like
+export function calculatePrepaymentSchedule(car: Car): PrepaymentCalculations {
+  const principal = calculatePrincipal(car, calculateTax(car));
+  const scheduledPayment = calculateLoanPayment(car, principal);
+
+  // Round-up rule: pay the scheduled payment rounded up to the nearest multiple, the difference goes to principal
+  const roundUpTo = car.roundUpPaymentTo || 0;
+  const roundedPayment = roundUpTo > 0
+    ? Math.ceil(Math.round(scheduledPayment * 100) / 100 / roundUpTo) * roundUpTo
+    : scheduledPayment;
+  const extras: ExtraPayments = {
+    monthlyPayment: Math.max(roundedPayment, scheduledPayment) + (car.extraMonthlyPayment || 0),
+    lumpSumFor: (month) => (car.lumpSumPayments || [])
+      .filter(payment => payment.month === month)
+      .reduce((sum, payment) => sum + payment.amount, 0),
+  };
+
+  const schedule = car.interestMethod === 'dailySimple'
+    ? buildDailySimpleInterestSchedule(car, principal, extras)
+    : buildPrepaymentAmortizationSchedule(car, principal, extras);
+  const totalInterest = schedule.length > 0 ? schedule[schedule.length - 1].cumulativeInterest : 0;
+  const totalExtraPrincipal = schedule.reduce((sum, entry) => sum + (entry.extraPrincipal || 0), 0);
+
+  const standardInterest = calculatePaymentSchedule(car).reduce(
+    (sum, entry) => sum + entry.interestPaid,
+    0
+  );
+  const payoffMonth = schedule.length;
+
+  return {
+    monthlyPayment: extras.monthlyPayment,
+    paymentSchedule: schedule,
+    payoffMonth,
+    payoffDate: calculatePayoffDate(car, payoffMonth),
+    monthsSaved: car.termLength - payoffMonth,
+    totalInterest,
+    interestSaved: standardInterest - totalInterest,
+    totalExtraPrincipal,
+  };
+}
+
+// Quotes within a few dollars of the computed payment are usually just rounding
+export const PAYMENT_PACKING_THRESHOLD = 5;
+
+// Checks a dealer-quoted payment against the payment for the stated APR on the same amount financed
+export function calculateQuotedPaymentCheck(car: Car): QuotedPaymentCalculations {
+  const principal = calculatePrincipal(car, calculateTax(car));
+  const quotedPayment = car.quotedPayment || 0;
+  const computedPayment = calculateLoanPayment(car, principal);
+  const difference = quotedPayment - computedPayment;
+  // Both solves go through the same payment math (balloon, deferral) as the computed payment. The payment is
+  // linear in the amount financed, so the amount the quote pays off follows from two points.
+  const paymentOnNothing = calculateLoanPayment(car, 0);
+  const paymentPerDollar = calculateLoanPayment(car, 1) - paymentOnNothing;
+  const quotedPrincipal = quotedPayment > 0 && paymentPerDollar > 0
+    ? (quotedPayment - paymentOnNothing) / paymentPerDollar
+    : 0;
+
+  return {
+    quotedPayment,
+    computedPayment,
+    difference,
+    impliedApr: calculateImpliedApr(principal, car.termLength, quotedPayment, (apr) => calculateLoanPayment(car, principal, apr)),
+    hiddenAmount: quotedPrincipal - principal,
+    paymentPacking: difference > PAYMENT_PACKING_THRESHOLD,
+  };
+}
+
+export function hasRefinance(car: Car): boolean {
+  return (car.refinanceMonth || 0) > 0 && (car.refinanceTerm || 0) > 0 && car.refinanceApr !== undefined;
+}
+
+export function calculateRefinance(car: Car): RefinanceCalculations {
+  const originalSchedule = calculatePaymentSchedule(car);
+  const oldMonthlyPayment = calculateLoanPayment(car, calculatePrincipal(car, calculateTax(car)));
+  // A balloon on the original loan is still owed at its end; the new loan pays it off instead
+  const balloon = car.balloonPayment || 0;
+
+  // Refinance happens right after payment N of the original loan
+  const refinanceMonth = Math.min(Math.max(car.refinanceMonth || 0, 1), car.termLength);
+  const remainingBalance = originalSchedule[refinanceMonth - 1]?.remainingBalance || 0;
+  const remainingPayments = car.termLength - refinanceMonth;
+  const remainingInterestBefore = originalSchedule
+    .slice(refinanceMonth)
+    .reduce((sum, entry) => sum + entry.interestPaid, 0);
+
+  // Fees are either paid in cash at refinance or rolled into the new loan
+  const fees = car.refinanceFees || 0;
+  const feesFinanced = car.refinanceFeesFinanced || false;
+  const newPrincipal = remainingBalance + (feesFinanced ? fees : 0);
+  const upfrontFees = feesFinanced ? 0 : fees;
+  const newApr = car.refinanceApr || 0;
+  const newTerm = car.refinanceTerm || 0;
+
+  const newMonthlyPayment = newTerm > 0 ? calculateMonthlyPayment(newPrincipal, newApr, newTerm) : 0;
+  // The new loan accrues interest the same way as the original, so the interest totals compare like with like.
+  // A daily simple interest loan starts on the refinance payment date and keeps the later payment timings.
+  const refinanceDate = originalSchedule[refinanceMonth - 1]?.paidDate;
+  const newLoanSchedule = car.interestMethod === 'dailySimple' && refinanceDate
+    ? buildDailySimpleInterestSchedule(
+      {
+        ...car,
+        apr: newApr,
+        termLength: newTerm,
+        balloonPayment: 0,
+        firstPaymentDeferralDays: 0,
+        contractDate: formatDateInput(refinanceDate),
+        firstPaymentDate: formatDateInput(addMonths(refinanceDate, 1)),
+        paymentTimings: (car.paymentTimings || [])
+          .filter(timing => timing.month > refinanceMonth)
+          .map(timing => ({ ...timing, month: timing.month - refinanceMonth })),
+      },
+      newPrincipal
+    )
+    : buildAmortizationSchedule(newPrincipal, newApr, newTerm);
+  // Renumber the new loan so months continue from the original loan
+  const paymentSchedule = newLoanSchedule.map(entry => ({
+    ...entry,
+    month: entry.month + refinanceMonth,
+  }));
+  const newTotalInterest = paymentSchedule.reduce((sum, entry) => sum + entry.interestPaid, 0);
+
+  const monthlySavings = oldMonthlyPayment - newMonthlyPayment;
+  // Lifetime delta: new interest (+ fees) vs interest still owed on the original loan (negative = savings)
+  const interestDelta = newTotalInterest + fees - remainingInterestBefore;
+  const netSavings =
+    oldMonthlyPayment * remainingPayments + (remainingPayments > 0 ? balloon : 0) - (newMonthlyPayment * newTerm + upfrontFees);
+
+  // Break-even: first month where cumulative payment savings cover the cash paid at refinance. Keeping the
+  // original loan also means paying its balloon with the last payment.
+  let breakEvenMonth: number | null = null;
+  let cumulativeSavings = -upfrontFees;
+  for (let month = 1; month <= Math.max(newTerm, remainingPayments); month++) {
+    const oldPayment =
+      (month <= remainingPayments ? oldMonthlyPayment : 0) + (month === remainingPayments ? balloon : 0);
+    const newPayment = month <= newTerm ? newMonthlyPayment : 0;
+    cumulativeSavings += oldPayment - newPayment;
+    if (cumulativeSavings >= 0 && (upfrontFees > 0 || monthlySavings > 0)) {
+      breakEvenMonth = refinanceMonth + month;
+      break;
+    }
+  }
+
+  return {
+    refinanceMonth,
+    remainingBalance,
+    remainingPayments,
+    fees,
+    feesFinanced,
+    newPrincipal,
+    newApr,
+    newTerm,
+    oldMonthlyPayment,
+    newMonthlyPayment,
+    monthlySavings,
+    remainingInterestBefore,
+    newTotalInterest,
+    interestDelta,
+    netSavings,
+    breakEvenMonth,
+    paymentSchedule,
+  };
+}
+
+export function calculateLeaseMetrics(car: Car): LeaseCalculations {
+  const term = car.termLength;
+  const taxRate = car.taxRate || 0;
+  const rule = getTaxRule(car.taxState);
+  const { totalFees } = calculateFeeTotals(car);
+  const { financedAddOns, upfrontAddOns } = calculateAddOnTotals(car);
+  const { tradeInEquity, negativeEquity } = calculateTradeIn(car);
+
+  // Gross cap cost = Negotiated Price + Acquisition Fee + Fees + Financed Add-Ons (all capitalized into the lease)
+  const grossCapCost = car.negotiatedPrice + (car.acquisitionFee || 0) + totalFees + financedAddOns;
+  // Cap cost reductions: cash down + positive trade-in equity + incentives. Negative equity increases the cap cost.
+  const { totalIncentives, taxableIncentives } = calculateIncentives(car);
+  const capCostReduction = car.downPayment + Math.max(0, tradeInEquity) + totalIncentives;
+  const adjustedCapCost = grossCapCost - capCostReduction + negativeEquity;
+
+  // Residual: explicit dollar value wins, otherwise percentage of listed price (MSRP)
+  const residualValue = car.residualValue && car.residualValue > 0
+    ? car.residualValue
+    : (car.listedPrice * (car.residualPercent || 0)) / 100;
+  const residualPercent = car.listedPrice > 0 ? (residualValue / car.listedPrice) * 100 : 0;
+
+  const moneyFactor = car.moneyFactor || 0;
+  const depreciationCharge = term > 0 ? (adjustedCapCost - residualValue) / term : 0;
+  const rentCharge = (adjustedCapCost + residualValue) * moneyFactor;
+  const baseMonthlyPayment = depreciationCharge + rentCharge;
+
+  // Most states tax each lease payment rather than the full price. Capitalized fees and add-ons the state doesn't
+  // tax are taken back out of the taxed payment (their share of the depreciation and rent charges).
+  const nonTaxableCapitalized =
+    getChargedFees(car)
+      .filter(fee => !isFeeTaxable(fee, rule))
+      .reduce((sum, fee) => sum + fee.amount, 0) +
+    (car.addOns || [])
+      .filter(addOn => addOn.financed && !addOn.taxable && addOn.price > 0)
+      .reduce((sum, addOn) => sum + addOn.price, 0);
+  const nonTaxablePaymentShare = term > 0 ? nonTaxableCapitalized / term + nonTaxableCapitalized * moneyFactor : 0;
+  const monthlyTax = applyTaxRate(Math.max(0, baseMonthlyPayment - nonTaxablePaymentShare), taxRate, rule);
+  const monthlyPaymentWithTax = baseMonthlyPayment + monthlyTax;
+  // Cash down and taxable incentives used as cap cost reduction are taxed up front, and so is trade-in equity in
+  // states without a trade-in credit
+  const tradeInTaxCredit = car.tradeInTaxCredit ?? rule.tradeInCredit;
+  const taxedCapCostReduction = car.downPayment + taxableIncentives + (tradeInTaxCredit ? 0 : Math.max(0, tradeInEquity));
+  const taxOnCapCostReduction = applyTaxRate(taxedCapCostReduction, taxRate, rule) + (car.flatTaxFee || 0);
+
+  // Due at signing = cash cap cost reduction + tax on it + add-ons paid in cash + first month's payment
+  const dueAtSigning = car.downPayment + taxOnCapCostReduction + upfrontAddOns + (term > 0 ? monthlyPaymentWithTax : 0);
+
+  const totalDepreciation = depreciationCharge * term;
+  const totalRentCharge = rentCharge * term;
+  const totalTax = monthlyTax * term + taxOnCapCostReduction;
+  // Total lease cost = cash down + trade-in equity used + all payments + tax + add-ons paid in cash + disposition fee
+  const totalLeaseCost =
+    car.downPayment +
+    Math.max(0, tradeInEquity) +
+    monthlyPaymentWithTax * term +
+    taxOnCapCostReduction +
+    upfrontAddOns +
+    (car.dispositionFee || 0);
+
+  const paymentSchedule: PaymentScheduleEntry[] = [];
+  for (let month = 1; month <= term; month++) {
+    paymentSchedule.push({
+      month,
+      principalPaid: depreciationCharge,
+      interestPaid: rentCharge,
+      cumulativePrincipal: depreciationCharge * month,
+      cumulativeInterest: rentCharge * month,
+      remainingBalance: Math.max(0, adjustedCapCost - depreciationCharge * month),
+    });
+  }
+
+  return {
+    grossCapCost,
+    capCostReduction,
+    adjustedCapCost,
+    residualValue,
+    residualPercent,
+    depreciationCharge,
+    rentCharge,
+    baseMonthlyPayment,
+    monthlyTax,
+    monthlyPaymentWithTax,
+    taxOnCapCostReduction,
+    dueAtSigning,
+    totalDepreciation,
+    totalRentCharge,
+    totalTax,
+    totalLeaseCost,
+    equivalentApr: moneyFactor * 24,
+    totalMileageAllowance: ((car.annualMileageAllowance || 0) * term) / 12,
+    paymentSchedule,
+  };
+}
+
+export function calculateLeaseBuyoutPrice(car: Car): number {
+  const remainingPaymentsTotal = (car.remainingLeasePayments || 0) * (car.leaseMonthlyPayment || 0);
+  return (car.residualValue || 0) + remainingPaymentsTotal + (car.purchaseOptionFee || 0);
+}
+
+export function calculateLeaseBuyout(car: Car): LeaseBuyoutCalculations {
+  const residualValue = car.residualValue || 0;
+  const remainingPaymentsTotal = (car.remainingLeasePayments || 0) * (car.leaseMonthlyPayment || 0);
+  const purchaseOptionFee = car.purchaseOptionFee || 0;
+  const buyoutPrice = calculateLeaseBuyoutPrice(car);
+  const buyoutTax = calculateTax({ ...car, dealType: 'buyout' });
+  const { totalFees } = calculateFeeTotals(car);
+  const totalBuyoutCost = buyoutPrice + buyoutTax + totalFees;
+
+  const marketValue = car.listedPrice;
+  const equity = marketValue - buyoutPrice;
+
+  // Buy out: pay everything owed plus tax and fees, keep a car worth its market value
+  const buyOutNet = marketValue - totalBuyoutCost;
+  // Turn in: still owe the remaining payments, plus disposition fee and any mileage/wear charges
+  const turnInNet = -(remainingPaymentsTotal + (car.dispositionFee || 0) + (car.turnInCharges || 0));
+  // Sell to a third-party dealer: the dealer pays off the lease (no sales tax to you) and you keep the difference
+  const sellToDealerNet = (car.thirdPartyOffer || marketValue) - buyoutPrice;
+
+  const options: Record<LeaseEndOption, number> = {
+    buyOut: buyOutNet,
+    turnIn: turnInNet,
+    sellToDealer: sellToDealerNet,
+  };
+  const recommendation = (Object.keys(options) as LeaseEndOption[]).reduce((best, option) =>
+    options[option] > options[best] ? option : best
+  );
+
+  return {
+    residualValue,
+    remainingPaymentsTotal,
+    purchaseOptionFee,
+    buyoutPrice,
+    buyoutTax,
+    totalBuyoutCost,
+    marketValue,
+    equity,
+    buyOutNet,
+    turnInNet,
+    sellToDealerNet,
+    recommendation,
+  };
+}
+
 export function calculateCarMetrics(car: Car): CarCalculations {
   // Calculate total fees by category
-  const totalDealerFees = car.dealerFees || 0;
-  const totalGovernmentFees = car.governmentFees || 0;
-  const totalOtherFees = car.otherFees || 0;
-  const totalFees = totalDealerFees + totalGovernmentFees + totalOtherFees;
-  
-  // In Florida: Tax is calculated on Negotiated Price + Dealer Fees + Other Fees
-  // Government fees are NOT taxable
-  const taxableAmount = car.negotiatedPrice + totalDealerFees + totalOtherFees;
-  
-  // Ensure tax is calculated from taxRate if taxRate exists
-  let calculatedTax = car.tax;
-  if (car.taxRate && car.taxRate > 0 && taxableAmount > 0) {
-    calculatedTax = (taxableAmount * car.taxRate) / 100 + (car.flatTaxFee || 0);
-  } else if (car.flatTaxFee && car.flatTaxFee > 0) {
-    calculatedTax = car.flatTaxFee;
-  }
+  const {
+    dealerFees: totalDealerFees,
+    governmentFees: totalGovernmentFees,
+    otherFees: totalOtherFees,
+    totalFees,
+    refusedFees,
+  } = calculateFeeTotals(car);
   
-  // Principal = Negotiated Price + All Fees + Tax - Down Payment
-  const principal = car.negotiatedPrice + totalFees + calculatedTax - car.downPayment;
-  const monthlyPayment = calculateMonthlyPayment(principal, car.apr, car.termLength);
+  const { totalAddOns, financedAddOns, upfrontAddOns } = calculateAddOnTotals(car);
+
+  const calculatedTax = calculateTax(car);
+  const principal = calculatePrincipal(car, calculatedTax);
+  const { upfrontTax, upfrontCosts } = calculateUpfrontCosts(car, calculatedTax);
+
+  // Trade-in: equity reduces the amount financed, negative equity is rolled into it
+  const { tradeInValue, tradeInPayoff, tradeInEquity, negativeEquity } = calculateTradeIn(car);
+  const tradeInTaxSavings = calculateTax({ ...car, tradeInTaxCredit: false }) - calculatedTax;
+
+  // Incentives are reported separately from the dealer discount
+  const { totalIncentives, nonTaxableIncentives } = calculateIncentives(car);
+  const incentiveTaxSavings = calculateTax({ ...car, incentives: [] }) - calculatedTax;
+
+  const monthlyPayment = calculateLoanPayment(car, principal);
+  const balloonPayment = car.balloonPayment || 0;
+  const deferralInterest = calculateDeferralInterest(car, principal);
   
   // Calculate monthly tax portion (tax is already included in principal/loan, this shows the tax portion of monthly payment)
   // If tax is rolled into loan, it's amortized. Calculate what portion of monthly payment is tax.
@@ -97,7 +862,7 @@ export function calculateCarMetrics(car: Car): CarCalculations {
   const monthlyTaxPortion = monthlyPayment - monthlyPaymentWithoutTax;
   // For display: show monthly payment + tax portion (if tax is separate/upfront, show it spread over term)
   // If tax is 0, monthlyPaymentWithTax = monthlyPayment
-  const monthlyPaymentWithTax = calculatedTax > 0 
+  const monthlyPaymentWithTax = calculatedTax > 0 && upfrontTax === 0
     ? monthlyPayment + (calculatedTax / car.termLength) // Show tax spread over term for visibility
     : monthlyPayment;
   
@@ -109,21 +874,21 @@ export function calculateCarMetrics(car: Car): CarCalculations {
   const totalTax = calculatedTax;
   
   // Cost breakdown
-  const adjustedCost = car.negotiatedPrice - car.downPayment; // Amount that needs financing (before fees and tax)
-  const financedAmount = principal; // Negotiated Price + All Fees + Tax - Down Payment
+  const adjustedCost = car.negotiatedPrice - car.downPayment - tradeInEquity - totalIncentives; // Amount that needs financing (before fees and tax)
+  const financedAmount = principal; // Negotiated Price + All Fees + Financed Add-Ons + Tax - Upfront Costs - Down Payment - Trade-In Equity - Incentives
+  const cashDueAtSigning = car.downPayment + upfrontCosts + upfrontAddOns;
   
-  // Total cost = down payment + financed amount + total interest + total fees
-  const totalCost = car.downPayment + financedAmount + totalInterest + totalFees;
+  // Total cost = cash due at signing + trade-in equity + financed amount + total interest + total fees
+  // Trade-in equity counts toward the car like a down payment; negative equity cancels out of the financed amount
+  const totalCost = cashDueAtSigning + tradeInEquity + financedAmount + totalInterest + totalFees;
   
   // Calculate discount: listed price vs negotiated price
   const discount = car.listedPrice - car.negotiatedPrice;
   const discountPercent = car.listedPrice > 0 ? (discount / car.listedPrice) * 100 : 0;
   
-  // Calculate payoff date: first day of next month + term length in months
-  const today = new Date();
-  const firstDayNextMonth = new Date(today.getFullYear(), today.getMonth() + 1, 1);
-  const payoffDate = new Date(firstDayNextMonth);
-  payoffDate.setMonth(payoffDate.getMonth() + car.termLength);
+  // Payoff date: when the final payment is actually made (daily simple interest can end early or late)
+  const finalPayment = paymentSchedule[paymentSchedule.length - 1];
+  const payoffDate = finalPayment?.paidDate || calculatePayoffDate(car, car.termLength);
 
   // Calculate dealer financing markup (similar to money factor in leases)
   // If buyRateApr is provided, calculate the extra cost from dealer markup
@@ -132,8 +897,8 @@ export function calculateCarMetrics(car: Car): CarCalculations {
   if (car.buyRateApr !== undefined && car.buyRateApr > 0 && car.buyRateApr < car.apr) {
     dealerFinancingMarkup = car.apr - car.buyRateApr; // APR markup percentage
     // Calculate total interest at buy rate vs sell rate
-    const monthlyPaymentAtBuyRate = calculateMonthlyPayment(principal, car.buyRateApr, car.termLength);
-    const totalInterestAtBuyRate = (monthlyPaymentAtBuyRate * car.termLength) - principal;
+    const monthlyPaymentAtBuyRate = calculateLoanPayment(car, principal, car.buyRateApr);
+    const totalInterestAtBuyRate = (monthlyPaymentAtBuyRate * car.termLength) + balloonPayment - principal;
     dealerFinancingMarkupCost = totalInterest - totalInterestAtBuyRate;
   }
 
@@ -143,7 +908,7 @@ export function calculateCarMetrics(car: Car): CarCalculations {
   // Calculate average annual interest: (Total Interest / Term Length) * 12
   const averageAnnualInterest = car.termLength > 0 ? (totalInterest / car.termLength) * 12 : 0;
 
-  return {
+  const calculations: CarCalculations = {
     monthlyPayment,
     monthlyPaymentWithTax,
     totalInterest,
@@ -161,7 +926,437 @@ export function calculateCarMetrics(car: Car): CarCalculations {
     totalGovernmentFees,
     totalOtherFees,
     totalAllFees,
+    refusedFees,
+    totalAddOns,
+    financedAddOns,
+    balloonPayment,
+    deferralInterest,
     averageAnnualInterest,
+    tradeInValue,
+    tradeInPayoff,
+    tradeInEquity,
+    negativeEquity,
+    tradeInTaxSavings,
+    totalIncentives,
+    nonTaxableIncentives,
+    incentiveTaxSavings,
+    upfrontCosts,
+    cashDueAtSigning,
+  };
+
+  // Leases replace the loan figures with the lease payment, rent charge (as interest) and total lease cost
+  if (car.dealType === 'lease') {
+    const lease = calculateLeaseMetrics(car);
+    return {
+      ...calculations,
+      monthlyPayment: lease.baseMonthlyPayment,
+      monthlyPaymentWithTax: lease.monthlyPaymentWithTax,
+      totalInterest: lease.totalRentCharge,
+      totalTax: lease.totalTax,
+      totalCost: lease.totalLeaseCost,
+      financedAmount: lease.adjustedCapCost,
+      paymentSchedule: lease.paymentSchedule,
+      dealerFinancingMarkup: 0,
+      dealerFinancingMarkupCost: 0,
+      tradeInTaxSavings: 0,
+      averageAnnualInterest: car.termLength > 0 ? (lease.totalRentCharge / car.termLength) * 12 : 0,
+      upfrontCosts: 0,
+      cashDueAtSigning: lease.dueAtSigning,
+      balloonPayment: 0,
+      deferralInterest: 0,
+      lease,
+    };
+  }
+
+  // Cash deals skip the loan: everything not covered by trade-in equity or incentives is paid up front
+  if (car.dealType === 'cash') {
+    const cashDue = principal + cashDueAtSigning;
+    return {
+      ...calculations,
+      monthlyPayment: 0,
+      monthlyPaymentWithTax: 0,
+      totalInterest: 0,
+      totalCost: tradeInEquity + cashDue + totalFees,
+      financedAmount: 0,
+      cashDueAtSigning: cashDue,
+      payoffDate: new Date(),
+      paymentSchedule: [],
+      dealerFinancingMarkup: 0,
+      dealerFinancingMarkupCost: 0,
+      averageAnnualInterest: 0,
+      balloonPayment: 0,
+      deferralInterest: 0,
+    };
+  }
+
+  // Extra payments only apply to loans; the standard schedule stays as the baseline for comparison
+  if (hasPrepayments(car)) {
+    calculations.prepayment = calculatePrepaymentSchedule(car);
+  }
+  if (hasRefinance(car)) {
+    calculations.refinance = calculateRefinance(car);
+  }
+  if ((car.quotedPayment || 0) > 0) {
+    calculations.quotedPayment = calculateQuotedPaymentCheck(car);
+  }
+
+  // Lease buyouts are financed like a purchase; attach the lease-end comparison
+  if (car.dealType === 'buyout') {
+    return { ...calculations, leaseBuyout: calculateLeaseBuyout(car) };
+  }
+
+  return calculations;
+}
+
+// The car with its add-ons filtered down to the ones kept (none by default), with the tax recalculated without the rest
+export function removeAddOns(car: Car, keep: (addOn: AddOn, index: number) => boolean = () => false): Car {
+  const withoutAddOns = { ...car, addOns: (car.addOns || []).filter(keep) };
+  return { ...withoutAddOns, tax: calculateTax(withoutAddOns) };
+}
+
+// What each add-on adds on its own: the deal with every add-on vs the same deal without that one
+export function calculateAddOnImpacts(car: Car): AddOnImpact[] {
+  const metrics = calculateCarMetrics(car);
+  return (car.addOns || []).map((addOn, index) => {
+    const without = calculateCarMetrics(removeAddOns(car, (_, i) => i !== index));
+    const addedTax = metrics.totalTax - without.totalTax;
+    // Lease tax is charged on each payment. A loan payment already amortizes financed tax, so only tax paid at
+    // signing is spread over the term on top of it.
+    let addedMonthlyPayment = metrics.monthlyPayment - without.monthlyPayment;
+    if (car.dealType === 'lease') {
+      addedMonthlyPayment = metrics.monthlyPaymentWithTax - without.monthlyPaymentWithTax;
+    } else if (car.dealType !== 'cash' && car.paidUpfront?.tax && car.termLength > 0) {
+      addedMonthlyPayment += addedTax / car.termLength;
+    }
+    return {
+      name: addOn.name,
+      price: addOn.price,
+      addedTax,
+      addedMonthlyPayment,
+      addedInterest: metrics.totalInterest - without.totalInterest,
+      addedTotalCost: metrics.totalCost - without.totalCost,
+    };
+  });
+}
+
+// Financing (with the car's down payment) vs paying cash, with the cash not spent invested at the given annual return.
+// Cash deals are compared against financing at the given APR/term; financed deals use their own loan.
+export function calculateCashVsFinance(
+  car: Car,
+  investmentReturn: number,
+  financing: { apr: number; termLength: number } = { apr: car.apr, termLength: car.termLength }
+): CashVsFinanceCalculations {
+  const financedCar: Car = {
+    ...car,
+    dealType: car.dealType === 'buyout' ? 'buyout' : 'purchase',
+    apr: financing.apr,
+    termLength: financing.termLength,
+  };
+  const metrics = calculateCarMetrics(financedCar);
+  const downPayment = metrics.cashDueAtSigning;
+  const cashPrice = metrics.financedAmount + downPayment;
+  const payments = metrics.paymentSchedule.map(entry => entry.principalPaid + entry.interestPaid);
+
+  // Discount each month's payment at the monthly equivalent of the annual return, counting from the first due date
+  // (later than a month out when the first payment is deferred)
+  const monthsToFirstPayment = getMonthsToFirstPayment(financedCar);
+  const presentValueAt = (annualReturn: number) => {
+    const monthlyReturn = Math.pow(1 + annualReturn, 1 / 12) - 1;
+    return (
+      downPayment +
+      payments.reduce((sum, payment, index) => sum + payment / Math.pow(1 + monthlyReturn, monthsToFirstPayment + index), 0)
+    );
+  };
+
+  const financePresentValue = presentValueAt(investmentReturn);
+
+  // Present value falls as the return rises; find where it matches the cash price
+  let breakEvenReturn: number | null = 0;
+  if (presentValueAt(0) > cashPrice) {
+    if (presentValueAt(1) > cashPrice) {
+      breakEvenReturn = null;
+    } else {
+      let low = 0;
+      let high = 1;
+      for (let iteration = 0; iteration < 100 && high - low > 1e-9; iteration++) {
+        const mid = (low + high) / 2;
+        if (presentValueAt(mid) > cashPrice) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+      breakEvenReturn = (low + high) / 2;
+    }
+  }
+
+  return {
+    cashPrice,
+    downPayment,
+    financedAmount: metrics.financedAmount,
+    apr: financing.apr,
+    termLength: financing.termLength,
+    monthlyPayment: metrics.monthlyPayment,
+    totalFinancePayments: downPayment + payments.reduce((sum, payment) => sum + payment, 0),
+    investmentReturn,
+    financePresentValue,
+    presentValueSavings: cashPrice - financePresentValue,
+    cheaperOption: financePresentValue < cashPrice ? 'finance' : 'cash',
+    breakEvenReturn,
+  };
+}
+
+// Sweeps the down payment from 0 to the full cash price. Every dollar put down saves loan interest but stops
+// earning the alternative return; the monthly savings from a smaller loan are assumed to be invested instead.
+export function calculateDownPaymentOptimization(
+  car: Car,
+  alternativeReturn: number,
+  steps: number = 20
+): DownPaymentOptimization {
+  const termLength = car.termLength;
+  const monthlyReturn = Math.pow(1 + alternativeReturn, 1 / 12) - 1;
+  // Growth on a dollar invested at the end of the given month, through the end of the term
+  const growthFactor = (month: number) => Math.pow(1 + monthlyReturn, termLength - month) - 1;
+
+  const paymentsFor = (downPayment: number) =>
+    calculateCarMetrics({ ...car, downPayment }).paymentSchedule.map(entry => entry.principalPaid + entry.interestPaid);
+  const baselinePayments = paymentsFor(0);
+  const cashPrice = calculateCarMetrics({ ...car, downPayment: 0 }).financedAmount;
+
+  const evaluate = (downPayment: number): DownPaymentSweepEntry => {
+    const payments = paymentsFor(downPayment);
+    const totalPaid = payments.reduce((sum, payment) => sum + payment, 0);
+    const paymentSavingsGrowth = baselinePayments.reduce(
+      (sum, baselinePayment, index) => sum + (baselinePayment - (payments[index] || 0)) * growthFactor(index + 1),
+      0
+    );
+    const totalInterest = totalPaid - (cashPrice - downPayment);
+    const forgoneGrowth = downPayment * growthFactor(0) - paymentSavingsGrowth;
+    return {
+      downPayment,
+      monthlyPayment: payments[0] || 0,
+      totalInterest,
+      forgoneGrowth,
+      netCost: totalInterest + forgoneGrowth,
+    };
+  };
+
+  const currentDownPayment = Math.min(Math.max(car.downPayment || 0, 0), Math.max(cashPrice, 0));
+  const sweepPoints = Array.from({ length: steps + 1 }, (_, index) => (Math.max(cashPrice, 0) * index) / steps);
+  const entries = [...new Set([...sweepPoints, currentDownPayment])]
+    .sort((a, b) => a - b)
+    .map(evaluate);
+  const optimal = entries.reduce((best, entry) => (entry.netCost < best.netCost ? entry : best), entries[0]);
+  const current = entries.find(entry => entry.downPayment === currentDownPayment) || entries[0];
+
+  return {
+    alternativeReturn,
+    apr: car.apr,
+    termLength,
+    entries,
+    optimal,
+    current,
   };
 }
 
+export const SENSITIVITY_TERMS = [24, 36, 48, 60, 66, 72, 84];
+
+// APRs centered on the car's APR in fixed steps (never below 0%), e.g. 5% ± 2 steps of 0.5% -> 4%..6%
+export function buildAprSteps(centerApr: number, step: number, stepsEachSide: number): number[] {
+  const aprs = new Set<number>();
+  for (let offset = -stepsEachSide; offset <= stepsEachSide; offset++) {
+    const apr = Math.round((centerApr + offset * step) * 1e6) / 1e6;
+    if (apr >= 0) {
+      aprs.add(apr);
+    }
+  }
+  return [...aprs].sort((a, b) => a - b);
+}
+
+// Rows are APRs, columns are terms; every other deal input stays as entered
+export function calculateSensitivityGrid(car: Car, aprs: number[], terms: number[]): SensitivityCell[][] {
+  return aprs.map(apr =>
+    terms.map(termLength => {
+      const metrics = calculateCarMetrics({ ...car, apr, termLength });
+      return {
+        apr,
+        termLength,
+        monthlyPayment: metrics.monthlyPayment,
+        totalInterest: metrics.totalInterest,
+        totalCost: metrics.totalCost,
+      };
+    })
+  );
+}
+
+// Projects market value forward from listedPrice (today's value at the car's current age and mileage)
+export function calculateValueProjection(
+  car: Car,
+  curve: DepreciationCurve,
+  annualMiles: number,
+  months: number = car.termLength
+): ValueProjectionEntry[] {
+  const currentAge = Math.max(0, new Date().getFullYear() - (car.year || new Date().getFullYear()));
+  const currentMileage = car.mileage || 0;
+  const startRetention = calculateRetention(currentAge, curve);
+  const startMileageFactor = calculateMileageFactor(currentMileage, currentAge, curve);
+
+  const schedule = calculateCarMetrics(car).paymentSchedule;
+  const startingBalance = schedule.length > 0 ? schedule[0].remainingBalance + schedule[0].principalPaid : 0;
+
+  const projection: ValueProjectionEntry[] = [];
+  for (let month = 0; month <= months; month++) {
+    const age = currentAge + month / 12;
+    const miles = currentMileage + (annualMiles * month) / 12;
+    const projectedValue =
+      startRetention > 0 && startMileageFactor > 0
+        ? car.listedPrice *
+          (calculateRetention(age, curve) / startRetention) *
+          (calculateMileageFactor(miles, age, curve) / startMileageFactor)
+        : 0;
+    const remainingBalance =
+      month === 0 ? startingBalance : schedule[month - 1]?.remainingBalance ?? 0;
+    projection.push({
+      month,
+      projectedValue,
+      remainingBalance,
+      equity: projectedValue - remainingBalance,
+    });
+  }
+
+  return projection;
+}
+
+// Upside-down timeline from a value projection, and whether the entered GAP price is worth paying
+export function calculateNegativeEquity(projection: ValueProjectionEntry[], gapPrice: number = 0): NegativeEquityCalculations {
+  const upsideDownMonths = projection.filter(entry => entry.equity < 0).map(entry => entry.month);
+
+  let peakNegativeEquity = 0;
+  let peakMonth: number | null = null;
+  projection.forEach(entry => {
+    if (-entry.equity > peakNegativeEquity) {
+      peakNegativeEquity = -entry.equity;
+      peakMonth = entry.month;
+    }
+  });
+
+  const lastUpsideDownMonth = upsideDownMonths[upsideDownMonths.length - 1];
+  const crossoverMonth = upsideDownMonths.length > 0
+    ? projection.find(entry => entry.month > lastUpsideDownMonth)?.month ?? null
+    : null;
+
+  // GAP only pays out while upside down, so it's worth it when the worst-case shortfall exceeds its price
+  let gapRecommendation: GapRecommendation = 'notNeeded';
+  if (upsideDownMonths.length > 0) {
+    if (gapPrice <= 0) {
+      gapRecommendation = 'consider';
+    } else {
+      gapRecommendation = peakNegativeEquity > gapPrice ? 'buy' : 'skip';
+    }
+  }
+
+  return {
+    upsideDownMonths,
+    peakNegativeEquity,
+    peakMonth,
+    crossoverMonth,
+    gapPrice,
+    gapRecommendation,
+  };
+}
+
+export function calculateTco(car: Car, defaults: TcoInputs, curve: DepreciationCurve): TcoCalculations {
+  const inputs: TcoInputs = { ...defaults, ...car.tco };
+  const years = Math.max(1, Math.round(inputs.ownershipYears));
+  const metrics = calculateCarMetrics(car);
+  const lease = metrics.lease;
+
+  // Warranty ends when either the remaining months or remaining miles run out
+  const warrantyLimits = [
+    car.warrantyRemainingMonths,
+    car.warrantyRemainingMiles !== undefined && inputs.annualMiles > 0
+      ? (car.warrantyRemainingMiles / inputs.annualMiles) * 12
+      : undefined,
+  ].filter((limit): limit is number => limit !== undefined);
+  const warrantyMonths = warrantyLimits.length > 0 ? Math.min(...warrantyLimits) : 0;
+
+  // Year one starts from what you paid, so paying over/under market shows up as depreciation
+  const valueProjection = calculateValueProjection(car, curve, inputs.annualMiles, years * 12);
+  const valueAfter = (year: number) =>
+    year === 0 ? car.negotiatedPrice : valueProjection[year * 12].projectedValue;
+  const fuelPerYear = inputs.fuelEfficiency > 0
+    ? (inputs.annualMiles / inputs.fuelEfficiency) * inputs.energyPrice
+    : 0;
+
+  const yearly: TcoYearEntry[] = [];
+  for (let year = 1; year <= years; year++) {
+    const firstMonth = (year - 1) * 12 + 1;
+    const lastMonth = year * 12;
+    const entry: TcoYearEntry = {
+      year,
+      depreciation: 0,
+      financing: 0,
+      taxesAndFees: 0,
+      leasePayments: 0,
+      insurance: inputs.insurancePerYear,
+      fuel: fuelPerYear,
+      maintenance: inputs.maintenancePerYear,
+      repairs: 0,
+      registration: inputs.registrationPerYear,
+      total: 0,
+    };
+
+    if (lease) {
+      // Leased cars go back at lease end and stay under warranty; costs are the lease cash flows
+      const paymentsInYear = Math.max(0, Math.min(lastMonth, car.termLength) - Math.max(firstMonth, 2) + 1);
+      entry.leasePayments =
+        (year === 1 ? lease.dueAtSigning : 0) +
+        paymentsInYear * lease.monthlyPaymentWithTax +
+        (car.termLength >= firstMonth && car.termLength <= lastMonth ? car.dispositionFee || 0 : 0);
+    } else {
+      entry.depreciation = valueAfter(year - 1) - valueAfter(year);
+      entry.financing = metrics.paymentSchedule
+        .filter(payment => payment.month >= firstMonth && payment.month <= lastMonth)
+        .reduce((sum, payment) => sum + payment.interestPaid, 0);
+      entry.taxesAndFees = year === 1 ? metrics.totalTax + metrics.totalAllFees : 0;
+      const monthsOutOfWarranty = Math.max(0, lastMonth - Math.max(firstMonth - 1, warrantyMonths));
+      entry.repairs = (inputs.repairsPerYear * monthsOutOfWarranty) / 12;
+    }
+
+    entry.total =
+      entry.depreciation +
+      entry.financing +
+      entry.taxesAndFees +
+      entry.leasePayments +
+      entry.insurance +
+      entry.fuel +
+      entry.maintenance +
+      entry.repairs +
+      entry.registration;
+    yearly.push(entry);
+  }
+
+  const sum = (key: keyof Omit<TcoYearEntry, 'year'>) => yearly.reduce((total, entry) => total + entry[key], 0);
+  const total = sum('total');
+  const totalMiles = inputs.annualMiles * years;
+
+  return {
+    inputs,
+    totalMiles,
+    warrantyMonths,
+    depreciation: sum('depreciation'),
+    financing: sum('financing'),
+    taxesAndFees: sum('taxesAndFees'),
+    leasePayments: sum('leasePayments'),
+    insurance: sum('insurance'),
+    fuel: sum('fuel'),
+    maintenance: sum('maintenance'),
+    repairs: sum('repairs'),
+    registration: sum('registration'),
+    total,
+    perMonth: total / (years * 12),
+    perMile: totalMiles > 0 ? total / totalMiles : 0,
+    projectedValue: lease ? 0 : valueAfter(years),
+    yearly,
+  };
+}
@@ -1,9 +1,50 @@
-import { Car } from './types';
+import { Car, SyncRecord } from './types';
+import { calculateTax, convertLegacyFees } from './carCalculations';
+import {
+  migrateData,
+  readVersioned,
+  reportMigrationFailure,
+  StorageMigration,
+  StorageMigrationError,
+  writeVersioned,
+} from './storageSchema';
+import { recordChanges, registerSyncSource, SyncSource } from './syncClient';
+import { reportStoredRecordIssues, validateCar } from './validation';
 import { v4 as uuidv4 } from 'uuid';
 
 const STORAGE_KEY = 'car-purchase-calculator-cars';
 
-class CarStorage {
+// Ordered upgrades for the saved cars blob. Imports replay these on exported files, so each one must leave
+// already-upgraded cars unchanged.
+export const CAR_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Default the buy rate APR, convert lump-sum fees to fee line items and recalculate tax',
+    migrate: (cars: Car[]) => {
+      if (!Array.isArray(cars)) {
+        throw new Error('Expected a list of cars');
+      }
+      return cars.map((car) => {
+        if (car.buyRateApr === undefined) car.buyRateApr = 0;
+        // Cars saved before itemized fees stored three lump sums
+        if (!car.fees) {
+          car.fees = convertLegacyFees(car);
+          delete car.dealerFees;
+          delete car.governmentFees;
+          delete car.otherFees;
+          if (car.taxRate && car.taxRate > 0 && car.negotiatedPrice > 0) {
+            car.tax = calculateTax(car);
+          }
+        }
+        return car;
+      });
+    },
+  },
+];
+
+class CarStorage implements SyncSource {
+  readonly collection = 'cars' as const;
+
   private static instance: CarStorage;
 
   private constructor() {}
@@ -15,45 +56,62 @@ class CarStorage {
     return CarStorage.instance;
   }
 
-  private saveToStorage(cars: Car[]): void {
+  // Reads are served from memory after the first load; writes re-read the adapter first (see loadForUpdate)
+  private cars: Promise<Car[]> | null = null;
+
+  private async saveToStorage(cars: Car[]): Promise<void> {
+    this.cars = Promise.resolve(cars);
     if (typeof window !== 'undefined') {
       try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(cars));
+        await writeVersioned(STORAGE_KEY, cars, CAR_MIGRATIONS);
       } catch (error) {
-        console.error('Error saving to localStorage:', error);
+        console.error('Error saving cars:', error);
       }
     }
   }
 
-  private loadFromStorage(): Car[] {
-    if (typeof window !== 'undefined') {
-      try {
-        const stored = localStorage.getItem(STORAGE_KEY);
-        if (stored) {
-          const cars = JSON.parse(stored) as Car[];
-          // Ensure tax is calculated from taxRate if taxRate exists, and set defaults for new fields
-          return cars.map((car) => {
-            if (car.taxRate && car.taxRate > 0 && car.negotiatedPrice > 0) {
-              car.tax = (car.negotiatedPrice * car.taxRate) / 100;
-            }
-            // Set defaults for new optional fields
-            if (car.buyRateApr === undefined) car.buyRateApr = 0;
-            if (car.dealerFees === undefined) car.dealerFees = 0;
-            if (car.governmentFees === undefined) car.governmentFees = 0;
-            if (car.otherFees === undefined) car.otherFees = 0;
-            // Warranty fields are optional, no defaults needed
-            return car;
-          });
-        }
-      } catch (error) {
-        console.error('Error loading from localStorage:', error);
-      }
+  private loadFromStorage(): Promise<Car[]> {
+    if (typeof window === 'undefined') {
+      return Promise.resolve([]);
+    }
+    if (!this.cars) {
+      this.cars = readVersioned<Car[]>(STORAGE_KEY, CAR_MIGRATIONS)
+        .then((cars) => this.checkStoredCars(cars || []))
+        .catch((error) => {
+          console.error('Error loading cars:', error);
+          this.cars = null;
+          return [];
+        });
     }
-    return [];
+    return this.cars;
   }
 
-  saveCar(car: Car): void {
-    const cars = this.getAllCars();
+  // Writes start from what's in storage rather than the cached list, so cars another tab saved aren't overwritten
+  private async loadForUpdate(): Promise<Car[]> {
+    this.cars = null;
+    return [...(await this.loadFromStorage())];
+  }
+
+  // Saved cars are validated on every load and anything that looks wrong is reported. Values that only look like
+  // the wrong unit (a 6-month term, a 0.5% rate) are never rescaled; that's only offered when importing.
+  private checkStoredCars(cars: Car[]): Car[] {
+    return cars.map((car) => {
+      const { value, issues } = validateCar(car, { correctUnits: false });
+      reportStoredRecordIssues({ store: 'Cars', label: this.describeRecord(value), issues });
+      return value;
+    });
+  }
+
+  private parseImport(json: string): unknown {
+    try {
+      return JSON.parse(json);
+    } catch {
+      throw new Error('Invalid JSON format');
+    }
+  }
+
+  async saveCar(car: Car): Promise<void> {
+    const cars = await this.loadForUpdate();
     const existingIndex = cars.findIndex((c) => c.id === car.id);
     
     if (existingIndex >= 0) {
@@ -65,65 +123,125 @@ class CarStorage {
       cars.push(car);
     }
     
-    this.saveToStorage(cars);
+    await this.saveToStorage(cars);
+    await recordChanges(this.collection, [car.id]);
   }
 
-  getAllCars(): Car[] {
-    return this.loadFromStorage();
+  // Returns a new array each time so callers can keep it in React state
+  async getAllCars(): Promise<Car[]> {
+    return [...(await this.loadFromStorage())];
   }
 
-  getCar(id: string): Car | undefined {
-    const cars = this.getAllCars();
+  async getCar(id: string): Promise<Car | undefined> {
+    const cars = await this.loadFromStorage();
     return cars.find((c) => c.id === id);
   }
 
-  deleteCar(id: string): void {
-    const cars = this.getAllCars();
+  async deleteCar(id: string): Promise<void> {
+    const cars = await this.loadForUpdate();
     const filtered = cars.filter((c) => c.id !== id);
-    this.saveToStorage(filtered);
+    await this.saveToStorage(filtered);
+    await recordChanges(this.collection, [id], true);
   }
 
-  exportCar(id: string): string {
-    const car = this.getCar(id);
+  async exportCar(id: string): Promise<string> {
+    const car = await this.getCar(id);
     if (!car) {
       throw new Error('Car not found');
     }
     return JSON.stringify(car, null, 2);
   }
 
-  importCar(json: string): Car {
-    try {
-      const car = JSON.parse(json) as Car;
-      if (!car.id) {
-        car.id = uuidv4();
-      }
-      this.saveCar(car);
-      return car;
-    } catch (error) {
+  // Parses a single exported car without saving it, so it can be validated first
+  parseCarImport(json: string): Car {
+    const parsed = this.parseImport(json);
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
       throw new Error('Invalid JSON format');
     }
+    // A single exported car goes through the same migrations as the saved list
+    const [car] = migrateData<Car[]>(STORAGE_KEY, [parsed], CAR_MIGRATIONS).data;
+    if (!car.id) {
+      car.id = uuidv4();
+    }
+    return car;
   }
 
-  exportAllCars(): string {
-    const cars = this.getAllCars();
+  async exportAllCars(): Promise<string> {
+    const cars = await this.getAllCars();
     return JSON.stringify(cars, null, 2);
   }
 
-  importAllCars(json: string): void {
-    try {
-      const cars = JSON.parse(json) as Car[];
-      // Ensure all cars have IDs
-      cars.forEach((car) => {
-        if (!car.id) {
-          car.id = uuidv4();
-        }
-      });
-      this.saveToStorage(cars);
-    } catch (error) {
+  // Parses an "Export All Cars" file without saving it, so the import can be merged with the saved cars
+  parseCarsImport(json: string): Car[] {
+    // Imports may be older exports (bare data) or versioned blobs; both are upgraded to the current schema
+    const cars = migrateData<Car[]>(STORAGE_KEY, this.parseImport(json), CAR_MIGRATIONS).data;
+    if (!Array.isArray(cars)) {
       throw new Error('Invalid JSON format');
     }
+    // Ensure all cars have IDs
+    cars.forEach((car) => {
+      if (!car.id) {
+        car.id = uuidv4();
+      }
+    });
+    return cars;
+  }
+
+  // Adds or replaces several cars at once (by id)
+  async saveCars(carsToSave: Car[]): Promise<void> {
+    if (carsToSave.length === 0) return;
+
+    const savedIds = new Set(carsToSave.map((car) => car.id));
+    const cars = (await this.loadForUpdate()).filter((car) => !savedIds.has(car.id));
+    await this.saveToStorage([...cars, ...carsToSave]);
+    await recordChanges(this.collection, Array.from(savedIds));
+  }
+
+  async getRecordIds(): Promise<string[]> {
+    return (await this.loadFromStorage()).map((car) => car.id);
+  }
+
+  getRecord(id: string): Promise<Car | undefined> {
+    return this.getCar(id);
+  }
+
+  // Cars from other devices may have been saved by an older version, so they go through the same migrations
+  async applyRemoteRecords(records: SyncRecord[]): Promise<void> {
+    const cars = await this.loadForUpdate();
+    records.forEach((record) => {
+      const index = cars.findIndex((c) => c.id === record.id);
+      if (record.deleted) {
+        if (index >= 0) cars.splice(index, 1);
+        return;
+      }
+      let car: Car;
+      try {
+        [car] = migrateData<Car[]>(STORAGE_KEY, [record.data], CAR_MIGRATIONS).data;
+      } catch (error) {
+        if (error instanceof StorageMigrationError) {
+          reportMigrationFailure(error.failure);
+          return;
+        }
+        throw error;
+      }
+      // Synced cars get the same checks as saved ones; the record's id is what other devices know it by
+      car = { ...this.checkStoredCars([car])[0], id: record.id };
+      if (index >= 0) {
+        cars[index] = car;
+      } else {
+        cars.push(car);
+      }
+    });
+    await this.saveToStorage(cars);
+  }
+
+  describeRecord(data: unknown): string {
+    const car = data as Car;
+    return `${car.year} ${car.make} ${car.model}`;
   }
 }
 
-export default CarStorage.getInstance();
+const carStorage = CarStorage.getInstance();
+registerSyncSource(carStorage);
+export default carStorage;
 
@@ -0,0 +1,95 @@
+import { SavedComparison, SyncRecord } from './types';
+import { readVersioned, StorageMigration, writeVersioned } from './storageSchema';
+import { recordChanges, registerSyncSource, SyncSource } from './syncClient';
+import { v4 as uuidv4 } from 'uuid';
+
+const COMPARISON_STORAGE_KEY = 'car-purchase-calculator-saved-comparisons';
+
+const COMPARISON_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Drop malformed saved comparisons',
+    migrate: (comparisons: SavedComparison[]) => {
+      if (!Array.isArray(comparisons)) {
+        throw new Error('Expected a list of saved comparisons');
+      }
+      return comparisons.filter((c) => c && typeof c.id === 'string' && Array.isArray(c.carIds));
+    },
+  },
+];
+
+class ComparisonStorage implements SyncSource {
+  readonly collection = 'comparisons' as const;
+
+  async getAllComparisons(): Promise<SavedComparison[]> {
+    if (typeof window === 'undefined') {
+      return [];
+    }
+
+    try {
+      return (await readVersioned<SavedComparison[]>(COMPARISON_STORAGE_KEY, COMPARISON_MIGRATIONS)) || [];
+    } catch (error) {
+      console.error('Error loading saved comparisons:', error);
+    }
+
+    return [];
+  }
+
+  private async saveAll(comparisons: SavedComparison[]): Promise<void> {
+    try {
+      await writeVersioned(COMPARISON_STORAGE_KEY, comparisons, COMPARISON_MIGRATIONS);
+    } catch (error) {
+      console.error('Error saving comparisons:', error);
+    }
+  }
+
+  // Saving under an existing name replaces that comparison
+  async saveComparison(comparison: Omit<SavedComparison, 'id' | 'savedAt'>): Promise<SavedComparison> {
+    const comparisons = await this.getAllComparisons();
+    const nameLower = comparison.name.toLowerCase().trim();
+    const existing = comparisons.find((c) => c.name.toLowerCase().trim() === nameLower);
+    const saved: SavedComparison = {
+      ...comparison,
+      name: comparison.name.trim(),
+      id: existing ? existing.id : uuidv4(),
+      savedAt: new Date().toISOString(),
+    };
+
+    await this.saveAll([...comparisons.filter((c) => c.id !== saved.id), saved]);
+    await recordChanges(this.collection, [saved.id]);
+    return saved;
+  }
+
+  async deleteComparison(id: string): Promise<void> {
+    const comparisons = await this.getAllComparisons();
+    await this.saveAll(comparisons.filter((c) => c.id !== id));
+    await recordChanges(this.collection, [id], true);
+  }
+
+  async getRecordIds(): Promise<string[]> {
+    return (await this.getAllComparisons()).map((c) => c.id);
+  }
+
+  async getRecord(id: string): Promise<SavedComparison | undefined> {
+    return (await this.getAllComparisons()).find((c) => c.id === id);
+  }
+
+  async applyRemoteRecords(records: SyncRecord[]): Promise<void> {
+    const changedIds = new Set(records.map((record) => record.id));
+    const comparisons = (await this.getAllComparisons()).filter((c) => !changedIds.has(c.id));
+    records.forEach((record) => {
+      if (!record.deleted) {
+        comparisons.push(record.data as SavedComparison);
+      }
+    });
+    await this.saveAll(comparisons);
+  }
+
+  describeRecord(data: unknown): string {
+    return `Saved comparison "${(data as SavedComparison).name}"`;
+  }
+}
+
+const comparisonStorage = new ComparisonStorage();
+registerSyncSource(comparisonStorage);
+export default comparisonStorage;
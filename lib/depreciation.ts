@@ -0,0 +1,74 @@
+export interface DepreciationCurve {
+  make: string; // Make name (e.g., "Toyota"); empty for the generic curve
+  model?: string; // Model name (e.g., "Tacoma"); empty/undefined applies to every model of the make
+  annualRates: number[]; // Percentage of value lost in each year of age (index 0 = first year); the last rate repeats
+  mileageAdjustmentPer1k: number; // Percentage of value lost per 1,000 miles above average (gained below average)
+}
+
+export const AVERAGE_ANNUAL_MILES = 12000;
+
+// Used when neither the make nor the model has a curve
+export const GENERIC_DEPRECIATION_CURVE: DepreciationCurve = {
+  make: '',
+  annualRates: [20, 15, 13, 11, 10, 9, 8],
+  mileageAdjustmentPer1k: 0.4,
+};
+
+// Rough market averages; users can override any of these on the Depreciation Curves page
+export const DEFAULT_DEPRECIATION_CURVES: DepreciationCurve[] = [
+  { make: 'Toyota', annualRates: [14, 11, 10, 9, 8, 8, 7], mileageAdjustmentPer1k: 0.3 },
+  { make: 'Toyota', model: 'Tacoma', annualRates: [10, 8, 8, 7, 7, 6, 6], mileageAdjustmentPer1k: 0.3 },
+  { make: 'Honda', annualRates: [15, 12, 10, 9, 8, 8, 7], mileageAdjustmentPer1k: 0.3 },
+  { make: 'Subaru', annualRates: [15, 12, 11, 9, 8, 8, 7], mileageAdjustmentPer1k: 0.35 },
+  { make: 'Lexus', annualRates: [16, 12, 10, 9, 8, 8, 7], mileageAdjustmentPer1k: 0.35 },
+  { make: 'Jeep', model: 'Wrangler', annualRates: [12, 10, 9, 8, 7, 7, 6], mileageAdjustmentPer1k: 0.3 },
+  { make: 'Ford', annualRates: [20, 15, 13, 11, 10, 9, 8], mileageAdjustmentPer1k: 0.4 },
+  { make: 'Tesla', annualRates: [22, 16, 13, 11, 10, 9, 8], mileageAdjustmentPer1k: 0.4 },
+  { make: 'BMW', annualRates: [25, 18, 15, 12, 10, 9, 8], mileageAdjustmentPer1k: 0.5 },
+  { make: 'Mercedes-Benz', annualRates: [25, 18, 15, 12, 10, 9, 8], mileageAdjustmentPer1k: 0.5 },
+];
+
+const normalize = (value?: string) => (value || '').toLowerCase().trim();
+
+// Exact make/model match; an empty model only matches make-wide curves
+export function matchesCurve(curve: DepreciationCurve, make: string, model?: string): boolean {
+  return normalize(curve.make) === normalize(make) && normalize(curve.model) === normalize(model);
+}
+
+// Most specific match wins: make + model, then make only, then the generic curve.
+// Curves in `overrides` (user-defined) win over the built-in defaults at each level.
+export function resolveDepreciationCurve(
+  make: string,
+  model?: string,
+  overrides: DepreciationCurve[] = []
+): DepreciationCurve {
+  if (!normalize(make)) return GENERIC_DEPRECIATION_CURVE;
+  const levels = normalize(model) ? [model, ''] : [''];
+  for (const level of levels) {
+    const match =
+      overrides.find((c) => matchesCurve(c, make, level)) ||
+      DEFAULT_DEPRECIATION_CURVES.find((c) => matchesCurve(c, make, level));
+    if (match) return match;
+  }
+  return GENERIC_DEPRECIATION_CURVE;
+}
+
+// Fraction of value left at the given age (in years), compounding each year's rate and prorating the current year
+export function calculateRetention(ageYears: number, curve: DepreciationCurve): number {
+  const rates = curve.annualRates.length > 0 ? curve.annualRates : GENERIC_DEPRECIATION_CURVE.annualRates;
+  const age = Math.max(0, ageYears);
+  const fullYears = Math.floor(age);
+  const rateFor = (yearIndex: number) => rates[Math.min(yearIndex, rates.length - 1)] / 100;
+
+  let retention = 1;
+  for (let yearIndex = 0; yearIndex < fullYears; yearIndex++) {
+    retention *= 1 - rateFor(yearIndex);
+  }
+  return retention * (1 - rateFor(fullYears) * (age - fullYears));
+}
+
+// Value multiplier for miles above/below average for the car's age (bounded so odometer extremes don't dominate)
+export function calculateMileageFactor(miles: number, ageYears: number, curve: DepreciationCurve): number {
+  const excessThousands = (miles - Math.max(0, ageYears) * AVERAGE_ANNUAL_MILES) / 1000;
+  return Math.min(1.5, Math.max(0.5, 1 - (excessThousands * curve.mileageAdjustmentPer1k) / 100));
+}
@@ -0,0 +1,81 @@
+import { DepreciationCurve, matchesCurve, resolveDepreciationCurve } from './depreciation';
+import { readVersioned, StorageMigration, writeVersioned } from './storageSchema';
+
+const DEPRECIATION_STORAGE_KEY = 'car-purchase-calculator-depreciation-curves';
+
+const DEPRECIATION_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Drop malformed depreciation curves',
+    migrate: (curves: DepreciationCurve[]) => {
+      if (!Array.isArray(curves)) {
+        throw new Error('Expected a list of curves');
+      }
+      return curves.filter((c) => c && typeof c.make === 'string' && Array.isArray(c.annualRates));
+    },
+  },
+];
+
+class DepreciationStorage {
+  // Curves from the last getAllCurves() call, so getCurve() can be used while rendering
+  private curves: DepreciationCurve[] = [];
+
+  // User-defined curves only (built-in defaults live in lib/depreciation.ts)
+  async getAllCurves(): Promise<DepreciationCurve[]> {
+    if (typeof window === 'undefined') {
+      return [];
+    }
+
+    try {
+      this.curves = (await readVersioned<DepreciationCurve[]>(DEPRECIATION_STORAGE_KEY, DEPRECIATION_MIGRATIONS)) || [];
+    } catch (error) {
+      console.error('Error loading depreciation curves:', error);
+    }
+
+    return [...this.curves];
+  }
+
+  // User curves take priority over the built-in defaults at each level of specificity
+  getCurve(make: string, model?: string): DepreciationCurve {
+    return resolveDepreciationCurve(make, model, this.curves);
+  }
+
+  async saveCurve(curve: DepreciationCurve): Promise<void> {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const curves = await this.getAllCurves();
+
+      // Remove existing curve for this make/model combination
+      const filtered = curves.filter((c) => !matchesCurve(c, curve.make, curve.model));
+
+      filtered.push({
+        make: curve.make.trim(),
+        model: curve.model?.trim() || undefined,
+        annualRates: curve.annualRates,
+        mileageAdjustmentPer1k: curve.mileageAdjustmentPer1k,
+      });
+
+      this.curves = filtered;
+      await writeVersioned(DEPRECIATION_STORAGE_KEY, filtered, DEPRECIATION_MIGRATIONS);
+    } catch (error) {
+      console.error('Error saving depreciation curve:', error);
+    }
+  }
+
+  async deleteCurve(make: string, model?: string): Promise<void> {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const curves = await this.getAllCurves();
+      const filtered = curves.filter((c) => !matchesCurve(c, make, model));
+      this.curves = filtered;
+      await writeVersioned(DEPRECIATION_STORAGE_KEY, filtered, DEPRECIATION_MIGRATIONS);
+    } catch (error) {
+      console.error('Error deleting depreciation curve:', error);
+    }
+  }
+}
+
+const depreciationStorage = new DepreciationStorage();
+export default depreciationStorage;
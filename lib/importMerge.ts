@@ -0,0 +1,184 @@
+import { Car } from './types';
+import type { MakeAprRate } from './makeAprStorage';
+import type { UserProfile } from './profileStorage';
+import { v4 as uuidv4 } from 'uuid';
+
+// Merge-mode import: incoming records are matched against what's already saved. New records are added, identical
+// ones are skipped, and records that differ become conflicts the user resolves one by one.
+
+// 'keepBoth' saves the incoming record as a separate copy (only offered where two copies can coexist)
+export type MergeResolution = 'keepExisting' | 'takeIncoming' | 'keepBoth';
+
+export interface FieldDiff {
+  field: string;
+  existing: unknown;
+  incoming: unknown;
+}
+
+export interface MergeConflict<T> {
+  key: string; // Unique within one import
+  label: string;
+  matchedBy: 'id' | 'vin' | 'makeAndTerm' | 'profile';
+  existing: T;
+  incoming: T;
+  diffs: FieldDiff[];
+  canKeepBoth: boolean;
+}
+
+export interface MergePlan<T> {
+  added: T[]; // Incoming records with no match, added as-is
+  unchanged: number; // Incoming records identical to a saved one
+  duplicates: number; // Rows dropped because a later row in the same file is the same record
+  conflicts: MergeConflict<T>[];
+}
+
+// A file can list the same record twice (e.g., two rows for one make and term); the last row wins, like saving
+// them one after another would. Rows keep their position in the file so conflict keys stay unique.
+function dropDuplicateRows<T>(incoming: T[], keysOf: (record: T) => string[]): { rows: [T, number][]; duplicates: number } {
+  const seen = new Set<string>();
+  const rows: [T, number][] = [];
+  for (let index = incoming.length - 1; index >= 0; index--) {
+    const keys = keysOf(incoming[index]);
+    if (keys.some((key) => seen.has(key))) {
+      continue;
+    }
+    keys.forEach((key) => seen.add(key));
+    rows.unshift([incoming[index], index]);
+  }
+  return { rows, duplicates: incoming.length - rows.length };
+}
+
+// Field-by-field differences; nested values (fees, add-ons, ...) are compared as a whole
+export function diffRecords(existing: object, incoming: object, ignoredFields: string[] = []): FieldDiff[] {
+  const a = existing as Record<string, unknown>;
+  const b = incoming as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).filter((f) => !ignoredFields.includes(f));
+  return fields
+    .filter((field) => JSON.stringify(a[field]) !== JSON.stringify(b[field]))
+    .map((field) => ({ field, existing: a[field], incoming: b[field] }));
+}
+
+export const describeCar = (car: Car) => `${car.year} ${car.make} ${car.model}${car.tier ? ` ${car.tier}` : ''}`;
+
+const normalizeVin = (car: Car) => car.vin?.trim().toUpperCase();
+
+// Cars match by id first, then by VIN (e.g., the same car exported from another browser with a different id)
+export function planCarMerge(existing: Car[], incoming: Car[]): MergePlan<Car> {
+  const { rows, duplicates } = dropDuplicateRows(incoming, (car) => {
+    const vin = normalizeVin(car);
+    return [`id:${car.id}`, ...(vin ? [`vin:${vin}`] : [])];
+  });
+  const plan: MergePlan<Car> = { added: [], unchanged: 0, duplicates, conflicts: [] };
+  const matchedIds = new Set<string>();
+
+  rows.forEach(([car, index]) => {
+    let match = existing.find((c) => c.id === car.id && !matchedIds.has(c.id));
+    let matchedBy: MergeConflict<Car>['matchedBy'] = 'id';
+    const vin = normalizeVin(car);
+    if (!match && vin) {
+      match = existing.find((c) => normalizeVin(c) === vin && !matchedIds.has(c.id));
+      matchedBy = 'vin';
+    }
+    if (!match) {
+      plan.added.push(car);
+      return;
+    }
+
+    matchedIds.add(match.id);
+    // A VIN match keeps the saved car's id, so the id itself isn't a difference
+    const diffs = diffRecords(match, car, matchedBy === 'vin' ? ['id'] : []);
+    if (diffs.length === 0) {
+      plan.unchanged += 1;
+      return;
+    }
+    plan.conflicts.push({
+      key: `car-${index}`,
+      label: describeCar(match),
+      matchedBy,
+      existing: match,
+      incoming: car,
+      diffs,
+      canKeepBoth: true,
+    });
+  });
+
+  return plan;
+}
+
+// Cars to save: new cars, incoming versions replacing saved ones (under the saved id), and kept-both copies
+export function resolveCarMerge(plan: MergePlan<Car>, resolutions: Record<string, MergeResolution>): Car[] {
+  const cars = [...plan.added];
+  plan.conflicts.forEach((conflict) => {
+    const resolution = resolutions[conflict.key] || 'keepExisting';
+    if (resolution === 'takeIncoming') {
+      cars.push({ ...conflict.incoming, id: conflict.existing.id });
+    } else if (resolution === 'keepBoth') {
+      // Matched by id, so the copy needs its own id; a VIN match already has a different one
+      cars.push(conflict.matchedBy === 'id' ? { ...conflict.incoming, id: uuidv4() } : conflict.incoming);
+    }
+  });
+  return cars;
+}
+
+const getRateKey = (rate: MakeAprRate) => `${rate.make.toLowerCase().trim()}|${rate.termLength}`;
+
+// A make can only have one rate per term, so keeping both isn't possible
+export function planRateMerge(existing: MakeAprRate[], incoming: MakeAprRate[]): MergePlan<MakeAprRate> {
+  const { rows, duplicates } = dropDuplicateRows(incoming, (rate) => [getRateKey(rate)]);
+  const plan: MergePlan<MakeAprRate> = { added: [], unchanged: 0, duplicates, conflicts: [] };
+  rows.forEach(([rate, index]) => {
+    const match = existing.find((r) => getRateKey(r) === getRateKey(rate));
+    if (!match) {
+      plan.added.push(rate);
+    } else if (match.apr === rate.apr) {
+      plan.unchanged += 1;
+    } else {
+      plan.conflicts.push({
+        key: `rate-${index}`,
+        label: `${match.make} ${match.termLength} months`,
+        matchedBy: 'makeAndTerm',
+        existing: match,
+        incoming: rate,
+        diffs: [{ field: 'apr', existing: match.apr, incoming: rate.apr }],
+        canKeepBoth: false,
+      });
+    }
+  });
+  return plan;
+}
+
+export function resolveRateMerge(plan: MergePlan<MakeAprRate>, resolutions: Record<string, MergeResolution>): MakeAprRate[] {
+  return [
+    ...plan.added,
+    ...plan.conflicts.filter((c) => resolutions[c.key] === 'takeIncoming').map((c) => c.incoming),
+  ];
+}
+
+// Fields missing from the imported profile keep their saved values
+export function planProfileMerge(existing: UserProfile, incoming: Partial<UserProfile>): MergePlan<UserProfile> {
+  const merged: UserProfile = {
+    ...existing,
+    ...incoming,
+    tcoDefaults: { ...existing.tcoDefaults, ...incoming.tcoDefaults },
+  };
+  const diffs = diffRecords(existing, merged);
+  if (diffs.length === 0) {
+    return { added: [], unchanged: 1, duplicates: 0, conflicts: [] };
+  }
+  return {
+    added: [],
+    unchanged: 0,
+    duplicates: 0,
+    conflicts: [
+      { key: 'profile', label: 'Profile settings', matchedBy: 'profile', existing, incoming: merged, diffs, canKeepBoth: false },
+    ],
+  };
+}
+
+export function resolveProfileMerge(
+  plan: MergePlan<UserProfile>,
+  resolutions: Record<string, MergeResolution>
+): UserProfile | null {
+  const conflict = plan.conflicts[0];
+  return conflict && resolutions[conflict.key] === 'takeIncoming' ? conflict.incoming : null;
+}
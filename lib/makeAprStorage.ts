@@ -1,3 +1,8 @@
+import { readVersioned, StorageMigration, writeVersioned } from './storageSchema';
+import { recordChanges, registerSyncSource, SyncSource } from './syncClient';
+import { SyncRecord } from './types';
+import { reportStoredRecordIssues, validateMakeAprRate } from './validation';
+
 export interface MakeAprRate {
   make: string; // Make name (e.g., "Ford", "Toyota")
   termLength: number; // Term length in months (e.g., 36, 48, 60)
@@ -6,27 +11,50 @@ export interface MakeAprRate {
 
 const MAKE_APR_STORAGE_KEY = 'car-purchase-calculator-make-apr-rates';
 
-class MakeAprStorage {
-  getAllRates(): MakeAprRate[] {
+const MAKE_APR_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Drop malformed make APR rates',
+    migrate: (rates: MakeAprRate[]) => {
+      if (!Array.isArray(rates)) {
+        throw new Error('Expected a list of rates');
+      }
+      return rates.filter(
+        (r) => r && typeof r.make === 'string' && typeof r.termLength === 'number' && typeof r.apr === 'number'
+      );
+    },
+  },
+];
+
+// Rates are synced by make and term, since that's what identifies a rate
+function getRateId(make: string, termLength: number): string {
+  return `${make.toLowerCase().trim()}|${termLength}`;
+}
+
+class MakeAprStorage implements SyncSource {
+  readonly collection = 'makeAprRates' as const;
+
+  // Rates from the last getAllRates() call, used by the synchronous lookups below
+  private rates: MakeAprRate[] = [];
+
+  async getAllRates(): Promise<MakeAprRate[]> {
     if (typeof window === 'undefined') {
       return [];
     }
 
     try {
-      const stored = localStorage.getItem(MAKE_APR_STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        return Array.isArray(parsed) ? parsed : [];
-      }
+      const stored = (await readVersioned<MakeAprRate[]>(MAKE_APR_STORAGE_KEY, MAKE_APR_MIGRATIONS)) || [];
+      // Validated on every load; corrections are kept in memory and saved with the next change
+      this.rates = stored.map((rate) => this.checkStoredRate(rate));
     } catch (error) {
       console.error('Error loading make APR rates:', error);
     }
 
-    return [];
+    return [...this.rates];
   }
 
   getRate(make: string, termLength: number): number | null {
-    const rates = this.getAllRates();
+    const rates = this.rates;
     const makeLower = make.toLowerCase().trim();
     const rate = rates.find(
       (r) => r.make.toLowerCase().trim() === makeLower && r.termLength === termLength
@@ -34,11 +62,11 @@ class MakeAprStorage {
     return rate ? rate.apr : null;
   }
 
-  saveRate(rate: MakeAprRate): void {
+  async saveRate(rate: MakeAprRate): Promise<void> {
     if (typeof window === 'undefined') return;
 
     try {
-      const rates = this.getAllRates();
+      const rates = await this.getAllRates();
       const makeLower = rate.make.toLowerCase().trim();
       const termLength = rate.termLength;
       
@@ -54,41 +82,78 @@ class MakeAprStorage {
         apr: rate.apr,
       });
       
-      localStorage.setItem(MAKE_APR_STORAGE_KEY, JSON.stringify(filtered));
+      this.rates = filtered;
+      await writeVersioned(MAKE_APR_STORAGE_KEY, filtered, MAKE_APR_MIGRATIONS);
+      await recordChanges(this.collection, [getRateId(rate.make, termLength)]);
     } catch (error) {
       console.error('Error saving make APR rate:', error);
     }
   }
 
-  deleteRate(make: string, termLength: number): void {
+  async deleteRate(make: string, termLength: number): Promise<void> {
     if (typeof window === 'undefined') return;
 
     try {
-      const rates = this.getAllRates();
+      const rates = await this.getAllRates();
       const makeLower = make.toLowerCase().trim();
       const filtered = rates.filter(
         (r) => !(r.make.toLowerCase().trim() === makeLower && r.termLength === termLength)
       );
-      localStorage.setItem(MAKE_APR_STORAGE_KEY, JSON.stringify(filtered));
+      this.rates = filtered;
+      await writeVersioned(MAKE_APR_STORAGE_KEY, filtered, MAKE_APR_MIGRATIONS);
+      await recordChanges(this.collection, [getRateId(make, termLength)], true);
     } catch (error) {
       console.error('Error deleting make APR rate:', error);
     }
   }
 
   getRatesByMake(make: string): MakeAprRate[] {
-    const rates = this.getAllRates();
+    const rates = this.rates;
     const makeLower = make.toLowerCase().trim();
     return rates.filter((r) => r.make.toLowerCase().trim() === makeLower);
   }
 
   getAllMakes(): string[] {
-    const rates = this.getAllRates();
+    const rates = this.rates;
     const makes = new Set<string>();
     rates.forEach((r) => makes.add(r.make));
     return Array.from(makes).sort();
   }
+
+  async getRecordIds(): Promise<string[]> {
+    return (await this.getAllRates()).map((r) => getRateId(r.make, r.termLength));
+  }
+
+  async getRecord(id: string): Promise<MakeAprRate | undefined> {
+    return (await this.getAllRates()).find((r) => getRateId(r.make, r.termLength) === id);
+  }
+
+  async applyRemoteRecords(records: SyncRecord[]): Promise<void> {
+    const changedIds = new Set(records.map((record) => record.id));
+    const rates = (await this.getAllRates()).filter((r) => !changedIds.has(getRateId(r.make, r.termLength)));
+    records.forEach((record) => {
+      if (!record.deleted) {
+        rates.push(this.checkStoredRate(record.data));
+      }
+    });
+    this.rates = rates;
+    await writeVersioned(MAKE_APR_STORAGE_KEY, rates, MAKE_APR_MIGRATIONS);
+  }
+
+  // Saved and synced rates get the same checks; anything that looks wrong is reported, but units aren't rescaled
+  private checkStoredRate(rate: unknown): MakeAprRate {
+    const { value, issues } = validateMakeAprRate(rate, { correctUnits: false });
+    reportStoredRecordIssues({ store: 'Make APR rates', label: `${value.make} ${value.termLength} months`, issues });
+    return value;
+  }
+
+  describeRecord(data: unknown): string {
+    const rate = data as MakeAprRate;
+    return `${rate.make} ${rate.termLength}-month APR`;
+  }
 }
 
 const makeAprStorage = new MakeAprStorage();
+registerSyncSource(makeAprStorage);
 export default makeAprStorage;
 
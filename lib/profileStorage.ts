@@ -1,3 +1,9 @@
+import { SyncRecord, TcoInputs } from './types';
+import { getStorageAdapter } from './storageAdapter';
+import { readVersioned, StorageMigration, writeVersioned } from './storageSchema';
+import { recordChanges, registerSyncSource, SyncSource } from './syncClient';
+import { reportStoredRecordIssues, validateProfile } from './validation';
+
 export interface UserProfile {
   taxRate: number;
   state: string;
@@ -7,12 +13,35 @@ export interface UserProfile {
   defaultDownPayment: number;
   defaultTermLength: number;
   defaultApr: number; // APR as decimal (e.g., 0.045 for 4.5%)
+  targetMonthlyPayment: number; // Monthly budget used for max-price hints (0 = not set)
+  typicalDealerFees: number; // Typical fee amounts assumed when estimating what a budget can buy
+  typicalGovernmentFees: number;
+  typicalOtherFees: number;
+  expectedInvestmentReturn: number; // Expected annual return on cash not spent on the car, as a percentage (e.g., 5 for 5%)
   feeRecommendations: string; // Custom fee recommendations/notes
+  tcoDefaults: TcoInputs; // Default ownership cost assumptions for the TCO projection
 }
 
 const PROFILE_STORAGE_KEY = 'car-purchase-calculator-profile';
+const PROFILE_RECORD_ID = 'profile'; // The profile is synced as a single record
+
+// Missing fields are filled from the defaults on every read, so migrations only handle renamed or reshaped fields
+const PROFILE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Version the saved profile',
+    migrate: (profile: Partial<UserProfile>) => {
+      if (profile === null || typeof profile !== 'object' || Array.isArray(profile)) {
+        throw new Error('Expected a profile object');
+      }
+      return profile;
+    },
+  },
+];
+
+class ProfileStorage implements SyncSource {
+  readonly collection = 'profile' as const;
 
-class ProfileStorage {
   private getDefaultProfile(): UserProfile {
     return {
       taxRate: 6,
@@ -23,47 +52,120 @@ class ProfileStorage {
       defaultDownPayment: 0,
       defaultTermLength: 60,
       defaultApr: 0.045, // 4.5% default APR
+      targetMonthlyPayment: 0,
+      typicalDealerFees: 999,
+      typicalGovernmentFees: 400,
+      typicalOtherFees: 100,
+      expectedInvestmentReturn: 5,
       feeRecommendations: '',
+      tcoDefaults: {
+        ownershipYears: 5,
+        annualMiles: 12000,
+        insurancePerYear: 1800,
+        fuelType: 'gas',
+        fuelEfficiency: 25,
+        energyPrice: 3.5,
+        maintenancePerYear: 800,
+        repairsPerYear: 600,
+        registrationPerYear: 150,
+      },
     };
   }
 
+  // Last profile read from or written to storage. Components read it synchronously while rendering, so pages
+  // call loadProfile() on mount before rendering anything that depends on it.
+  private profile: UserProfile | null = null;
+
+  private mergeWithDefaults(stored: Partial<UserProfile>): UserProfile {
+    // Merge with defaults to ensure all fields exist
+    const defaults = this.getDefaultProfile();
+    return { ...defaults, ...stored, tcoDefaults: { ...defaults.tcoDefaults, ...stored.tcoDefaults } };
+  }
+
   getProfile(): UserProfile {
+    return this.profile || this.getDefaultProfile();
+  }
+
+  async loadProfile(): Promise<UserProfile> {
     if (typeof window === 'undefined') {
       return this.getDefaultProfile();
     }
 
     try {
-      const stored = localStorage.getItem(PROFILE_STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        // Merge with defaults to ensure all fields exist
-        return { ...this.getDefaultProfile(), ...parsed };
+      const parsed = await readVersioned<Partial<UserProfile>>(PROFILE_STORAGE_KEY, PROFILE_MIGRATIONS);
+      if (parsed) {
+        // Validated on every load; corrections are kept in memory and saved with the next change
+        this.profile = this.checkStoredProfile(parsed);
+      } else {
+        this.profile = this.getDefaultProfile();
       }
     } catch (error) {
       console.error('Error loading profile:', error);
     }
 
-    return this.getDefaultProfile();
+    return this.getProfile();
   }
 
-  saveProfile(profile: Partial<UserProfile>): void {
+  async saveProfile(profile: Partial<UserProfile>): Promise<void> {
     if (typeof window === 'undefined') return;
 
     try {
-      const current = this.getProfile();
+      const current = await this.loadProfile();
       const updated = { ...current, ...profile };
-      localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(updated));
+      this.profile = updated;
+      await writeVersioned(PROFILE_STORAGE_KEY, updated, PROFILE_MIGRATIONS);
+      await recordChanges(this.collection, [PROFILE_RECORD_ID]);
     } catch (error) {
       console.error('Error saving profile:', error);
     }
   }
 
-  clearProfile(): void {
+  async clearProfile(): Promise<void> {
     if (typeof window === 'undefined') return;
-    localStorage.removeItem(PROFILE_STORAGE_KEY);
+    this.profile = null;
+    const adapter = await getStorageAdapter();
+    await adapter.removeItem(PROFILE_STORAGE_KEY);
+    await recordChanges(this.collection, [PROFILE_RECORD_ID], true);
+  }
+
+  async getRecordIds(): Promise<string[]> {
+    return (await this.getRecord(PROFILE_RECORD_ID)) ? [PROFILE_RECORD_ID] : [];
+  }
+
+  // Only a saved profile is synced, never the defaults
+  async getRecord(id: string): Promise<UserProfile | undefined> {
+    if (id !== PROFILE_RECORD_ID) return undefined;
+    const stored = await readVersioned<Partial<UserProfile>>(PROFILE_STORAGE_KEY, PROFILE_MIGRATIONS);
+    return stored ? this.mergeWithDefaults(stored) : undefined;
+  }
+
+  async applyRemoteRecords(records: SyncRecord[]): Promise<void> {
+    const record = records.find((r) => r.id === PROFILE_RECORD_ID);
+    if (!record) return;
+
+    if (record.deleted) {
+      this.profile = null;
+      const adapter = await getStorageAdapter();
+      await adapter.removeItem(PROFILE_STORAGE_KEY);
+      return;
+    }
+    this.profile = this.checkStoredProfile(record.data);
+    await writeVersioned(PROFILE_STORAGE_KEY, this.profile, PROFILE_MIGRATIONS);
+  }
+
+  // Saved and synced profiles get the same checks; anything that looks wrong is reported, but units aren't rescaled
+  private checkStoredProfile(data: unknown): UserProfile {
+    const { value, issues } = validateProfile(data, { correctUnits: false });
+    reportStoredRecordIssues({ store: 'Profile', label: 'Profile settings', issues });
+    return this.mergeWithDefaults(value);
+  }
+
+  describeRecord(): string {
+    return 'Profile settings';
   }
 }
 
 const profileStorage = new ProfileStorage();
+registerSyncSource(profileStorage);
 export default profileStorage;
 
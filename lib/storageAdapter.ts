@@ -0,0 +1,128 @@
+// Where persisted blobs live. IndexedDB is used when the browser has it (no 5 MB quota, and values are stored
+// as structured data instead of JSON strings); localStorage is the fallback, e.g. when IndexedDB is blocked.
+export interface StorageAdapter {
+  readonly name: 'indexedDB' | 'localStorage';
+  getItem(key: string): Promise<unknown>; // null when nothing is stored under the key
+  setItem(key: string, value: unknown): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+// Values that aren't valid JSON are returned as the raw string so callers can report them instead of losing them
+function parseStoredValue(stored: string): unknown {
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return stored;
+  }
+}
+
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'localStorage' as const;
+
+  async getItem(key: string): Promise<unknown> {
+    const stored = localStorage.getItem(key);
+    return stored === null ? null : parseStoredValue(stored);
+  }
+
+  async setItem(key: string, value: unknown): Promise<void> {
+    localStorage.setItem(key, JSON.stringify(value));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+}
+
+const DB_NAME = 'car-purchase-calculator';
+const DB_VERSION = 1;
+const BLOB_STORE = 'blobs';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(BLOB_STORE)) {
+        request.result.createObjectStore(BLOB_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab'));
+  });
+}
+
+export class IndexedDbAdapter implements StorageAdapter {
+  readonly name = 'indexedDB' as const;
+
+  constructor(private db: IDBDatabase) {}
+
+  static async open(): Promise<IndexedDbAdapter> {
+    return new IndexedDbAdapter(await openDatabase());
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const transaction = this.db.transaction(BLOB_STORE, mode);
+    // Writes aren't durable until the transaction completes, not just when the request succeeds
+    const completed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const result = await requestToPromise(operation(transaction.objectStore(BLOB_STORE)));
+    await completed;
+    return result;
+  }
+
+  // Data saved before IndexedDB was used is still in localStorage; it's moved over the first time it's read
+  async getItem(key: string): Promise<unknown> {
+    const value = await this.run('readonly', (store) => store.get(key));
+    if (value !== undefined) {
+      return value;
+    }
+
+    const legacy = localStorage.getItem(key);
+    if (legacy === null) {
+      return null;
+    }
+    const migrated = parseStoredValue(legacy);
+    await this.setItem(key, migrated);
+    localStorage.removeItem(key);
+    return migrated;
+  }
+
+  async setItem(key: string, value: unknown): Promise<void> {
+    await this.run('readwrite', (store) => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.run('readwrite', (store) => store.delete(key));
+    localStorage.removeItem(key);
+  }
+}
+
+let adapterPromise: Promise<StorageAdapter> | null = null;
+
+// Shared adapter for the browser session; opened once and reused by every storage module
+export function getStorageAdapter(): Promise<StorageAdapter> {
+  if (!adapterPromise) {
+    adapterPromise = (async () => {
+      if (typeof indexedDB === 'undefined') {
+        return new LocalStorageAdapter();
+      }
+      try {
+        return await IndexedDbAdapter.open();
+      } catch (error) {
+        console.error('IndexedDB unavailable, falling back to localStorage:', error);
+        return new LocalStorageAdapter();
+      }
+    })();
+  }
+  return adapterPromise;
+}
@@ -0,0 +1,156 @@
+import { getStorageAdapter } from './storageAdapter';
+
+// Versioned storage blobs. Everything persisted is stored as { schemaVersion, data }; blobs written before
+// versioning (the bare data) count as version 0. Each store lists its migrations in order, and a blob is upgraded
+// once on the first read after an update, then written back at the latest version.
+
+export interface StorageMigration {
+  version: number; // Schema version this migration upgrades to (from version - 1)
+  description: string;
+  migrate(data: unknown): unknown; // Method syntax so migrations can declare the shape they expect
+}
+
+export interface VersionedBlob<T> {
+  schemaVersion: number;
+  data: T;
+}
+
+export interface StorageMigrationFailure {
+  key: string; // Storage key of the blob that couldn't be upgraded
+  fromVersion: number; // Version the blob was stored at
+  toVersion: number; // Version the failing migration upgrades to
+  message: string;
+  backupKey?: string; // Where the original blob was copied so it isn't lost when the store is written again
+  occurredAt: string; // ISO timestamp
+}
+
+export class StorageMigrationError extends Error {
+  failure: StorageMigrationFailure;
+
+  constructor(failure: StorageMigrationFailure) {
+    super(`Could not upgrade "${failure.key}" from schema v${failure.fromVersion} to v${failure.toVersion}: ${failure.message}`);
+    this.name = 'StorageMigrationError';
+    this.failure = failure;
+  }
+}
+
+export function getSchemaVersion(migrations: StorageMigration[]): number {
+  return migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+}
+
+function unwrapBlob(raw: unknown): { version: number; data: unknown } {
+  if (
+    raw !== null &&
+    typeof raw === 'object' &&
+    !Array.isArray(raw) &&
+    typeof (raw as VersionedBlob<unknown>).schemaVersion === 'number' &&
+    'data' in raw
+  ) {
+    return { version: (raw as VersionedBlob<unknown>).schemaVersion, data: (raw as VersionedBlob<unknown>).data };
+  }
+  return { version: 0, data: raw };
+}
+
+// Runs every migration newer than the blob's version, in order. Bare (unversioned) data starts at version 0,
+// which is also how exported files are imported, so migrations must leave already-current records unchanged.
+export function migrateData<T>(
+  key: string,
+  raw: unknown,
+  migrations: StorageMigration[]
+): { data: T; fromVersion: number; upgraded: boolean } {
+  const latestVersion = getSchemaVersion(migrations);
+  const { version, data } = unwrapBlob(raw);
+  if (version > latestVersion) {
+    throw new StorageMigrationError({
+      key,
+      fromVersion: version,
+      toVersion: latestVersion,
+      message: 'Saved by a newer version of the app',
+      occurredAt: new Date().toISOString(),
+    });
+  }
+
+  let current = data;
+  for (const migration of migrations.filter((m) => m.version > version)) {
+    try {
+      current = migration.migrate(current);
+    } catch (error) {
+      throw new StorageMigrationError({
+        key,
+        fromVersion: version,
+        toVersion: migration.version,
+        message: `${migration.description}: ${(error as Error).message}`,
+        occurredAt: new Date().toISOString(),
+      });
+    }
+  }
+  return { data: current as T, fromVersion: version, upgraded: version < latestVersion };
+}
+
+export async function writeVersioned<T>(key: string, data: T, migrations: StorageMigration[]): Promise<void> {
+  const blob: VersionedBlob<T> = { schemaVersion: getSchemaVersion(migrations), data };
+  const adapter = await getStorageAdapter();
+  await adapter.setItem(key, blob);
+}
+
+// Reads a blob, upgrading it and writing it back when it's behind the latest version. Returns null when nothing
+// is stored or the blob can't be upgraded; failures are reported and the original is kept under a backup key.
+export async function readVersioned<T>(key: string, migrations: StorageMigration[]): Promise<T | null> {
+  const adapter = await getStorageAdapter();
+  const raw = await adapter.getItem(key);
+  if (raw === null || raw === undefined) {
+    return null;
+  }
+
+  // Migrations may update records in place, so keep an untouched copy for the backup
+  const original = structuredClone(raw);
+  try {
+    const { data, upgraded } = migrateData<T>(key, raw, migrations);
+    if (upgraded) {
+      await writeVersioned(key, data, migrations);
+    }
+    return data;
+  } catch (error) {
+    if (!(error instanceof StorageMigrationError)) {
+      throw error;
+    }
+    const backupKey = `${key}-backup-v${error.failure.fromVersion}`;
+    if ((await adapter.getItem(backupKey)) === null) {
+      await adapter.setItem(backupKey, original);
+    }
+    reportMigrationFailure({ ...error.failure, backupKey });
+    return null;
+  }
+}
+
+// Failures are kept for the session so the UI can show them. A blob that can't be upgraded fails again on every
+// read, so each blob/version pair is only reported once (and stays dismissed once dismissed).
+let migrationFailures: StorageMigrationFailure[] = [];
+const reportedFailures = new Set<string>();
+const failureListeners = new Set<() => void>();
+
+export function reportMigrationFailure(failure: StorageMigrationFailure): void {
+  const failureId = `${failure.key}:${failure.fromVersion}->${failure.toVersion}`;
+  if (reportedFailures.has(failureId)) {
+    return;
+  }
+  reportedFailures.add(failureId);
+  migrationFailures = [...migrationFailures, failure];
+  failureListeners.forEach((listener) => listener());
+}
+
+export function getMigrationFailures(): StorageMigrationFailure[] {
+  return migrationFailures;
+}
+
+export function subscribeToMigrationFailures(listener: () => void): () => void {
+  failureListeners.add(listener);
+  return () => {
+    failureListeners.delete(listener);
+  };
+}
+
+export function dismissMigrationFailures(): void {
+  migrationFailures = [];
+  failureListeners.forEach((listener) => listener());
+}
@@ -0,0 +1,264 @@
+import { SyncCollection, SyncConflict, SyncRecord, SyncResponse } from './types';
+import { readVersioned, StorageMigration, writeVersioned } from './storageSchema';
+import { getStorageAdapter } from './storageAdapter';
+
+// Syncs the storage classes with the server (/api/sync/[collection]). Local storage stays the source the app reads
+// from: edits are recorded as pending changes and pushed in the background, and records changed on other devices
+// are pulled into local storage. When the server can't be reached, pending changes wait for the next attempt.
+
+// A storage class that can be synced; records are addressed by a stable id within the collection
+export interface SyncSource {
+  collection: SyncCollection;
+  getRecordIds(): Promise<string[]>;
+  getRecord(id: string): Promise<unknown | undefined>;
+  applyRemoteRecords(records: SyncRecord[]): Promise<void>; // Must not record the applied records as local changes
+  describeRecord?(data: unknown): string;
+}
+
+interface PendingChange {
+  updatedAt: string;
+  deleted?: boolean;
+}
+
+interface SyncState {
+  revisions: Partial<Record<SyncCollection, number>>; // Last server revision pulled, per collection
+  pending: Partial<Record<SyncCollection, Record<string, PendingChange>>>; // Local edits not yet pushed, by record id
+}
+
+const SYNC_STATE_KEY = 'car-purchase-calculator-sync-state';
+const SYNC_TOKEN_KEY = 'car-purchase-calculator-sync-token'; // Kept on this device only, never synced
+const SYNC_DELAY = 2000; // Edits are batched for 2 seconds before pushing
+
+const SYNC_STATE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Version the sync state',
+    migrate: (state: SyncState) => {
+      if (state === null || typeof state !== 'object' || Array.isArray(state)) {
+        throw new Error('Expected a sync state object');
+      }
+      return state;
+    },
+  },
+];
+
+// Records that existed before syncing was set up have no edit time; they lose to any copy already on the server
+const NEVER_EDITED = new Date(0).toISOString();
+
+const sources = new Map<SyncCollection, SyncSource>();
+let statePromise: Promise<SyncState> | null = null;
+let syncTimer: ReturnType<typeof setTimeout> | null = null;
+let runningSync: Promise<void> | null = null;
+let followUpRequested = false; // A sync was requested while a pass was running
+
+function loadState(): Promise<SyncState> {
+  if (!statePromise) {
+    statePromise = readVersioned<SyncState>(SYNC_STATE_KEY, SYNC_STATE_MIGRATIONS).then(
+      (state) => state || { revisions: {}, pending: {} }
+    );
+  }
+  return statePromise;
+}
+
+async function saveState(state: SyncState): Promise<void> {
+  await writeVersioned(SYNC_STATE_KEY, state, SYNC_STATE_MIGRATIONS);
+}
+
+export function registerSyncSource(source: SyncSource): void {
+  if (typeof window === 'undefined') return;
+
+  if (sources.size === 0) {
+    // Pull changes from other devices when coming back online or returning to the tab
+    window.addEventListener('online', () => scheduleSync(0));
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') scheduleSync(0);
+    });
+  }
+  sources.set(source.collection, source);
+  scheduleSync(0);
+}
+
+// Records local edits (or deletions) so they're pushed on the next sync
+export async function recordChanges(collection: SyncCollection, ids: string[], deleted = false): Promise<void> {
+  if (typeof window === 'undefined' || ids.length === 0) return;
+
+  const state = await loadState();
+  const pending = (state.pending[collection] = state.pending[collection] || {});
+  const updatedAt = new Date().toISOString();
+  ids.forEach((id) => {
+    pending[id] = deleted ? { updatedAt, deleted: true } : { updatedAt };
+  });
+  await saveState(state);
+  scheduleSync(SYNC_DELAY);
+}
+
+// Shared token the server's sync API is configured with (CPC_SYNC_TOKEN); without one, nothing is synced
+export async function getSyncToken(): Promise<string> {
+  if (typeof window === 'undefined') return '';
+  const token = await (await getStorageAdapter()).getItem(SYNC_TOKEN_KEY);
+  return typeof token === 'string' ? token : '';
+}
+
+export async function setSyncToken(token: string): Promise<void> {
+  if (typeof window === 'undefined') return;
+  const adapter = await getStorageAdapter();
+  if (token.trim()) {
+    await adapter.setItem(SYNC_TOKEN_KEY, token.trim());
+    scheduleSync(0);
+  } else {
+    await adapter.removeItem(SYNC_TOKEN_KEY);
+  }
+}
+
+function scheduleSync(delay: number): void {
+  if (syncTimer) {
+    clearTimeout(syncTimer);
+  }
+  syncTimer = setTimeout(() => {
+    syncTimer = null;
+    syncNow();
+  }, delay);
+}
+
+// Runs a sync pass over every registered collection. A request made while a pass is running reuses it, and
+// once the pass settles another one runs if changes were recorded in the meantime.
+export function syncNow(): Promise<void> {
+  if (runningSync) {
+    followUpRequested = true;
+    return runningSync;
+  }
+  runningSync = (async () => {
+    do {
+      followUpRequested = false;
+      await runSync();
+    } while (followUpRequested && (await hasPendingChanges()));
+  })().finally(() => {
+    runningSync = null;
+  });
+  return runningSync;
+}
+
+async function hasPendingChanges(): Promise<boolean> {
+  const state = await loadState();
+  return Object.values(state.pending).some((pending) => pending && Object.keys(pending).length > 0);
+}
+
+async function runSync(): Promise<void> {
+  // Edits are still recorded as pending, so they're pushed once a token is set
+  const token = await getSyncToken();
+  if (!token) {
+    return;
+  }
+  const state = await loadState();
+  const changedCollections: SyncCollection[] = [];
+
+  for (const source of sources.values()) {
+    const { collection } = source;
+    const pending = (state.pending[collection] = state.pending[collection] || {});
+
+    // First sync on this device: everything stored locally still has to be pushed
+    if (state.revisions[collection] === undefined) {
+      (await source.getRecordIds()).forEach((id) => {
+        pending[id] = pending[id] || { updatedAt: NEVER_EDITED };
+      });
+    }
+
+    const pushed = { ...pending };
+    const changes: SyncRecord[] = [];
+    for (const [id, change] of Object.entries(pushed)) {
+      const data = change.deleted ? undefined : await source.getRecord(id);
+      changes.push(data === undefined ? { id, updatedAt: change.updatedAt, deleted: true } : { id, updatedAt: change.updatedAt, data });
+    }
+
+    // Pending changes are kept whenever a push fails, and pushed on the next attempt
+    let res: Response;
+    try {
+      res = await fetch(`/api/sync/${collection}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ since: state.revisions[collection] || 0, changes }),
+      });
+    } catch {
+      // Offline or no sync server, so the other collections won't get through either
+      break;
+    }
+    if (!res.ok) {
+      console.error(`Sync of ${collection} failed with status ${res.status}`);
+      // A rejected token or a server without sync configured fails every collection; anything else (e.g., a push
+      // that's too large) only this one
+      if (res.status === 401 || res.status === 503) {
+        break;
+      }
+      continue;
+    }
+    let response: SyncResponse;
+    try {
+      response = await res.json();
+    } catch (error) {
+      console.error(`Error reading the ${collection} sync response:`, error);
+      continue;
+    }
+
+    // Pushed changes are settled unless the record was edited again while the request was in flight
+    Object.entries(pushed).forEach(([id, change]) => {
+      if (pending[id]?.updatedAt === change.updatedAt) {
+        delete pending[id];
+      }
+    });
+    state.revisions[collection] = response.revision;
+
+    const remoteRecords = response.records.filter(
+      (record) => !pending[record.id] && pushed[record.id]?.updatedAt !== record.updatedAt
+    );
+    if (remoteRecords.length > 0) {
+      await source.applyRemoteRecords(remoteRecords);
+      changedCollections.push(collection);
+    }
+    await saveState(state);
+
+    const localData = new Map(changes.map((change) => [change.id, change.data]));
+    response.conflicts.forEach((conflict) => {
+      const data = localData.get(conflict.id) ?? response.records.find((r) => r.id === conflict.id)?.data;
+      reportSyncConflict({ ...conflict, label: data !== undefined ? source.describeRecord?.(data) : undefined });
+    });
+  }
+
+  if (changedCollections.length > 0) {
+    remoteChangeListeners.forEach((listener) => listener(changedCollections));
+  }
+}
+
+// Pages reload their data when records changed on another device are pulled in
+const remoteChangeListeners = new Set<(collections: SyncCollection[]) => void>();
+
+export function subscribeToRemoteChanges(listener: (collections: SyncCollection[]) => void): () => void {
+  remoteChangeListeners.add(listener);
+  return () => {
+    remoteChangeListeners.delete(listener);
+  };
+}
+
+// Conflicts are kept for the session so the UI can show them (same pattern as storage migration failures)
+let syncConflicts: SyncConflict[] = [];
+const conflictListeners = new Set<() => void>();
+
+function reportSyncConflict(conflict: SyncConflict): void {
+  syncConflicts = [...syncConflicts, conflict];
+  conflictListeners.forEach((listener) => listener());
+}
+
+export function getSyncConflicts(): SyncConflict[] {
+  return syncConflicts;
+}
+
+export function subscribeToSyncConflicts(listener: () => void): () => void {
+  conflictListeners.add(listener);
+  return () => {
+    conflictListeners.delete(listener);
+  };
+}
+
+export function dismissSyncConflicts(): void {
+  syncConflicts = [];
+  conflictListeners.forEach((listener) => listener());
+}
@@ -0,0 +1,126 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SyncCollection, SyncConflict, SyncRecord, SyncResponse } from './types';
+
+// Embedded file database used by the sync API routes (server only). Every collection lives in one JSON file that
+// is rewritten atomically; each stored record carries the revision it was written at so clients can pull changes.
+
+export const SYNC_COLLECTIONS: SyncCollection[] = ['cars', 'profile', 'makeAprRates', 'comparisons'];
+
+interface StoredRecord extends SyncRecord {
+  revision: number;
+}
+
+interface SyncDatabaseFile {
+  revision: number;
+  collections: Record<SyncCollection, Record<string, StoredRecord>>;
+}
+
+const DATA_DIR = process.env.CPC_DATA_DIR || path.join(process.cwd(), 'data');
+const DB_FILE = path.join(DATA_DIR, 'sync-db.json');
+
+// Record ids come from clients, so records are kept in prototype-less objects where an id like "__proto__" is
+// just another key
+function recordStore(records: Record<string, StoredRecord> = {}): Record<string, StoredRecord> {
+  return Object.assign(Object.create(null) as Record<string, StoredRecord>, records);
+}
+
+function emptyDatabase(): SyncDatabaseFile {
+  return {
+    revision: 0,
+    collections: { cars: recordStore(), profile: recordStore(), makeAprRates: recordStore(), comparisons: recordStore() },
+  };
+}
+
+async function readDatabase(): Promise<SyncDatabaseFile> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(DB_FILE, 'utf8')) as SyncDatabaseFile;
+    const collections = emptyDatabase().collections;
+    SYNC_COLLECTIONS.forEach((collection) => {
+      collections[collection] = recordStore(parsed.collections?.[collection]);
+    });
+    return { ...parsed, collections };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return emptyDatabase();
+    }
+    throw error;
+  }
+}
+
+// Write to a temp file and rename so a crash mid-write never leaves a truncated database
+async function writeDatabase(db: SyncDatabaseFile): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const tempFile = `${DB_FILE}.${process.pid}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(db));
+  await fs.rename(tempFile, DB_FILE);
+}
+
+// Requests are handled concurrently, so read-modify-write cycles are queued to run one at a time
+let queue: Promise<unknown> = Promise.resolve();
+
+function withDatabase<T>(operation: (db: SyncDatabaseFile) => Promise<T> | T): Promise<T> {
+  const run = queue.then(async () => operation(await readDatabase()));
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+function changesSince(db: SyncDatabaseFile, collection: SyncCollection, since: number): SyncRecord[] {
+  return Object.values(db.collections[collection])
+    .filter((record) => record.revision > since)
+    .map(({ id, updatedAt, deleted, data }) => ({ id, updatedAt, deleted, data }));
+}
+
+export function getChanges(collection: SyncCollection, since: number): Promise<SyncResponse> {
+  return withDatabase((db) => ({ revision: db.revision, records: changesSince(db, collection, since), conflicts: [] }));
+}
+
+// Last write wins per record. A change only conflicts when the server copy was also changed after the client's
+// last sync (`since`); then the edit with the later updatedAt is kept and the conflict is reported.
+export function applyChanges(collection: SyncCollection, since: number, changes: SyncRecord[]): Promise<SyncResponse> {
+  return withDatabase(async (db) => {
+    const records = db.collections[collection];
+    const conflicts: SyncConflict[] = [];
+    let written = false;
+
+    for (const change of changes) {
+      const existing = records[change.id];
+      // Identical copies (e.g., the same data pushed by a second device on its first sync) aren't conflicts
+      if (
+        existing &&
+        !!existing.deleted === !!change.deleted &&
+        JSON.stringify(existing.data) === JSON.stringify(change.deleted ? undefined : change.data)
+      ) {
+        continue;
+      }
+      if (existing && existing.revision > since) {
+        const localWins = new Date(change.updatedAt).getTime() > new Date(existing.updatedAt).getTime();
+        conflicts.push({
+          collection,
+          id: change.id,
+          winner: localWins ? 'local' : 'server',
+          localUpdatedAt: change.updatedAt,
+          serverUpdatedAt: existing.updatedAt,
+        });
+        if (!localWins) {
+          continue;
+        }
+      }
+
+      db.revision += 1;
+      records[change.id] = {
+        id: change.id,
+        updatedAt: change.updatedAt,
+        deleted: change.deleted || undefined,
+        data: change.deleted ? undefined : change.data,
+        revision: db.revision,
+      };
+      written = true;
+    }
+
+    if (written) {
+      await writeDatabase(db);
+    }
+    return { revision: db.revision, records: changesSince(db, collection, since), conflicts };
+  });
+}
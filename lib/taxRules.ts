@@ -0,0 +1,124 @@
+export interface StateTaxRule {
+  state: string; // Two-letter state code (e.g., "FL")
+  name: string; // State name for display
+  taxableFees: {
+    dealer: boolean; // Doc fees, dealer service fees, etc.
+    government: boolean; // Title, registration, license fees
+    other: boolean; // VIN etch, tire/battery fees, add-ons
+  };
+  tradeInCredit: boolean; // Trade-in value is deducted from the taxable amount
+  rebatesTaxable: boolean; // Manufacturer rebates are taxed (tax is on the pre-rebate price)
+  surtax?: {
+    stateRate: number; // Statewide rate as a percentage; anything above it is the local surtax
+    cap: number; // Local surtax only applies to this much of the taxable amount
+  };
+  adValorem?: boolean; // One-time title ad valorem tax on fair market value instead of sales tax
+  notes?: string;
+}
+
+// Used when the state is unknown or not listed: dealer + other fees taxable, government fees not
+export const DEFAULT_TAX_RULE: StateTaxRule = {
+  state: '',
+  name: 'Default',
+  taxableFees: { dealer: true, government: false, other: true },
+  tradeInCredit: false,
+  rebatesTaxable: false,
+  notes: 'Generic rules: dealer and other fees are taxable, government fees are not.',
+};
+
+export const STATE_TAX_RULES: Record<string, StateTaxRule> = {
+  FL: {
+    state: 'FL',
+    name: 'Florida',
+    taxableFees: { dealer: true, government: false, other: true },
+    tradeInCredit: true,
+    rebatesTaxable: true,
+    surtax: { stateRate: 6, cap: 5000 },
+    notes: '6% state tax on the full amount; the county discretionary surtax only applies to the first $5,000.',
+  },
+  GA: {
+    state: 'GA',
+    name: 'Georgia',
+    taxableFees: { dealer: false, government: false, other: false },
+    tradeInCredit: true,
+    rebatesTaxable: true,
+    adValorem: true,
+    notes: 'Title Ad Valorem Tax (TAVT) is charged once on fair market value instead of sales tax.',
+  },
+  CA: {
+    state: 'CA',
+    name: 'California',
+    taxableFees: { dealer: true, government: false, other: true },
+    tradeInCredit: false,
+    rebatesTaxable: true,
+    notes: 'No trade-in credit; manufacturer rebates are taxed.',
+  },
+  TX: {
+    state: 'TX',
+    name: 'Texas',
+    taxableFees: { dealer: true, government: false, other: true },
+    tradeInCredit: true,
+    rebatesTaxable: true,
+    notes: '6.25% motor vehicle sales tax on the price after trade-in.',
+  },
+  NY: {
+    state: 'NY',
+    name: 'New York',
+    taxableFees: { dealer: true, government: false, other: true },
+    tradeInCredit: true,
+    rebatesTaxable: true,
+  },
+  IL: {
+    state: 'IL',
+    name: 'Illinois',
+    taxableFees: { dealer: true, government: false, other: true },
+    tradeInCredit: true,
+    rebatesTaxable: true,
+  },
+  VA: {
+    state: 'VA',
+    name: 'Virginia',
+    taxableFees: { dealer: true, government: false, other: true },
+    tradeInCredit: false,
+    rebatesTaxable: false,
+    notes: 'Motor vehicle sales and use tax with no trade-in credit.',
+  },
+};
+
+export function getTaxRule(state?: string): StateTaxRule {
+  const key = (state || '').trim().toUpperCase();
+  return STATE_TAX_RULES[key] || DEFAULT_TAX_RULE;
+}
+
+// Applies the tax rate to a taxable amount, honoring local surtax caps
+export function applyTaxRate(taxableAmount: number, taxRate: number, rule: StateTaxRule): number {
+  if (rule.surtax && taxRate > rule.surtax.stateRate) {
+    const surtaxRate = taxRate - rule.surtax.stateRate;
+    return (
+      (taxableAmount * rule.surtax.stateRate) / 100 +
+      (Math.min(taxableAmount, rule.surtax.cap) * surtaxRate) / 100
+    );
+  }
+  return (taxableAmount * taxRate) / 100;
+}
+
+// Human-readable description of what the tax is charged on (deductions like "Trade-In Value" are appended)
+export function describeTaxableAmount(rule: StateTaxRule, deductions: string[] = []): string {
+  const deducted = deductions.map((deduction) => ` - ${deduction}`).join('');
+  if (rule.adValorem) {
+    return `Fair Market Value (Listed Price)${deducted}; fees are not taxed`;
+  }
+  const taxed = ['Negotiated Price'];
+  const untaxed: string[] = [];
+  (
+    [
+      ['Dealer Fees', rule.taxableFees.dealer],
+      ['Government Fees', rule.taxableFees.government],
+      ['Other Fees', rule.taxableFees.other],
+    ] as const
+  ).forEach(([label, taxable]) => (taxable ? taxed : untaxed).push(label));
+  const description = taxed.join(' + ') + deducted;
+  return untaxed.length > 0
+    ? `${description}; ${untaxed.join(' and ')} are not taxable`
+    : description;
+}
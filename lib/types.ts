@@ -1,3 +1,74 @@
+export type DealType = 'purchase' | 'lease' | 'buyout' | 'cash';
+
+export type FuelType = 'gas' | 'electric';
+
+// 'monthly' charges APR / 12 each month; 'dailySimple' accrues APR / 365 per day between actual payment dates
+export type InterestMethod = 'monthly' | 'dailySimple';
+
+// Cost components that can be paid in cash at signing instead of rolled into the loan
+export type UpfrontCostComponent = 'tax' | 'dealerFees' | 'governmentFees' | 'otherFees';
+
+// Ownership cost assumptions; profile holds the defaults, each car can override any of them
+export interface TcoInputs {
+  ownershipYears: number; // How long you plan to keep the car
+  annualMiles: number; // Miles driven per year
+  insurancePerYear: number;
+  fuelType: FuelType;
+  fuelEfficiency: number; // MPG for gas, miles per kWh for electric
+  energyPrice: number; // $ per gallon for gas, $ per kWh for electric
+  maintenancePerYear: number; // Oil changes, tires, brakes, etc.
+  repairsPerYear: number; // Expected repairs per year once the warranty runs out
+  registrationPerYear: number; // Annual registration/tag renewal
+}
+
+export type FeeCategory = 'dealer' | 'government' | 'other';
+
+// 'required' fees are charged, 'optional' ones are charged but can be declined, 'refused' ones were declined and aren't charged
+export type FeeStatus = 'required' | 'optional' | 'refused';
+
+export interface FeeItem {
+  name: string; // e.g., "Documentation Fee", "Title Transfer", "VIN Etch"
+  amount: number;
+  category: FeeCategory; // dealer: doc/service/pre-delivery fees; government: DMV, title, registration; other: add-ons and misc
+  taxable?: boolean; // Overrides the state's rule for the category (undefined = follow the state rule)
+  negotiable: boolean; // Dealer can lower or waive it (doc fees, add-ons) rather than a fixed pass-through charge
+  status: FeeStatus;
+}
+
+export type AddOnType = 'gap' | 'serviceContract' | 'tireWheel' | 'paintProtection' | 'other';
+
+// Dealer-sold products added to the deal (priced separately from the car)
+export interface AddOn {
+  name: string; // e.g., "GAP Waiver", "Platinum Service Contract"
+  type: AddOnType;
+  price: number;
+  termMonths?: number; // Coverage term in months
+  coverageMiles?: number; // Coverage limit in miles (service contracts, tire & wheel)
+  taxable: boolean; // State charges sales tax on the add-on
+  financed: boolean; // Rolled into the loan (leases: capitalized) rather than paid at signing
+  cancellable: boolean; // Can be cancelled later for a prorated refund
+}
+
+// What one add-on adds to the deal compared to the same deal without it
+export interface AddOnImpact {
+  name: string;
+  price: number;
+  addedTax: number;
+  addedMonthlyPayment: number;
+  addedInterest: number;
+  addedTotalCost: number;
+}
+
+export type IncentiveType = 'rebate' | 'dealerCash' | 'loyalty' | 'conquest' | 'collegeGrad' | 'military' | 'other';
+
+export interface Incentive {
+  name: string; // e.g., "Customer Cash", "Ford Loyalty Bonus"
+  type: IncentiveType;
+  amount: number;
+  taxable?: boolean; // State still charges tax on the incentive, i.e. tax is on the pre-incentive price (undefined = follow the state's rebate rule)
+  appliedBeforeTax: boolean; // Deducted from the price before tax (true) or from the amount due after tax like cash down (false)
+}
+
 export interface Car {
   id: string;
   make: string;
@@ -9,19 +80,64 @@ export interface Car {
   negotiatedPrice: number; // What you're actually paying (buy price)
   apr: number; // Annual Percentage Rate as a decimal (e.g., 0.05 for 5%) - This is the "sell rate" (what dealer charges you)
   buyRateApr: number; // Buy rate APR (what lender actually offers dealer) - used to calculate dealer financing markup
-  termLength: number; // Loan term in months
+  quotedPayment?: number; // Monthly payment the dealer quoted (checked against the payment for the stated APR)
+  termLength: number; // Loan term in months (cash deals: term of the financing alternative to compare against)
   notes: string;
   taxRate: number; // Tax rate as a percentage (e.g., 7.5 for 7.5%)
   flatTaxFee: number; // Flat tax fee (e.g., $100 in Florida)
-  tax: number; // Calculated tax amount (negotiatedPrice * taxRate / 100 + flatTaxFee)
+  taxState?: string; // Two-letter state whose tax rules apply (defaults to the profile state)
+  tax: number; // Calculated tax amount (taxable amount per the state's tax rules * taxRate / 100 + flatTaxFee)
   creditScore: number; // FICO Auto Score 8
   mileage: number;
   year: number;
   seats?: number; // Number of seats
   downPayment: number;
-  dealerFees: number; // Dealer Service Fee, Pre-Delivery Service Charge, Documentation Fee, Electronic Filing Fee, etc.
-  governmentFees: number; // DMV Fees, License Fees, Registration Fees, Title Transfer Fees, etc.
-  otherFees: number; // VIN Etch, Battery Fee, Tire Fee, Agency Fee, and any other miscellaneous fees
+  fees: FeeItem[]; // Itemized dealer, government and other fees
+  // Lump-sum fees from before fees were itemized; converted to one line item per category when loaded
+  dealerFees?: number;
+  governmentFees?: number;
+  otherFees?: number;
+  tradeInValue?: number; // Value the dealer gives for your trade-in vehicle
+  tradeInPayoff?: number; // Remaining loan payoff owed on the trade-in vehicle
+  tradeInTaxCredit?: boolean; // Whether the taxable amount is reduced by the trade-in value (defaults to the state rule)
+  tco?: Partial<TcoInputs>; // Per-car ownership cost overrides (missing values use the profile defaults)
+  incentives?: Incentive[]; // Manufacturer rebates, dealer cash, loyalty/conquest bonuses, etc. (kept out of negotiatedPrice)
+  paidUpfront?: Partial<Record<UpfrontCostComponent, boolean>>; // Components paid at signing instead of financed (all financed by default)
+  addOns?: AddOn[]; // GAP, service contracts, tire & wheel, paint protection, etc.
+  dealType?: DealType; // 'purchase' (default), 'lease', 'buyout' (buying out your own lease), or 'cash' (no loan)
+  // Lease fields (only used when dealType is 'lease'; downPayment is the cash cap cost reduction, termLength is the lease term)
+  moneyFactor?: number; // Lease money factor as a decimal (e.g., 0.00125 ≈ 3% APR)
+  residualPercent?: number; // Residual as a percentage of listed price/MSRP (e.g., 58 for 58%)
+  residualValue?: number; // Residual value in dollars (overrides residualPercent when set)
+  acquisitionFee?: number; // Bank/lessor acquisition fee (capitalized)
+  dispositionFee?: number; // Fee due at lease end when turning the car in
+  annualMileageAllowance?: number; // Miles per year allowed by the lease (e.g., 10000)
+  excessMileageCharge?: number; // Charge per mile over the allowance (e.g., 0.25)
+  // Lease buyout fields (only used when dealType is 'buyout'; listedPrice is the market value, residualValue and dispositionFee come from the lease)
+  remainingLeasePayments?: number; // Number of lease payments still owed
+  leaseMonthlyPayment?: number; // Current lease payment (including tax)
+  purchaseOptionFee?: number; // Lessor's purchase option fee charged on buyout
+  thirdPartyOffer?: number; // Offer from a third-party dealer to buy the car from you
+  turnInCharges?: number; // Estimated excess mileage / wear-and-tear charges if turned in
+  // Prepayment fields (extra principal paid on top of the scheduled loan payment)
+  extraMonthlyPayment?: number; // Extra principal paid every month
+  lumpSumPayments?: LumpSumPayment[]; // One-off extra principal payments (e.g., tax refund, bonus)
+  roundUpPaymentTo?: number; // Round the monthly payment up to the nearest multiple (e.g., 50 turns $487.20 into $500)
+  // Refinance scenario (what-if on the existing loan; the original loan terms are left untouched)
+  refinanceMonth?: number; // Refinance after this many payments on the original loan
+  refinanceApr?: number; // New APR as a decimal (e.g., 0.045 for 4.5%)
+  refinanceTerm?: number; // New loan term in months
+  refinanceFees?: number; // Lender/title fees charged to refinance
+  refinanceFeesFinanced?: boolean; // Whether the refinance fees are rolled into the new loan instead of paid in cash
+  gapPrice?: number; // Price quoted for GAP coverage (pays the loan balance above the insurance payout if the car is totaled)
+  // Loan structure (purchases and buyouts)
+  balloonPayment?: number; // Lump sum due with the final payment; the monthly payments only amortize the rest
+  firstPaymentDeferralDays?: number; // Days from signing to the first payment on deferred-payment promotions (e.g., 90 for "no payments for 90 days")
+  // Payment dates (dates are YYYY-MM-DD; without them payments start the first of next month)
+  interestMethod?: InterestMethod; // How interest accrues (defaults to 'monthly')
+  contractDate?: string; // Date the contract is signed; daily interest accrues from here
+  firstPaymentDate?: string; // First payment due date; later payments are due on the same day each month
+  paymentTimings?: PaymentTiming[]; // Payments made before/after their due date (daily simple interest)
   warrantyType?: string; // e.g., "Manufacturer", "Extended", "CPO", "None"
   warrantyRemainingMonths?: number; // Remaining warranty coverage in months
   warrantyRemainingMiles?: number; // Remaining warranty coverage in miles
@@ -39,6 +155,219 @@ export interface PaymentScheduleEntry {
   cumulativePrincipal: number;
   cumulativeInterest: number;
   remainingBalance: number;
+  extraPrincipal?: number; // Principal paid beyond the scheduled payment (prepayment schedules only)
+  dueDate?: Date; // Payment due date (loan schedules)
+  paidDate?: Date; // Date the payment was actually made (daily simple interest only)
+  daysOfInterest?: number; // Days of interest accrued since the previous payment (daily simple interest only)
+}
+
+export interface PaymentTiming {
+  month: number; // Payment number (1 = first payment)
+  daysLate: number; // Days after the due date the payment is made (negative = paid early)
+}
+
+// Projected resale value lined up with the payment schedule (month 0 = today)
+export interface ValueProjectionEntry {
+  month: number;
+  projectedValue: number; // Estimated market value from the make/model depreciation curve and expected mileage
+  remainingBalance: number; // Loan (or lease payoff) balance after this month's payment
+  equity: number; // projectedValue - remainingBalance (negative means upside down)
+}
+
+// 'notNeeded' = never upside down, 'consider' = upside down but no GAP price entered,
+// 'buy' = peak exposure exceeds the GAP price, 'skip' = GAP costs more than the peak exposure
+export type GapRecommendation = 'notNeeded' | 'consider' | 'buy' | 'skip';
+
+export interface NegativeEquityCalculations {
+  upsideDownMonths: number[]; // Months where the remaining balance exceeds the projected value
+  peakNegativeEquity: number; // Largest amount owed above the car's value (0 if never upside down)
+  peakMonth: number | null; // Month the peak occurs
+  crossoverMonth: number | null; // First month of positive equity after being upside down (null if never upside down or still upside down at the end)
+  gapPrice: number; // GAP price entered on the car (0 if none)
+  gapRecommendation: GapRecommendation;
+}
+
+export interface LumpSumPayment {
+  month: number; // Payment number the lump sum is paid with (1 = first payment)
+  amount: number;
+}
+
+export interface PrepaymentCalculations {
+  monthlyPayment: number; // Scheduled payment + round-up + recurring extra principal
+  paymentSchedule: PaymentScheduleEntry[]; // Schedule with extra payments applied (ends at early payoff)
+  payoffMonth: number; // Number of payments until the loan is paid off
+  payoffDate: Date; // Early payoff date
+  monthsSaved: number; // Payments eliminated compared to the standard schedule
+  totalInterest: number; // Total interest paid with extra payments
+  interestSaved: number; // Interest saved compared to the standard schedule
+  totalExtraPrincipal: number; // Sum of all extra principal paid
+}
+
+export interface LeaseCalculations {
+  grossCapCost: number; // Negotiated price + acquisition fee + capitalized fees
+  capCostReduction: number; // Cash down + positive trade-in equity
+  adjustedCapCost: number; // Gross cap cost - cap cost reduction (+ negative trade-in equity)
+  residualValue: number; // Value of the car at lease end
+  residualPercent: number; // Residual as a percentage of listed price
+  depreciationCharge: number; // Monthly depreciation charge ((adjusted cap cost - residual) / term)
+  rentCharge: number; // Monthly rent charge ((adjusted cap cost + residual) * money factor)
+  baseMonthlyPayment: number; // Depreciation charge + rent charge
+  monthlyTax: number; // Sales tax on each monthly payment
+  monthlyPaymentWithTax: number; // Base monthly payment + monthly tax
+  taxOnCapCostReduction: number; // Sales tax on the cash cap cost reduction (+ flat tax fee), due at signing
+  dueAtSigning: number; // Cash cap cost reduction + its tax + first month's payment
+  totalDepreciation: number; // Depreciation charge over the full term
+  totalRentCharge: number; // Rent charge over the full term (the lease's "interest")
+  totalTax: number; // All sales tax paid over the lease
+  totalLeaseCost: number; // Everything paid over the lease, including the disposition fee
+  equivalentApr: number; // Money factor * 24 (as a decimal)
+  totalMileageAllowance: number; // Annual mileage allowance * years
+  paymentSchedule: PaymentScheduleEntry[]; // Depreciation as principal, rent charge as interest
+}
+
+export type LeaseEndOption = 'buyOut' | 'turnIn' | 'sellToDealer';
+
+export interface LeaseBuyoutCalculations {
+  residualValue: number; // Residual value from the lease contract
+  remainingPaymentsTotal: number; // Remaining lease payments * lease monthly payment
+  purchaseOptionFee: number; // Lessor's purchase option fee
+  buyoutPrice: number; // Residual + remaining payments + purchase option fee
+  buyoutTax: number; // Sales tax due on the buyout (residual + purchase option fee + taxable fees)
+  totalBuyoutCost: number; // Buyout price + buyout tax + fees
+  marketValue: number; // What the car is worth today (listedPrice)
+  equity: number; // Market value - buyout price (negative means the lease is underwater)
+  buyOutNet: number; // Market value - total buyout cost (keep a car worth market value)
+  turnInNet: number; // -(remaining payments + disposition fee + turn-in charges)
+  sellToDealerNet: number; // Third-party offer (or market value) - buyout price
+  recommendation: LeaseEndOption; // Option with the highest net
+}
+
+export interface RefinanceCalculations {
+  refinanceMonth: number; // Payments made on the original loan before refinancing
+  remainingBalance: number; // Original loan balance at the refinance month
+  remainingPayments: number; // Payments left on the original loan at the refinance month
+  fees: number; // Refinance fees
+  feesFinanced: boolean; // Whether the fees were rolled into the new loan
+  newPrincipal: number; // Remaining balance (+ fees if financed)
+  newApr: number;
+  newTerm: number;
+  oldMonthlyPayment: number;
+  newMonthlyPayment: number;
+  monthlySavings: number; // Old payment - new payment (negative if the payment goes up)
+  remainingInterestBefore: number; // Interest still owed on the original loan after the refinance month
+  newTotalInterest: number; // Total interest on the new loan
+  interestDelta: number; // New interest + fees - remaining original interest (negative = savings)
+  netSavings: number; // Remaining original payments - (new payments + cash fees)
+  breakEvenMonth: number | null; // Original-loan month when payment savings cover the cash fees (null if never)
+  paymentSchedule: PaymentScheduleEntry[]; // New loan schedule, months numbered from the original loan start
+}
+
+export interface TcoYearEntry {
+  year: number;
+  depreciation: number;
+  financing: number; // Interest paid during the year
+  taxesAndFees: number; // Sales tax and fees (paid in the first year)
+  leasePayments: number; // Due at signing, payments and disposition fee (leases only)
+  insurance: number;
+  fuel: number;
+  maintenance: number;
+  repairs: number;
+  registration: number;
+  total: number;
+}
+
+export interface TcoCalculations {
+  inputs: TcoInputs; // Assumptions used (profile defaults merged with car overrides)
+  totalMiles: number;
+  warrantyMonths: number; // Months of remaining warranty coverage (by time or miles, whichever runs out first)
+  depreciation: number;
+  financing: number;
+  taxesAndFees: number;
+  leasePayments: number;
+  insurance: number;
+  fuel: number;
+  maintenance: number;
+  repairs: number;
+  registration: number;
+  total: number; // Total cost of ownership over the horizon
+  perMonth: number;
+  perMile: number;
+  projectedValue: number; // Estimated value at the end of the horizon (0 for leases)
+  yearly: TcoYearEntry[];
+}
+
+export interface QuotedPaymentCalculations {
+  quotedPayment: number;
+  computedPayment: number; // Payment for the amount financed at the stated APR and term
+  difference: number; // quotedPayment - computedPayment (positive = quote is higher)
+  impliedApr: number | null; // APR that produces the quoted payment on the amount financed (null if no APR does)
+  hiddenAmount: number; // Extra amount financed the quote implies at the stated APR (e.g., packed-in add-ons)
+  paymentPacking: boolean; // Quote is meaningfully higher than the payment for the stated APR
+}
+
+// Paying cash vs financing and investing the cash that isn't spent, in present-value terms
+export interface CashVsFinanceCalculations {
+  cashPrice: number; // Paid up front when buying with cash (price + fees + tax - trade-in equity - incentives)
+  downPayment: number; // Paid up front when financing (down payment + upfront tax/fees)
+  financedAmount: number;
+  apr: number; // APR of the financing alternative (decimal)
+  termLength: number;
+  monthlyPayment: number;
+  totalFinancePayments: number; // Down payment + every loan payment (undiscounted)
+  investmentReturn: number; // Expected annual return on the cash kept (decimal)
+  financePresentValue: number; // Down payment + loan payments discounted at the investment return
+  presentValueSavings: number; // cashPrice - financePresentValue (positive = financing is cheaper)
+  cheaperOption: 'cash' | 'finance';
+  breakEvenReturn: number | null; // Annual return where both cost the same (null if above 100%)
+}
+
+// One point of the down payment sweep; netCost = totalInterest + forgoneGrowth
+export interface DownPaymentSweepEntry {
+  downPayment: number;
+  monthlyPayment: number;
+  totalInterest: number;
+  forgoneGrowth: number; // Growth the down payment would have earned over the term, less growth on the lower payments invested instead
+  netCost: number;
+}
+
+export interface DownPaymentOptimization {
+  alternativeReturn: number; // Annual return the cash could earn elsewhere (decimal)
+  apr: number;
+  termLength: number;
+  entries: DownPaymentSweepEntry[]; // Sorted by down payment, from 0 to the full cash price
+  optimal: DownPaymentSweepEntry; // Lowest net cost
+  current: DownPaymentSweepEntry; // The car's own down payment
+}
+
+// One APR × term combination in the sensitivity grid
+export interface SensitivityCell {
+  apr: number; // Decimal
+  termLength: number;
+  monthlyPayment: number;
+  totalInterest: number;
+  totalCost: number;
+}
+
+// Reverse affordability: what the buyer can spend for a given monthly budget
+export interface AffordabilityInputs {
+  targetMonthlyPayment: number;
+  apr: number; // APR as decimal (e.g., 0.045 for 4.5%)
+  termLength: number; // Loan term in months
+  downPayment: number;
+  taxRate: number; // Tax rate as a percentage
+  flatTaxFee: number;
+  taxState?: string; // State whose tax rules apply
+  dealerFees: number;
+  governmentFees: number;
+  otherFees: number;
+}
+
+export interface AffordabilityCalculations {
+  maxFinancedAmount: number; // Loan amount the target payment supports
+  maxNegotiatedPrice: number; // Highest price that keeps the payment at or under the target
+  tax: number; // Tax at the max price
+  totalFees: number;
+  outTheDoorPrice: number; // Max price + fees + tax
 }
 
 export interface CarCalculations {
@@ -60,6 +389,68 @@ export interface CarCalculations {
   totalGovernmentFees: number; // Sum of government fees
   totalOtherFees: number; // Sum of other fees
   totalAllFees: number; // Sum of all fees (dealer + government + other)
+  refusedFees: number; // Fees the buyer declined (not charged)
+  totalAddOns: number; // Sum of all add-on prices (financed and paid at signing)
+  financedAddOns: number; // Add-on prices rolled into the loan (leases: capitalized)
+  balloonPayment: number; // Lump sum due with the final payment (0 for fully amortizing loans)
+  deferralInterest: number; // Interest accrued while the first payment is deferred past the usual month
+  tradeInValue: number; // Trade-in value offered by the dealer
+  tradeInPayoff: number; // Payoff owed on the trade-in
+  tradeInEquity: number; // Trade-in value - payoff (negative when upside down)
+  negativeEquity: number; // Amount owed on the trade-in beyond its value, rolled into the new loan
+  tradeInTaxSavings: number; // Tax saved through the trade-in tax credit
+  totalIncentives: number; // Sum of all rebates/incentives (reported separately from the dealer discount)
+  nonTaxableIncentives: number; // Incentives that reduce the taxable amount (non-taxable and applied before tax)
+  incentiveTaxSavings: number; // Tax saved because of non-taxable incentives
+  upfrontCosts: number; // Tax and fees paid at signing instead of financed
+  cashDueAtSigning: number; // Down payment + upfront costs (leases: due at signing; cash deals: the full price)
+  lease?: LeaseCalculations; // Lease breakdown (only when dealType is 'lease')
+  leaseBuyout?: LeaseBuyoutCalculations; // Lease-end comparison (only when dealType is 'buyout')
+  prepayment?: PrepaymentCalculations; // Early payoff schedule (only when extra payments are set on a loan)
+  refinance?: RefinanceCalculations; // Refinance what-if (only when a refinance scenario is set on a loan)
+  quotedPayment?: QuotedPaymentCalculations; // Dealer-quoted payment check (only when a quote is entered on a loan)
   averageAnnualInterest: number; // Average interest paid per year (Total Interest / Term Length * 12)
 }
 
+
+// A comparison the user saved by name: which cars were selected and the preview overrides in effect
+export interface SavedComparison {
+  id: string;
+  name: string;
+  carIds: string[];
+  downPaymentOverride: string; // Override inputs as typed ('' = no override)
+  termOverride: string;
+  aprOverride: string;
+  savedAt: string; // ISO timestamp
+}
+
+export type SyncCollection = 'cars' | 'profile' | 'makeAprRates' | 'comparisons';
+
+// One record as exchanged with the sync API; deleted records are sent as tombstones without data
+export interface SyncRecord<T = unknown> {
+  id: string;
+  updatedAt: string; // ISO timestamp of the last local edit, used for last-write-wins
+  deleted?: boolean;
+  data?: T;
+}
+
+// Both sides changed the same record since the client last synced; the newer edit was kept
+export interface SyncConflict {
+  collection: SyncCollection;
+  id: string;
+  winner: 'local' | 'server';
+  localUpdatedAt: string;
+  serverUpdatedAt: string;
+  label?: string; // Human-readable name of the record (e.g., "2022 Honda Civic"), added by the client
+}
+
+export interface SyncRequest {
+  since: number; // Last server revision this client has seen (0 = never synced)
+  changes: SyncRecord[];
+}
+
+export interface SyncResponse {
+  revision: number; // Server revision after applying the changes
+  records: SyncRecord[]; // Records changed on the server since `since`, including the ones just pushed
+  conflicts: SyncConflict[];
+}
@@ -0,0 +1,638 @@
+import {
+  AddOn,
+  AddOnType,
+  Car,
+  DealType,
+  FeeCategory,
+  FeeItem,
+  FeeStatus,
+  FuelType,
+  Incentive,
+  IncentiveType,
+  InterestMethod,
+  LumpSumPayment,
+  PaymentTiming,
+} from './types';
+import type { MakeAprRate } from './makeAprStorage';
+import type { UserProfile } from './profileStorage';
+
+// Runtime checks for records that come from outside the type system: imported files and saved data written by
+// older versions. Every problem is reported per field; values that are clearly in the wrong unit (an APR of 4.5
+// instead of 0.045, a 5-year term instead of 60 months) are rescaled, and text like "$25,000" is read as a number.
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  field: string; // Path within the record (e.g., "apr", "fees[2].amount")
+  severity: ValidationSeverity; // Errors mean a value had to be dropped or defaulted; warnings are corrections or unusual values
+  message: string;
+  unitCorrection?: boolean; // The value was rescaled to the expected unit
+}
+
+export interface ValidationResult<T> {
+  value: T; // The record with corrections applied and invalid fields dropped or defaulted
+  issues: ValidationIssue[];
+}
+
+export interface ValidationOptions {
+  correctUnits?: boolean; // Rescale values that look like they were entered in the wrong unit (default true)
+}
+
+export const hasValidationErrors = (issues: ValidationIssue[]) => issues.some((issue) => issue.severity === 'error');
+
+// Readable one-line form of an issue, e.g., "apr: 4.5 looks like a percentage; read as 4.5% (0.045)"
+export const formatIssue = (issue: ValidationIssue) => `${issue.field}: ${issue.message}`;
+
+const DEAL_TYPES: DealType[] = ['purchase', 'lease', 'buyout', 'cash'];
+const INTEREST_METHODS: InterestMethod[] = ['monthly', 'dailySimple'];
+const FEE_CATEGORIES: FeeCategory[] = ['dealer', 'government', 'other'];
+const FEE_STATUSES: FeeStatus[] = ['required', 'optional', 'refused'];
+const ADD_ON_TYPES: AddOnType[] = ['gap', 'serviceContract', 'tireWheel', 'paintProtection', 'other'];
+const INCENTIVE_TYPES: IncentiveType[] = ['rebate', 'dealerCash', 'loyalty', 'conquest', 'collegeGrad', 'military', 'other'];
+const FUEL_TYPES: FuelType[] = ['gas', 'electric'];
+
+// Terms this short were almost certainly entered in years
+const MAX_TERM_IN_YEARS = 10;
+
+// Decimal rates above this (40%) were most likely a percentage typed as a decimal (0.9 for 0.9%)
+const MAX_PLAUSIBLE_DECIMAL_RATE = 0.4;
+
+// One record (or nested item) being checked: fields are read from `input` and written, corrected, to `output`
+interface Checker {
+  input: Record<string, unknown>;
+  output: Record<string, unknown>;
+  issues: ValidationIssue[];
+  correctUnits: boolean;
+  path: string; // Prefix for nested items (e.g., "fees[2]")
+}
+
+interface FieldRules {
+  required?: boolean; // Missing is an error (otherwise missing fields get the default, or stay unset if optional)
+  optional?: boolean; // The field may be left unset
+}
+
+interface NumberRules extends FieldRules {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === '';
+
+const fieldPath = (checker: Checker, field: string) => (checker.path ? `${checker.path}.${field}` : field);
+
+function report(checker: Checker, field: string, severity: ValidationSeverity, message: string, unitCorrection = false) {
+  checker.issues.push({
+    field: fieldPath(checker, field),
+    severity,
+    message,
+    ...(unitCorrection ? { unitCorrection } : {}),
+  });
+}
+
+function createChecker(input: Record<string, unknown>, options: ValidationOptions, path = ''): Checker {
+  return { input, output: { ...input }, issues: [], correctUnits: options.correctUnits !== false, path };
+}
+
+// Anything other than an object can't be checked field by field
+function notARecord<T>(input: unknown, recordName: string): ValidationResult<T> {
+  return {
+    value: {} as T,
+    issues: [{ field: recordName, severity: 'error', message: `${JSON.stringify(input)} isn't a ${recordName}` }],
+  };
+}
+
+// Handles a missing field: errors if required, otherwise falls back to the default or leaves it unset
+function handleMissing<T>(checker: Checker, field: string, rules: FieldRules, defaultValue: T): T | undefined {
+  if (rules.required) {
+    report(checker, field, 'error', 'is missing');
+  }
+  if (rules.optional && !rules.required) {
+    delete checker.output[field];
+    return undefined;
+  }
+  checker.output[field] = defaultValue;
+  return defaultValue;
+}
+
+function checkNumber(checker: Checker, field: string, rules: NumberRules = {}): number | undefined {
+  const raw = checker.input[field];
+  if (isMissing(raw)) {
+    return handleMissing(checker, field, rules, 0);
+  }
+
+  let value: number;
+  if (typeof raw === 'number') {
+    value = raw;
+  } else if (typeof raw === 'string' && /^-?\d*\.?\d+$/.test(raw.replace(/[$,%\s]/g, ''))) {
+    value = Number(raw.replace(/[$,%\s]/g, ''));
+    report(checker, field, 'warning', `was text ("${raw}"); read as ${value}`);
+  } else {
+    report(checker, field, 'error', `${JSON.stringify(raw)} isn't a number`);
+    return handleMissing(checker, field, { optional: rules.optional }, 0);
+  }
+
+  if (!Number.isFinite(value)) {
+    report(checker, field, 'error', `${value} isn't a valid number`);
+    return handleMissing(checker, field, { optional: rules.optional }, 0);
+  }
+  if (rules.min !== undefined && value < rules.min) {
+    report(checker, field, 'error', `${value} is below the minimum of ${rules.min}; set to ${rules.min}`);
+    value = rules.min;
+  }
+  if (rules.max !== undefined && value > rules.max) {
+    report(checker, field, 'error', `${value} is above the maximum of ${rules.max}; set to ${rules.max}`);
+    value = rules.max;
+  }
+  if (rules.integer && !Number.isInteger(value)) {
+    report(checker, field, 'warning', `${value} should be a whole number; rounded to ${Math.round(value)}`);
+    value = Math.round(value);
+  }
+
+  checker.output[field] = value;
+  return value;
+}
+
+// Non-negative dollar amounts, counts, etc.
+const checkAmount = (checker: Checker, field: string, rules: NumberRules = {}) =>
+  checkNumber(checker, field, { min: 0, ...rules });
+
+// Rates stored as decimals (APR 0.045 = 4.5%). Anything from 1 to 100 was entered as a percentage.
+function checkDecimalRate(checker: Checker, field: string, rules: FieldRules = {}): number | undefined {
+  const value = checkNumber(checker, field, { min: 0, ...rules });
+  if (value === undefined) {
+    return value;
+  }
+  if (value < 1) {
+    if (value > MAX_PLAUSIBLE_DECIMAL_RATE) {
+      report(
+        checker,
+        field,
+        'warning',
+        `${value} is a rate of ${Number((value * 100).toFixed(4))}%; if you meant ${value}%, enter ${Number((value / 100).toFixed(6))}`
+      );
+    }
+    return value;
+  }
+  if (value > 100) {
+    report(checker, field, 'error', `${value} isn't a valid rate; set to 0`);
+    checker.output[field] = 0;
+    return 0;
+  }
+  if (!checker.correctUnits) {
+    report(checker, field, 'warning', `${value} is a rate of ${Number((value * 100).toFixed(4))}%`);
+    return value;
+  }
+  const corrected = Number((value / 100).toFixed(6));
+  report(checker, field, 'warning', `${value} looks like a percentage; read as ${value}% (${corrected})`, true);
+  checker.output[field] = corrected;
+  return corrected;
+}
+
+// Rates stored as percentages (tax rate 7.5 = 7.5%). A value below 1 was entered as a decimal.
+function checkPercentage(checker: Checker, field: string, rules: FieldRules = {}): number | undefined {
+  const value = checkNumber(checker, field, { min: 0, max: 100, ...rules });
+  if (value === undefined || value === 0 || value >= 1) {
+    return value;
+  }
+  if (!checker.correctUnits) {
+    report(checker, field, 'warning', `${value} is only ${value}%`);
+    return value;
+  }
+  const corrected = Number((value * 100).toFixed(4));
+  report(checker, field, 'warning', `${value} looks like a decimal; read as ${corrected}%`, true);
+  checker.output[field] = corrected;
+  return corrected;
+}
+
+// Loan and lease terms in months
+function checkTerm(checker: Checker, field: string, rules: FieldRules = {}): number | undefined {
+  const value = checkNumber(checker, field, { min: 0, integer: true, ...rules });
+  if (value === undefined) {
+    return value;
+  }
+  if (value === 0 && rules.required && !isMissing(checker.input[field])) {
+    report(checker, field, 'error', 'must be at least 1 month');
+    return value;
+  }
+  if (value === 0 || value > MAX_TERM_IN_YEARS) {
+    if (value > 120) {
+      report(checker, field, 'warning', `${value} months is unusually long`);
+    }
+    return value;
+  }
+  if (!checker.correctUnits) {
+    report(checker, field, 'warning', `${value} months is unusually short`);
+    return value;
+  }
+  report(checker, field, 'warning', `${value} looks like years; read as ${value * 12} months`, true);
+  checker.output[field] = value * 12;
+  return value * 12;
+}
+
+function checkString(checker: Checker, field: string, rules: FieldRules = {}): string | undefined {
+  const raw = checker.input[field];
+  if (typeof raw === 'string' && (raw.trim() !== '' || !rules.required)) {
+    return raw;
+  }
+  if (typeof raw === 'number') {
+    report(checker, field, 'warning', `was a number; read as "${raw}"`);
+    checker.output[field] = String(raw);
+    return String(raw);
+  }
+  if (!isMissing(raw) && typeof raw !== 'string') {
+    report(checker, field, 'error', `${JSON.stringify(raw)} isn't text`);
+    return handleMissing(checker, field, { optional: rules.optional }, '');
+  }
+  return handleMissing(checker, field, rules, '');
+}
+
+function checkBoolean(checker: Checker, field: string, rules: FieldRules = {}): boolean | undefined {
+  const raw = checker.input[field];
+  if (typeof raw === 'boolean') {
+    return raw;
+  }
+  if (raw === 'true' || raw === 'false') {
+    report(checker, field, 'warning', `was text ("${raw}"); read as ${raw}`);
+    checker.output[field] = raw === 'true';
+    return raw === 'true';
+  }
+  if (!isMissing(raw)) {
+    report(checker, field, 'error', `${JSON.stringify(raw)} isn't true or false`);
+  }
+  return handleMissing(checker, field, { optional: rules.optional }, false);
+}
+
+// Unknown values fall back to `fallback`, or are dropped when the field is optional
+function checkChoice<T extends string>(checker: Checker, field: string, allowed: T[], fallback?: T): T | undefined {
+  const raw = checker.input[field];
+  if (allowed.includes(raw as T)) {
+    return raw as T;
+  }
+  if (isMissing(raw)) {
+    return handleMissing(checker, field, { optional: fallback === undefined }, fallback);
+  }
+  const replacement = fallback === undefined ? 'removed' : `set to "${fallback}"`;
+  report(checker, field, 'warning', `${JSON.stringify(raw)} isn't one of ${allowed.join(', ')}; ${replacement}`);
+  return handleMissing(checker, field, { optional: fallback === undefined }, fallback);
+}
+
+// Optional YYYY-MM-DD dates
+function checkDate(checker: Checker, field: string): string | undefined {
+  const raw = checker.input[field];
+  if (isMissing(raw)) {
+    delete checker.output[field];
+    return undefined;
+  }
+  if (typeof raw === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(raw) && !Number.isNaN(new Date(raw).getTime())) {
+    return raw;
+  }
+  // Full timestamps and other formats the Date parser understands are cut down to the date
+  const parsed = typeof raw === 'string' ? new Date(raw) : null;
+  if (parsed && !Number.isNaN(parsed.getTime())) {
+    const date = parsed.toISOString().split('T')[0];
+    report(checker, field, 'warning', `"${raw}" isn't a YYYY-MM-DD date; read as ${date}`);
+    checker.output[field] = date;
+    return date;
+  }
+  report(checker, field, 'error', `${JSON.stringify(raw)} isn't a date; removed`);
+  delete checker.output[field];
+  return undefined;
+}
+
+// Lists of nested items: anything that isn't an object is dropped, the rest are checked one by one
+function checkList<T>(
+  checker: Checker,
+  field: string,
+  checkItem: (item: Checker) => void,
+  rules: FieldRules = {}
+): T[] | undefined {
+  const raw = checker.input[field];
+  if (isMissing(raw)) {
+    return handleMissing<T[]>(checker, field, rules, []);
+  }
+  if (!Array.isArray(raw)) {
+    report(checker, field, 'error', `isn't a list; ${rules.optional ? 'removed' : 'cleared'}`);
+    return handleMissing<T[]>(checker, field, { optional: rules.optional }, []);
+  }
+
+  const items: T[] = [];
+  raw.forEach((entry, index) => {
+    const path = `${fieldPath(checker, field)}[${index}]`;
+    if (!isRecord(entry)) {
+      checker.issues.push({ field: path, severity: 'error', message: `${JSON.stringify(entry)} isn't an item; removed` });
+      return;
+    }
+    const item = createChecker(entry, { correctUnits: checker.correctUnits }, path);
+    checkItem(item);
+    checker.issues.push(...item.issues);
+    items.push(item.output as T);
+  });
+  checker.output[field] = items;
+  return items;
+}
+
+// Nested objects whose fields are all optional (per-car TCO overrides, profile TCO defaults)
+function checkObject(checker: Checker, field: string, checkFields: (nested: Checker) => void): void {
+  const raw = checker.input[field];
+  if (isMissing(raw)) {
+    delete checker.output[field];
+    return;
+  }
+  if (!isRecord(raw)) {
+    report(checker, field, 'error', `${JSON.stringify(raw)} isn't a group of settings; removed`);
+    delete checker.output[field];
+    return;
+  }
+  const nested = createChecker(raw, { correctUnits: checker.correctUnits }, fieldPath(checker, field));
+  checkFields(nested);
+  checker.issues.push(...nested.issues);
+  checker.output[field] = nested.output;
+}
+
+function checkTcoFields(checker: Checker): void {
+  checkAmount(checker, 'ownershipYears', { optional: true });
+  checkAmount(checker, 'annualMiles', { optional: true });
+  checkAmount(checker, 'insurancePerYear', { optional: true });
+  checkChoice<FuelType>(checker, 'fuelType', FUEL_TYPES);
+  checkAmount(checker, 'fuelEfficiency', { optional: true });
+  checkAmount(checker, 'energyPrice', { optional: true });
+  checkAmount(checker, 'maintenancePerYear', { optional: true });
+  checkAmount(checker, 'repairsPerYear', { optional: true });
+  checkAmount(checker, 'registrationPerYear', { optional: true });
+}
+
+function checkFee(checker: Checker): void {
+  checkString(checker, 'name');
+  checkAmount(checker, 'amount', { required: true });
+  checkChoice<FeeCategory>(checker, 'category', FEE_CATEGORIES, 'other');
+  checkBoolean(checker, 'taxable', { optional: true });
+  checkBoolean(checker, 'negotiable');
+  checkChoice<FeeStatus>(checker, 'status', FEE_STATUSES, 'required');
+}
+
+function checkAddOn(checker: Checker): void {
+  checkString(checker, 'name');
+  checkChoice<AddOnType>(checker, 'type', ADD_ON_TYPES, 'other');
+  checkAmount(checker, 'price', { required: true });
+  checkAmount(checker, 'termMonths', { optional: true, integer: true });
+  checkAmount(checker, 'coverageMiles', { optional: true });
+  checkBoolean(checker, 'taxable');
+  checkBoolean(checker, 'financed');
+  checkBoolean(checker, 'cancellable');
+}
+
+function checkIncentive(checker: Checker): void {
+  checkString(checker, 'name');
+  checkChoice<IncentiveType>(checker, 'type', INCENTIVE_TYPES, 'other');
+  checkAmount(checker, 'amount', { required: true });
+  checkBoolean(checker, 'taxable', { optional: true });
+  checkBoolean(checker, 'appliedBeforeTax');
+}
+
+function checkLumpSumPayment(checker: Checker): void {
+  checkNumber(checker, 'month', { required: true, min: 1, integer: true });
+  checkAmount(checker, 'amount', { required: true });
+}
+
+function checkPaymentTiming(checker: Checker): void {
+  checkNumber(checker, 'month', { required: true, min: 1, integer: true });
+  checkNumber(checker, 'daysLate', { required: true, integer: true });
+}
+
+export function validateCar(input: unknown, options: ValidationOptions = {}): ValidationResult<Car> {
+  if (!isRecord(input)) return notARecord(input, 'car');
+  const checker = createChecker(input, options);
+
+  checkString(checker, 'id', { optional: true });
+  checkString(checker, 'make', { required: true });
+  checkString(checker, 'model', { required: true });
+  checkString(checker, 'tier');
+  checkString(checker, 'dealership');
+  checkString(checker, 'vin');
+  checkString(checker, 'notes');
+
+  checkAmount(checker, 'listedPrice');
+  checkAmount(checker, 'negotiatedPrice');
+  checkDecimalRate(checker, 'apr');
+  checkDecimalRate(checker, 'buyRateApr');
+  checkAmount(checker, 'quotedPayment', { optional: true });
+  // Cash deals save a term of 0 (or none) when no "if financed instead" comparison was picked
+  const dealType = checkChoice<DealType>(checker, 'dealType', DEAL_TYPES);
+  checkTerm(checker, 'termLength', { required: dealType !== 'cash' });
+  checkPercentage(checker, 'taxRate');
+  checkAmount(checker, 'flatTaxFee');
+  checkString(checker, 'taxState', { optional: true });
+  checkAmount(checker, 'tax');
+  const creditScore = checkAmount(checker, 'creditScore', { integer: true });
+  if (creditScore && (creditScore < 250 || creditScore > 900)) {
+    report(checker, 'creditScore', 'warning', `${creditScore} is outside the usual 250-900 FICO Auto Score range`);
+  }
+  checkAmount(checker, 'mileage');
+  const year = checkAmount(checker, 'year', { integer: true });
+  if (year && (year < 1900 || year > new Date().getFullYear() + 2)) {
+    report(checker, 'year', 'warning', `${year} doesn't look like a model year`);
+  }
+  checkAmount(checker, 'seats', { optional: true, integer: true });
+  checkAmount(checker, 'downPayment');
+
+  checkList<FeeItem>(checker, 'fees', checkFee);
+  checkAmount(checker, 'dealerFees', { optional: true });
+  checkAmount(checker, 'governmentFees', { optional: true });
+  checkAmount(checker, 'otherFees', { optional: true });
+  checkAmount(checker, 'tradeInValue', { optional: true });
+  checkAmount(checker, 'tradeInPayoff', { optional: true });
+  checkBoolean(checker, 'tradeInTaxCredit', { optional: true });
+  checkObject(checker, 'tco', checkTcoFields);
+  checkList<Incentive>(checker, 'incentives', checkIncentive, { optional: true });
+  checkObject(checker, 'paidUpfront', (nested) => {
+    (['tax', 'dealerFees', 'governmentFees', 'otherFees'] as const).forEach((component) =>
+      checkBoolean(nested, component, { optional: true })
+    );
+  });
+  checkList<AddOn>(checker, 'addOns', checkAddOn, { optional: true });
+
+  // Money factors are tiny decimals; one in APR territory was probably entered as a rate
+  const moneyFactor = checkAmount(checker, 'moneyFactor', { optional: true });
+  if (moneyFactor && moneyFactor > 0.01) {
+    report(
+      checker,
+      'moneyFactor',
+      'warning',
+      `${moneyFactor} is unusually high (about ${(moneyFactor * 2400).toFixed(1)}% APR); money factors are usually below 0.004`
+    );
+  }
+  checkPercentage(checker, 'residualPercent', { optional: true });
+  checkAmount(checker, 'residualValue', { optional: true });
+  checkAmount(checker, 'acquisitionFee', { optional: true });
+  checkAmount(checker, 'dispositionFee', { optional: true });
+  checkAmount(checker, 'annualMileageAllowance', { optional: true });
+  // Excess mileage charges are dollars per mile (0.25); whole numbers were entered in cents
+  const excessMileageCharge = checkAmount(checker, 'excessMileageCharge', { optional: true });
+  if (excessMileageCharge && excessMileageCharge >= 5 && excessMileageCharge <= 100) {
+    if (checker.correctUnits) {
+      const dollars = excessMileageCharge / 100;
+      report(checker, 'excessMileageCharge', 'warning', `${excessMileageCharge} looks like cents per mile; read as $${dollars}`, true);
+      checker.output.excessMileageCharge = dollars;
+    } else {
+      report(checker, 'excessMileageCharge', 'warning', `$${excessMileageCharge} per mile is unusually high`);
+    }
+  }
+  checkAmount(checker, 'remainingLeasePayments', { optional: true, integer: true });
+  checkAmount(checker, 'leaseMonthlyPayment', { optional: true });
+  checkAmount(checker, 'purchaseOptionFee', { optional: true });
+  checkAmount(checker, 'thirdPartyOffer', { optional: true });
+  checkAmount(checker, 'turnInCharges', { optional: true });
+
+  checkAmount(checker, 'extraMonthlyPayment', { optional: true });
+  checkList<LumpSumPayment>(checker, 'lumpSumPayments', checkLumpSumPayment, { optional: true });
+  checkAmount(checker, 'roundUpPaymentTo', { optional: true });
+  checkAmount(checker, 'refinanceMonth', { optional: true, integer: true });
+  checkDecimalRate(checker, 'refinanceApr', { optional: true });
+  checkTerm(checker, 'refinanceTerm', { optional: true });
+  checkAmount(checker, 'refinanceFees', { optional: true });
+  checkBoolean(checker, 'refinanceFeesFinanced', { optional: true });
+  checkAmount(checker, 'gapPrice', { optional: true });
+  checkAmount(checker, 'balloonPayment', { optional: true });
+  checkAmount(checker, 'firstPaymentDeferralDays', { optional: true, integer: true });
+
+  checkChoice<InterestMethod>(checker, 'interestMethod', INTEREST_METHODS);
+  checkDate(checker, 'contractDate');
+  checkDate(checker, 'firstPaymentDate');
+  checkList<PaymentTiming>(checker, 'paymentTimings', checkPaymentTiming, { optional: true });
+
+  checkString(checker, 'warrantyType', { optional: true });
+  checkAmount(checker, 'warrantyRemainingMonths', { optional: true });
+  checkAmount(checker, 'warrantyRemainingMiles', { optional: true });
+  checkBoolean(checker, 'warrantyTransferrable', { optional: true });
+  checkString(checker, 'repName', { optional: true });
+  checkString(checker, 'repPhone', { optional: true });
+  checkString(checker, 'carfaxUrl', { optional: true });
+  checkString(checker, 'vdpUrl', { optional: true });
+
+  return { value: checker.output as unknown as Car, issues: checker.issues };
+}
+
+// Profiles are stored and imported partially (missing fields come from the defaults), so every field is optional
+export function validateProfile(input: unknown, options: ValidationOptions = {}): ValidationResult<Partial<UserProfile>> {
+  if (!isRecord(input)) return notARecord(input, 'profile');
+  const checker = createChecker(input, options);
+
+  checkPercentage(checker, 'taxRate', { optional: true });
+  checkString(checker, 'state', { optional: true });
+  checkString(checker, 'zipcode', { optional: true });
+  checkAmount(checker, 'creditScore', { optional: true, integer: true });
+  checkAmount(checker, 'flatTaxFee', { optional: true });
+  checkAmount(checker, 'defaultDownPayment', { optional: true });
+  checkTerm(checker, 'defaultTermLength', { optional: true });
+  checkDecimalRate(checker, 'defaultApr', { optional: true });
+  checkAmount(checker, 'targetMonthlyPayment', { optional: true });
+  checkAmount(checker, 'typicalDealerFees', { optional: true });
+  checkAmount(checker, 'typicalGovernmentFees', { optional: true });
+  checkAmount(checker, 'typicalOtherFees', { optional: true });
+  checkPercentage(checker, 'expectedInvestmentReturn', { optional: true });
+  checkString(checker, 'feeRecommendations', { optional: true });
+  checkObject(checker, 'tcoDefaults', checkTcoFields);
+
+  return { value: checker.output as Partial<UserProfile>, issues: checker.issues };
+}
+
+export function validateMakeAprRate(input: unknown, options: ValidationOptions = {}): ValidationResult<MakeAprRate> {
+  if (!isRecord(input)) return notARecord(input, 'rate');
+  const checker = createChecker(input, options);
+
+  checkString(checker, 'make', { required: true });
+  checkTerm(checker, 'termLength', { required: true });
+  checkDecimalRate(checker, 'apr', { required: true });
+
+  return { value: checker.output as unknown as MakeAprRate, issues: checker.issues };
+}
+
+// What to do with one imported record that has issues
+export type ValidationChoice = 'import' | 'importUncorrected' | 'skip';
+
+// An incoming record checked twice: as corrected, and with its values kept in the units they were entered in
+export interface ValidationReview<T> {
+  key: string; // Unique within one import
+  label: string;
+  corrected: ValidationResult<T>;
+  uncorrected: ValidationResult<T>;
+}
+
+export function reviewRecords<T>(
+  keyPrefix: string,
+  records: unknown[],
+  validate: (input: unknown, options?: ValidationOptions) => ValidationResult<T>,
+  describe: (record: T) => string
+): ValidationReview<T>[] {
+  return records.map((record, index) => {
+    const corrected = validate(record);
+    return {
+      key: `${keyPrefix}-${index}`,
+      label: describe(corrected.value),
+      corrected,
+      uncorrected: validate(record, { correctUnits: false }),
+    };
+  });
+}
+
+export const needsReview = (review: ValidationReview<unknown>) => review.corrected.issues.length > 0;
+
+export const hasUnitCorrections = (review: ValidationReview<unknown>) =>
+  review.corrected.issues.some((issue) => issue.unitCorrection);
+
+// Records with errors are skipped unless the user picks otherwise; everything else is imported as corrected
+export const defaultValidationChoice = (review: ValidationReview<unknown>): ValidationChoice =>
+  hasValidationErrors(review.corrected.issues) ? 'skip' : 'import';
+
+export function resolveValidationReview<T>(
+  reviews: ValidationReview<T>[],
+  choices: Record<string, ValidationChoice>
+): T[] {
+  return reviews.flatMap((review) => {
+    const choice = choices[review.key] || defaultValidationChoice(review);
+    if (choice === 'skip') return [];
+    return [choice === 'importUncorrected' ? review.uncorrected.value : review.corrected.value];
+  });
+}
+
+// Issues found in saved data as it's loaded. Saved data is never dropped, so the corrected records are used and the
+// issues are shown once per session (the same record is loaded again on every page).
+export interface StoredRecordReport {
+  store: string; // e.g., "Cars", "Profile"
+  label: string;
+  issues: ValidationIssue[];
+}
+
+let storedRecordReports: StoredRecordReport[] = [];
+const reportedRecords = new Set<string>();
+const reportListeners = new Set<() => void>();
+
+export function reportStoredRecordIssues(report: StoredRecordReport): void {
+  const reportId = `${report.store}:${report.label}:${report.issues.map(formatIssue).join('|')}`;
+  if (report.issues.length === 0 || reportedRecords.has(reportId)) {
+    return;
+  }
+  reportedRecords.add(reportId);
+  storedRecordReports = [...storedRecordReports, report];
+  reportListeners.forEach((listener) => listener());
+}
+
+export function getStoredRecordReports(): StoredRecordReport[] {
+  return storedRecordReports;
+}
+
+export function subscribeToStoredRecordReports(listener: () => void): () => void {
+  reportListeners.add(listener);
+  return () => {
+    reportListeners.delete(listener);
+  };
+}
+
+export function dismissStoredRecordReports(): void {
+  storedRecordReports = [];
+  reportListeners.forEach((listener) => listener());
+}